@@ -0,0 +1,39 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { isUuid } from '@/lib/signaling/validation'
+
+type RouteContext = { params: Promise<{ userId: string }> }
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await params
+    if (!isUuid(userId)) {
+      return NextResponse.json({ error: 'Invalid user' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { error } = await supabase
+      .from('blocks')
+      .delete()
+      .eq('blocker_id', user.id)
+      .eq('blocked_id', userId)
+
+    if (error) {
+      logger.error('Error unblocking user:', error)
+      return NextResponse.json({ error: 'Failed to unblock user' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error in block API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
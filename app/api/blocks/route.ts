@@ -0,0 +1,118 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { isUuid } from '@/lib/signaling/validation'
+
+// Заблокированные пользователи с профилями (если профиль нам еще виден)
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: blocks, error } = await supabase
+      .from('blocks')
+      .select('blocked_id, created_at')
+      .eq('blocker_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching blocks:', error)
+      return NextResponse.json({ error: 'Failed to fetch blocks' }, { status: 500 })
+    }
+
+    const blockedIds = (blocks || []).map(block => block.blocked_id)
+    const { data: profiles, error: profilesError } = blockedIds.length > 0
+      ? await supabase.from('profiles').select('id, email, display_name, avatar_url').in('id', blockedIds)
+      : { data: [], error: null }
+
+    if (profilesError) {
+      logger.error('Error fetching blocked profiles:', profilesError)
+    }
+
+    return NextResponse.json({
+      blocks: (blocks || []).map(block => ({
+        ...block,
+        profile: profiles?.find(profile => profile.id === block.blocked_id) || null
+      }))
+    })
+  } catch (error) {
+    logger.error('Error in blocks API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Блокировка: { userId: string }. Ожидающий ответа запрос в контакты от этого пользователя отклоняется
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+    }
+
+    const userId = (body as { userId?: unknown })?.userId
+    if (!isUuid(userId) || userId === user.id) {
+      return NextResponse.json({ error: 'Invalid userId' }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from('blocks')
+      .upsert({ blocker_id: user.id, blocked_id: userId }, { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true })
+
+    if (error) {
+      logger.error('Error blocking user:', error)
+      return NextResponse.json(
+        { error: 'Failed to block user' },
+        { status: error.code === '23503' ? 404 : 500 } // 23503 - пользователя не существует
+      )
+    }
+
+    const { data: pendingRequest } = await supabase
+      .from('contact_requests')
+      .select('id')
+      .eq('from_user', userId)
+      .eq('to_user', user.id)
+      .eq('status', 'pending')
+      .maybeSingle()
+
+    if (pendingRequest) {
+      const { error: declineError } = await supabase
+        .rpc('respond_contact_request', { request_id: pendingRequest.id, accept: false })
+
+      if (declineError) {
+        logger.warn('Failed to decline contact request from blocked user:', declineError)
+      }
+    }
+
+    // Свой ожидающий запрос заблокированному тоже отзываем - иначе он мог бы его принять
+    const { error: cancelError } = await supabase
+      .from('contact_requests')
+      .delete()
+      .eq('from_user', user.id)
+      .eq('to_user', userId)
+      .eq('status', 'pending')
+
+    if (cancelError) {
+      logger.warn('Failed to cancel contact request to blocked user:', cancelError)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error in blocks API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
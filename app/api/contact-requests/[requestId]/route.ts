@@ -0,0 +1,91 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { isUuid } from '@/lib/signaling/validation'
+
+type RouteContext = { params: Promise<{ requestId: string }> }
+
+// Ответ на входящий запрос: { action: 'accept' | 'decline' }
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { requestId } = await params
+    if (!isUuid(requestId)) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+    }
+
+    const action = (body as { action?: unknown })?.action
+    if (action !== 'accept' && action !== 'decline') {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    // Добавление в контакты обеих сторон делает функция respond_contact_request в supabase-setup.sql
+    const { error } = await supabase.rpc('respond_contact_request', {
+      request_id: requestId,
+      accept: action === 'accept'
+    })
+
+    if (error) {
+      // P0002 - запроса нет, он не нам или на него уже ответили
+      if (error.code === 'P0002') {
+        return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+      }
+      logger.error('Error responding to contact request:', error)
+      return NextResponse.json({ error: 'Failed to respond to contact request' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error in contact request API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Отзыв своего запроса, пока на него не ответили
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { requestId } = await params
+    if (!isUuid(requestId)) {
+      return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { error } = await supabase
+      .from('contact_requests')
+      .delete()
+      .eq('id', requestId)
+      .eq('from_user', user.id)
+      .eq('status', 'pending')
+
+    if (error) {
+      logger.error('Error cancelling contact request:', error)
+      return NextResponse.json({ error: 'Failed to cancel contact request' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error in contact request API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,155 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { isUuid } from '@/lib/signaling/validation'
+
+const REQUEST_FIELDS = 'id, from_user, to_user, status, created_at, responded_at'
+
+// Ожидающие ответа запросы: входящие (нам) и исходящие (от нас)
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: requests, error } = await supabase
+      .from('contact_requests')
+      .select(REQUEST_FIELDS)
+      .eq('status', 'pending')
+      .or(`from_user.eq.${user.id},to_user.eq.${user.id}`)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching contact requests:', error)
+      return NextResponse.json({ error: 'Failed to fetch contact requests' }, { status: 500 })
+    }
+
+    const incoming = (requests || []).filter(request => request.to_user === user.id)
+    const outgoing = (requests || []).filter(request => request.from_user === user.id)
+
+    // Профиль отправителя входящего запроса виден нам, пока запрос ждет ответа (политика profiles)
+    const senderIds = incoming.map(request => request.from_user)
+    const { data: senders, error: sendersError } = senderIds.length > 0
+      ? await supabase.from('profiles').select('id, email, display_name, avatar_url').in('id', senderIds)
+      : { data: [], error: null }
+
+    if (sendersError) {
+      logger.error('Error fetching contact request senders:', sendersError)
+    }
+
+    return NextResponse.json({
+      incoming: incoming.map(request => ({
+        ...request,
+        sender: senders?.find(sender => sender.id === request.from_user) || null
+      })),
+      outgoing
+    })
+  } catch (error) {
+    logger.error('Error in contact requests API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Запрос в контакты: { toUserId: string }. В контакты стороны попадают только после принятия запроса;
+// если адресат уже прислал нам запрос - принимаем его, если он уже в наших контактах - запрос не нужен
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+    }
+
+    const toUserId = (body as { toUserId?: unknown })?.toUserId
+    if (!isUuid(toUserId) || toUserId === user.id) {
+      return NextResponse.json({ error: 'Invalid toUserId' }, { status: 400 })
+    }
+
+    // Заблокированный пользователь не может отправлять запросы (то же проверяет политика RLS)
+    const { data: blocked, error: blockedError } = await supabase
+      .rpc('is_blocked_by', { blocker: toUserId })
+
+    if (blockedError) {
+      logger.error('Error checking block status:', blockedError)
+      return NextResponse.json({ error: 'Failed to send contact request' }, { status: 500 })
+    }
+
+    if (blocked) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { data: existingContact, error: checkError } = await supabase
+      .from('contacts')
+      .select('contact_id')
+      .eq('owner_id', user.id)
+      .eq('contact_id', toUserId)
+      .maybeSingle()
+
+    if (checkError) {
+      logger.error('Error checking contact status:', checkError)
+      return NextResponse.json({ error: 'Failed to send contact request' }, { status: 500 })
+    }
+
+    if (existingContact) {
+      return NextResponse.json({ request: null })
+    }
+
+    // Встречный запрос: достаточно принять его
+    const { data: counterRequest } = await supabase
+      .from('contact_requests')
+      .select('id')
+      .eq('from_user', toUserId)
+      .eq('to_user', user.id)
+      .eq('status', 'pending')
+      .maybeSingle()
+
+    if (counterRequest) {
+      const { error: respondError } = await supabase
+        .rpc('respond_contact_request', { request_id: counterRequest.id, accept: true })
+
+      if (respondError) {
+        logger.error('Error accepting counter request:', respondError)
+        return NextResponse.json({ error: 'Failed to send contact request' }, { status: 500 })
+      }
+
+      return NextResponse.json({ request: null })
+    }
+
+    const { data: contactRequest, error } = await supabase
+      .from('contact_requests')
+      .insert({ from_user: user.id, to_user: toUserId })
+      .select(REQUEST_FIELDS)
+      .single()
+
+    if (error) {
+      // 23505 - ожидающий запрос этому пользователю уже есть
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'Request already sent' }, { status: 409 })
+      }
+      // 23503 - пользователя не существует
+      if (error.code === '23503') {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 })
+      }
+      logger.error('Error sending contact request:', error)
+      return NextResponse.json({ error: 'Failed to send contact request' }, { status: 500 })
+    }
+
+    return NextResponse.json({ request: contactRequest })
+  } catch (error) {
+    logger.error('Error in contact requests API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,98 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { isUuid } from '@/lib/signaling/validation'
+
+const MAX_NICKNAME_LENGTH = 64
+
+type RouteContext = { params: Promise<{ contactId: string }> }
+
+// Переименование контакта: { nickname: string | null }, пустое имя сбрасывает его
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { contactId } = await params
+    if (!isUuid(contactId)) {
+      return NextResponse.json({ error: 'Invalid contact' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+    }
+
+    const nickname = (body as { nickname?: unknown })?.nickname
+    if (nickname !== null && typeof nickname !== 'string') {
+      return NextResponse.json({ error: 'Invalid nickname' }, { status: 400 })
+    }
+
+    const trimmed = nickname?.trim() || null
+    if (trimmed && trimmed.length > MAX_NICKNAME_LENGTH) {
+      return NextResponse.json({ error: 'Nickname too long' }, { status: 400 })
+    }
+
+    const { data: contact, error } = await supabase
+      .from('contacts')
+      .update({ nickname: trimmed })
+      .eq('owner_id', user.id)
+      .eq('contact_id', contactId)
+      .select('contact_id, nickname, created_at')
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error renaming contact:', error)
+      return NextResponse.json({ error: 'Failed to rename contact' }, { status: 500 })
+    }
+
+    if (!contact) {
+      return NextResponse.json({ error: 'Contact not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ contact })
+  } catch (error) {
+    logger.error('Error in contact API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { contactId } = await params
+    if (!isUuid(contactId)) {
+      return NextResponse.json({ error: 'Invalid contact' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { error } = await supabase
+      .from('contacts')
+      .delete()
+      .eq('owner_id', user.id)
+      .eq('contact_id', contactId)
+
+    if (error) {
+      logger.error('Error removing contact:', error)
+      return NextResponse.json({ error: 'Failed to remove contact' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error in contact API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+
+// Контакты добавляются только через принятие запроса (/api/contact-requests)
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: contacts, error } = await supabase
+      .from('contacts')
+      .select('contact_id, nickname, created_at')
+      .eq('owner_id', user.id)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      logger.error('Error fetching contacts:', error)
+      return NextResponse.json({ error: 'Failed to fetch contacts' }, { status: 500 })
+    }
+
+    return NextResponse.json({ contacts: contacts || [] })
+  } catch (error) {
+    logger.error('Error in contacts API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { createHmac } from 'crypto'
+import { logger } from '@/lib/logger'
+
+// Время жизни TURN-учетных данных по умолчанию - 1 час
+const DEFAULT_TTL_SECONDS = 3600
+
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302']
+
+const parseUrls = (value: string | undefined) =>
+  (value || '').split(',').map(url => url.trim()).filter(Boolean)
+
+// Выдача ICE серверов; для TURN - временные учетные данные в формате coturn REST API
+// (use-auth-secret + static-auth-secret): username = "<expiry>:<userId>", credential = base64(HMAC-SHA1(secret, username))
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const stunUrls = process.env.STUN_URLS ? parseUrls(process.env.STUN_URLS) : DEFAULT_STUN_URLS
+    const turnUrls = parseUrls(process.env.TURN_URLS)
+    const secret = process.env.TURN_SECRET
+    const ttl = Number(process.env.TURN_CREDENTIAL_TTL) || DEFAULT_TTL_SECONDS
+    const expiresAt = Math.floor(Date.now() / 1000) + ttl
+
+    const iceServers: RTCIceServer[] = stunUrls.map(urls => ({ urls }))
+
+    if (turnUrls.length > 0 && secret) {
+      const username = `${expiresAt}:${user.id}`
+      const credential = createHmac('sha1', secret).update(username).digest('base64')
+      iceServers.push({ urls: turnUrls, username, credential })
+    } else if (turnUrls.length > 0) {
+      logger.warn('TURN_URLS is set without TURN_SECRET, TURN servers are not issued')
+    }
+
+    return NextResponse.json(
+      {
+        iceServers,
+        ttl,
+        expiresAt: expiresAt * 1000
+      },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    )
+  } catch (error) {
+    logger.error('Error in ice-servers API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
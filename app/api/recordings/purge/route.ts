@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { purgeExpiredRecordings } from '@/lib/recordingRetention'
+import { logger } from '@/lib/logger'
+
+// Очистка записей всех пользователей старше срока хранения (NEXT_PUBLIC_RECORDING_RETENTION_DAYS).
+// Вызывается по расписанию (например, Vercel Cron) с заголовком Authorization: Bearer <CRON_SECRET>
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const purged = await purgeExpiredRecordings(supabase)
+
+    return NextResponse.json({ purged })
+  } catch (error) {
+    logger.error('Error in recordings purge API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,96 @@
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { isUuid } from '@/lib/signaling/validation'
+import { ABUSE_REPORT_REASONS, AbuseReportReason } from '@/lib/types'
+import { MAX_REPORT_DETAILS_LENGTH } from '@/lib/moderation'
+
+// Жалоба на пользователя: { reportedId, reason, details?, callId? }.
+// Если указан звонок, в жалобу копируются его данные из истории - администратору не нужен доступ к calls.
+// У клиентов нет права INSERT в abuse_reports: запись создается здесь с service role после всех проверок
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let body: Record<string, unknown>
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+    }
+
+    const { reportedId, reason, details, callId } = body ?? {}
+
+    if (!isUuid(reportedId) || reportedId === user.id) {
+      return NextResponse.json({ error: 'Invalid reportedId' }, { status: 400 })
+    }
+
+    if (!ABUSE_REPORT_REASONS.includes(reason as AbuseReportReason)) {
+      return NextResponse.json({ error: 'Invalid reason' }, { status: 400 })
+    }
+
+    if (details !== undefined && (typeof details !== 'string' || details.length > MAX_REPORT_DETAILS_LENGTH)) {
+      return NextResponse.json({ error: 'Invalid details' }, { status: 400 })
+    }
+
+    if (callId !== undefined && !isUuid(callId)) {
+      return NextResponse.json({ error: 'Invalid callId' }, { status: 400 })
+    }
+
+    // RLS calls вернет запись, только если мы участвовали в звонке
+    let callMetadata = null
+    if (callId) {
+      const { data: call, error: callError } = await supabase
+        .from('calls')
+        .select('caller_id, callee_id, media, started_at, answered_at, ended_at, end_reason')
+        .eq('id', callId)
+        .maybeSingle()
+
+      if (callError) {
+        logger.error('Error fetching reported call:', callError)
+        return NextResponse.json({ error: 'Failed to file report' }, { status: 500 })
+      }
+
+      if (!call || (call.caller_id !== reportedId && call.callee_id !== reportedId)) {
+        return NextResponse.json({ error: 'Call not found' }, { status: 404 })
+      }
+
+      callMetadata = call
+    }
+
+    const { data: report, error } = await createAdminClient()
+      .from('abuse_reports')
+      .insert({
+        reporter_id: user.id,
+        reported_id: reportedId,
+        reason,
+        details: (details as string | undefined)?.trim() || null,
+        call_id: callId || null,
+        call_metadata: callMetadata
+      })
+      .select('id, created_at')
+      .single()
+
+    if (error) {
+      logger.error('Error filing abuse report:', error)
+      return NextResponse.json(
+        { error: 'Failed to file report' },
+        { status: error.code === '23503' ? 404 : 500 } // 23503 - пользователя не существует
+      )
+    }
+
+    logger.log(`🚩 Abuse report ${report.id.slice(0, 8)} filed against ${reportedId.slice(0, 8)} (${reason})`)
+
+    return NextResponse.json({ report })
+  } catch (error) {
+    logger.error('Error in reports API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
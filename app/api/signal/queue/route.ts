@@ -0,0 +1,97 @@
+import { createClient } from '@/lib/supabase/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logger'
+import { parseSignalRequest } from '@/lib/signaling/server'
+
+// Очередь сигналов для HTTP-polling транспорта (таблица signal_queue)
+
+const MAX_BATCH = 100
+
+// Постановка сигнала в очередь получателя
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { signal, response } = await parseSignalRequest(request, user.id)
+    if (response) {
+      return response
+    }
+
+    const { error } = await supabase
+      .from('signal_queue')
+      .insert({
+        from_user: user.id,
+        to_user: signal.to,
+        payload: signal
+      })
+
+    if (error) {
+      logger.error('Error enqueuing signal:', error)
+      return NextResponse.json({ error: 'Failed to enqueue signal' }, { status: 500 })
+    }
+
+    logger.log(`📤 HTTP queue: Signal queued from ${signal.from.slice(0, 8)} to ${signal.to.slice(0, 8)}: ${signal.type}`)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error in signal queue API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Забираем сигналы текущего пользователя после курсора ?after=<id>; выданные сигналы удаляются
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const after = Number(request.nextUrl.searchParams.get('after') || 0)
+
+    const { data, error } = await supabase
+      .from('signal_queue')
+      .select('id, payload')
+      .eq('to_user', user.id)
+      .gt('id', after)
+      .order('id', { ascending: true })
+      .limit(MAX_BATCH)
+
+    if (error) {
+      logger.error('Error reading signal queue:', error)
+      return NextResponse.json({ error: 'Failed to read signals' }, { status: 500 })
+    }
+
+    const signals = data || []
+    const cursor = signals.length > 0 ? signals[signals.length - 1].id : after
+
+    if (signals.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('signal_queue')
+        .delete()
+        .eq('to_user', user.id)
+        .lte('id', cursor)
+
+      if (deleteError) {
+        logger.warn('Error cleaning up delivered signals:', deleteError)
+      }
+    }
+
+    return NextResponse.json({
+      signals: signals.map(row => row.payload),
+      cursor
+    })
+  } catch (error) {
+    logger.error('Error in signal queue API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server'
 import { NextRequest, NextResponse } from 'next/server'
 import { logger } from '@/lib/logger'
+import { parseSignalRequest } from '@/lib/signaling/server'
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,29 +14,24 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { to, from, type, signal } = await request.json()
-
-    if (!to || !from || !type) {
-      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
+    // Отправитель берется из сессии, тело проверяется на соответствие CallSignal
+    const { signal, response } = await parseSignalRequest(request, user.id)
+    if (response) {
+      return response
     }
 
-    // Создаем канал для получателя
-    const targetChannel = (await supabase).channel(`webrtc:${to}`)
-
-    // Отправляем сигнал
-    await targetChannel.subscribe()
-
-    await targetChannel.send({
-      type: 'broadcast',
-      event: 'webrtc_signal',
-      payload: {
-        type,
-        signal,
-        from
-      }
+    // Доставка в приватный канал получателя (функция send_webrtc_signal в supabase-setup.sql)
+    const { error } = await supabase.rpc('send_webrtc_signal', {
+      target: signal.to,
+      signal
     })
 
-    logger.log(`📤 HTTP API: Signal sent from ${from.slice(0, 8)} to ${to.slice(0, 8)}: ${signal.type}`)
+    if (error) {
+      logger.error('Error delivering signal:', error)
+      return NextResponse.json({ error: 'Failed to deliver signal' }, { status: 500 })
+    }
+
+    logger.log(`📤 HTTP API: Signal sent from ${signal.from.slice(0, 8)} to ${signal.to.slice(0, 8)}: ${signal.type}`)
 
     return NextResponse.json({ success: true })
   } catch (error) {
@@ -79,38 +79,36 @@ export async function GET() {
       }, { status: 500 })
     }
 
-    // Получаем профиль текущего пользователя
+    // Заблокированных пользователей в списке не показываем
+    const { data: blocks, error: blocksError } = await supabase
+      .from('blocks')
+      .select('blocked_id')
+      .eq('blocker_id', user.id)
+
+    if (blocksError) {
+      logger.error('Error fetching blocks:', blocksError)
+    }
+
+    const blockedIds = new Set((blocks || []).map(block => block.blocked_id))
+
+    // Получаем профиль текущего пользователя (вместе с выбранным режимом присутствия и текстом статуса)
     const { data: currentUserProfile, error: currentUserError } = await supabase
       .from('profiles')
-      .select('id, email, display_name, full_name, avatar_url, last_seen, created_at, updated_at')
+      .select('id, email, display_name, full_name, avatar_url, last_seen, created_at, updated_at, presence_mode, status_text')
       .eq('id', user.id)
       .single()
 
-    // Определяем онлайн статус на основе last_seen (последние 1 минуту)
-    const ONLINE_THRESHOLD_SECONDS = 60
-    const now = new Date()
-    const onlineThreshold = new Date(now.getTime() - ONLINE_THRESHOLD_SECONDS * 1000)
-
-    const usersWithStatus = (users || []).map(user => ({
-      ...user,
-      online: user.last_seen ? new Date(user.last_seen) > onlineThreshold : false
-    }))
-
-    // Добавляем текущего пользователя в список
-    const currentUserWithStatus = currentUserProfile ? {
-      ...currentUserProfile,
-      online: currentUserProfile.last_seen ? new Date(currentUserProfile.last_seen) > onlineThreshold : false
-    } : null
+    // Статус в сети клиент получает через Realtime Presence, здесь отдаем только профили
+    const visibleUsers = (users || []).filter(user => !blockedIds.has(user.id))
 
-    logger.log('Returning users:', usersWithStatus.length)
+    logger.log('Returning users:', visibleUsers.length)
 
     return NextResponse.json({
-      users: usersWithStatus,
-      currentUser: currentUserWithStatus,
+      users: visibleUsers,
+      currentUser: currentUserProfile,
       debug: {
         currentUser: user.email,
-        totalUsers: usersWithStatus.length,
-        onlineThreshold: `${ONLINE_THRESHOLD_SECONDS} seconds`
+        totalUsers: visibleUsers.length
       }
     })
   } catch (error) {
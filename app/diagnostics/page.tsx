@@ -0,0 +1,190 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { FiArrowLeft, FiActivity, FiCheckCircle, FiAlertTriangle, FiXCircle, FiMinusCircle, FiCopy, FiDownload } from 'react-icons/fi'
+import { runNetworkDiagnostics, formatDiagnosticsReport, getNatLabel, NetworkDiagnostics, CheckStatus } from '@/utils/networkDiagnostics'
+import { logger } from '@/lib/logger'
+
+const STATUS_ICONS: Record<CheckStatus, React.ReactNode> = {
+  ok: <FiCheckCircle className="w-5 h-5 text-green-500" />,
+  warning: <FiAlertTriangle className="w-5 h-5 text-yellow-500" />,
+  failed: <FiXCircle className="w-5 h-5 text-red-500" />,
+  skipped: <FiMinusCircle className="w-5 h-5 text-gray-500" />,
+}
+
+interface CheckRowProps {
+  title: string
+  status: CheckStatus
+  children: React.ReactNode
+}
+
+function CheckRow({ title, status, children }: CheckRowProps) {
+  return (
+    <div className="flex gap-3 p-3 rounded-lg bg-[#4E4E50]/10 border border-[#4E4E50]/30">
+      <div className="flex-shrink-0 mt-0.5">{STATUS_ICONS[status]}</div>
+      <div className="min-w-0">
+        <p className="text-sm font-semibold text-white">{title}</p>
+        <div className="text-xs text-gray-400 mt-1 space-y-0.5 break-words">{children}</div>
+      </div>
+    </div>
+  )
+}
+
+export default function DiagnosticsPage() {
+  const [running, setRunning] = useState(false)
+  const [step, setStep] = useState<string | null>(null)
+  const [report, setReport] = useState<NetworkDiagnostics | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const runTest = async () => {
+    setRunning(true)
+    setReport(null)
+    setCopied(false)
+    try {
+      const result = await runNetworkDiagnostics({ onProgress: setStep })
+      setReport(result)
+    } catch (error) {
+      logger.error('Diagnostics failed:', error)
+    } finally {
+      setRunning(false)
+      setStep(null)
+    }
+  }
+
+  const copyReport = async () => {
+    if (!report) return
+    try {
+      await navigator.clipboard.writeText(formatDiagnosticsReport(report))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      logger.warn('Failed to copy diagnostics report:', error)
+    }
+  }
+
+  const downloadReport = () => {
+    if (!report) return
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `diagnostics-${report.createdAt.slice(0, 19).replace(/[:T]/g, '-')}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const natStatus: CheckStatus = !report ? 'skipped' :
+    report.nat.type === 'open' || report.nat.type === 'cone' ? 'ok' :
+    report.nat.type === 'blocked' ? 'failed' : 'warning'
+
+  return (
+    <div className="min-h-screen bg-[#1A1A1D] text-white p-4 sm:p-6">
+      <div className="max-w-2xl mx-auto">
+        <Link href="/" className="inline-flex items-center gap-2 text-sm text-gray-400 hover:text-[#C3073F] transition mb-4">
+          <FiArrowLeft className="w-4 h-4" />
+          К звонкам
+        </Link>
+
+        <div className="p-4 sm:p-6 rounded-2xl bg-[#4E4E50]/10 border-2 border-[#4E4E50]/20 backdrop-blur-lg">
+          <h1 className="text-xl sm:text-2xl font-bold mb-2 flex items-center gap-2">
+            <FiActivity className="text-[#C3073F]" />
+            Проверка связи
+          </h1>
+          <p className="text-sm text-gray-400 mb-4">
+            Определяет тип NAT, доступность TURN сервера, проверяет передачу звука через WebRTC и уровень микрофона.
+            Во время проверки скажите что-нибудь в микрофон.
+          </p>
+
+          <button
+            onClick={runTest}
+            disabled={running}
+            className="cursor-pointer w-full sm:w-auto bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-4 py-2 rounded-lg font-semibold transition flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            {running ? (
+              <>
+                <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white"></div>
+                {step || 'Проверка...'}
+              </>
+            ) : (
+              report ? 'Проверить снова' : 'Начать проверку'
+            )}
+          </button>
+
+          {report && (
+            <div className="mt-6 space-y-3">
+              <CheckRow title="Тип NAT" status={natStatus}>
+                <p>{getNatLabel(report.nat.type)}</p>
+                {report.nat.publicAddresses.length > 0 && (
+                  <p>Внешний адрес: {report.nat.publicAddresses.join(', ')}</p>
+                )}
+              </CheckRow>
+
+              <CheckRow title="TURN сервер" status={report.turn.status}>
+                {!report.turn.configured && <p>Не настроен</p>}
+                {report.turn.status === 'ok' && (
+                  <p>Доступен: {report.turn.relayAddress} ({report.turn.protocol}), {report.turn.timeMs} мс</p>
+                )}
+                {report.turn.configured && report.turn.status === 'failed' && <p>Не удалось получить relay-кандидат</p>}
+              </CheckRow>
+
+              <CheckRow title="Передача звука (loopback)" status={report.media.status}>
+                {report.media.error && <p>{report.media.error}</p>}
+                {report.media.connectTimeMs !== undefined && (
+                  <>
+                    <p>Соединение установлено за {report.media.connectTimeMs} мс</p>
+                    <p>Получено пакетов: {report.media.packetsReceived}, потери {report.media.packetLoss}%, джиттер {report.media.jitter ?? '—'} мс</p>
+                  </>
+                )}
+              </CheckRow>
+
+              <CheckRow title="Микрофон" status={report.microphone.status}>
+                {report.microphone.error && <p>{report.microphone.error}</p>}
+                {report.microphone.peakLevel !== undefined && (
+                  <>
+                    <p>{report.microphone.deviceLabel || 'Устройство по умолчанию'}</p>
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 h-2 rounded-full bg-[#4E4E50]/30 overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-[#6F2232] to-[#C3073F]"
+                          style={{ width: `${report.microphone.peakLevel}%` }}
+                        />
+                      </div>
+                      <span>{report.microphone.peakLevel}%</span>
+                    </div>
+                  </>
+                )}
+              </CheckRow>
+
+              <div className="p-3 rounded-lg bg-[#950740]/10 border border-[#950740]/30">
+                <p className="text-sm font-semibold mb-1">Рекомендации</p>
+                <ul className="text-xs text-gray-300 space-y-1">
+                  {report.recommendations.map(rec => (
+                    <li key={rec}>• {rec}</li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="flex flex-col sm:flex-row gap-2">
+                <button
+                  onClick={copyReport}
+                  className="cursor-pointer flex-1 bg-[#950740]/20 hover:bg-[#950740]/30 border border-[#950740] px-3 py-2 rounded-lg transition text-sm flex items-center justify-center gap-2"
+                >
+                  <FiCopy className="w-4 h-4" />
+                  {copied ? 'Скопировано' : 'Скопировать отчет'}
+                </button>
+                <button
+                  onClick={downloadReport}
+                  className="cursor-pointer flex-1 bg-[#4E4E50]/30 hover:bg-[#4E4E50]/50 border border-[#4E4E50]/50 px-3 py-2 rounded-lg transition text-sm flex items-center justify-center gap-2"
+                >
+                  <FiDownload className="w-4 h-4" />
+                  Скачать JSON
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,16 +3,30 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react'
 import SimplePeer from 'simple-peer'
 import { WebRTCService } from '@/lib/webrtc'
-import { CallState, User, PeerRefs } from '@/lib/types'
+import { createSupabaseCallServices } from '@/lib/callServices'
+import { CallState, User, PeerRefs, CallMediaKind, CallOptions, CallParticipant, WaitingCallInfo, CallQualityStats, AudioProfile, RecordingState, CallRecording, ChatMessage, FileTransfer, E2eeStatus, Contact, ContactRequest, CallPrivacy, BlockedUser, AbuseReportTarget, AbuseReportReason, PresenceMode, UserPresence } from '@/lib/types'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
 import { logger } from '@/lib/logger'
+import { AudioDevicePreferences, applyAudioOutput, loadAudioDevicePreferences, saveAudioDevicePreferences } from '@/lib/audioDevices'
+import { DEFAULT_AUDIO_PROFILE, loadAudioProfile, saveAudioProfile } from '@/lib/audioProfiles'
 import Header from '@/components/Header'
 import CallInterface from '@/components/CallInterface'
 import UserList from '@/components/UserList'
 import SettingsModal from '@/components/SettingsModal'
+import CallHistory from '@/components/CallHistory'
+import BusyCallToast from '@/components/BusyCallToast'
+import RecordingToast from '@/components/RecordingToast'
+import ReportUserModal from '@/components/ReportUserModal'
+import { countMissedCalls } from '@/lib/callHistory'
+import { fetchContacts, removeContact as deleteContact, renameContact as saveContactNickname, migrateLocalContacts, subscribeToContacts, fetchContactRequests, sendContactRequest, respondToContactRequest, cancelContactRequest, subscribeToContactRequests, updateCallPrivacy } from '@/lib/contacts'
+import { fetchBlockedUsers, blockUser, unblockUser, reportUser } from '@/lib/moderation'
+import { PresenceTracker, savePresencePreferences, getPresence, OFFLINE_PRESENCE } from '@/lib/presence'
 import FloatingLines from '@/components/FloatingLines'
 
+// Голосовая активность отправляется собеседнику не чаще, чем раз в 250 мс
+const VOICE_ACTIVITY_MIN_INTERVAL_MS = 250
+
 export default function AudioCallPage() {
   const [callState, setCallState] = useState<CallState>('idle')
   const [error, setError] = useState<string | null>(null)
@@ -24,13 +38,51 @@ export default function AudioCallPage() {
   const [users, setUsers] = useState<User[]>([])
   const [incomingCallerId, setIncomingCallerId] = useState<string | null>(null)
   const [currentPeerId, setCurrentPeerId] = useState<string | null>(null)
-  const [contacts, setContacts] = useState<string[]>([])
+  const [contacts, setContacts] = useState<Contact[]>([])
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([])
+  const [reportTarget, setReportTarget] = useState<AbuseReportTarget | null>(null)
+  const [contactRequests, setContactRequests] = useState<{ incoming: ContactRequest[], outgoing: ContactRequest[] }>({ incoming: [], outgoing: [] })
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [missedCallsCount, setMissedCallsCount] = useState(0)
+  const [callNotice, setCallNotice] = useState<string | null>(null)
+  const [busyCall, setBusyCall] = useState<WaitingCallInfo | null>(null)
+  const [waitingCall, setWaitingCall] = useState<WaitingCallInfo | null>(null)
+  const [heldCall, setHeldCall] = useState<WaitingCallInfo | null>(null)
+  const [remoteOnHold, setRemoteOnHold] = useState(false)
+  const [relayOnly, setRelayOnly] = useState(false)
+  const [e2eeEnabled, setE2eeEnabled] = useState(false)
+  const [callPrivacy, setCallPrivacy] = useState<CallPrivacy>('everyone')
+  // Статусы пользователей из Realtime Presence (нет ключа - пользователь не в сети) и собственные настройки статуса
+  const [presence, setPresence] = useState<Record<string, UserPresence>>({})
+  const [presenceMode, setPresenceMode] = useState<PresenceMode>('auto')
+  const [statusText, setStatusText] = useState<string | null>(null)
+  const [callQuality, setCallQuality] = useState<CallQualityStats | null>(null)
+  const [audioDevices, setAudioDevices] = useState<AudioDevicePreferences>({ inputId: null, outputId: null })
+  const [activeMicrophoneId, setActiveMicrophoneId] = useState<string | null>(null)
+  const [audioProfile, setAudioProfile] = useState<AudioProfile>(DEFAULT_AUDIO_PROFILE)
+  const [callAudioProfile, setCallAudioProfile] = useState<AudioProfile>(DEFAULT_AUDIO_PROFILE)
+  const [recordingState, setRecordingState] = useState<RecordingState>('idle')
+  const [remoteRecording, setRemoteRecording] = useState(false)
+  const [recordingRequestFrom, setRecordingRequestFrom] = useState<string | null>(null)
+  const [lastRecording, setLastRecording] = useState<CallRecording | null>(null)
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([])
+  const [fileTransfers, setFileTransfers] = useState<FileTransfer[]>([])
+  const [e2eeStatus, setE2eeStatus] = useState<E2eeStatus | null>(null)
   const [loadingUsers, setLoadingUsers] = useState(true)
   const [isLoadingUsers, setIsLoadingUsers] = useState(false) // Флаг для предотвращения одновременных вызовов
   const [voiceActivity, setVoiceActivity] = useState<{ local: boolean, remote: boolean }>({ local: false, remote: false })
   const [remoteMuted, setRemoteMuted] = useState(false)
   const [remoteVoiceActivity, setRemoteVoiceActivity] = useState(false)
+  const [incomingCallMedia, setIncomingCallMedia] = useState<CallMediaKind>('audio')
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null)
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null)
+  const [isVideoEnabled, setIsVideoEnabled] = useState(false)
+  const [remoteVideoEnabled, setRemoteVideoEnabled] = useState(false)
+  const [isScreenSharing, setIsScreenSharing] = useState(false)
+  const [remoteScreenStream, setRemoteScreenStream] = useState<MediaStream | null>(null)
+  const [participants, setParticipants] = useState<CallParticipant[]>([])
 
   // Debug: отслеживаем изменения remoteMuted
   useEffect(() => {
@@ -50,6 +102,7 @@ export default function AudioCallPage() {
   const localAudioRef = useRef<HTMLAudioElement>(null)
   const remoteAudioRef = useRef<HTMLAudioElement>(null)
   const webrtcServiceRef = useRef<WebRTCService | null>(null)
+  const presenceTrackerRef = useRef<PresenceTracker | null>(null)
 
   // Refs для WebRTC
   const peerRef = useRef<SimplePeer.Instance | null>(null)
@@ -63,14 +116,29 @@ export default function AudioCallPage() {
   const router = useRouter()
   const supabase = createClient()
 
-  // Функция для определения онлайн статуса
-  const isUserOnline = (lastSeen: string | null): boolean => {
-    if (!lastSeen) return false
-    const lastSeenDate = new Date(lastSeen)
-    const now = new Date()
-    const diffSeconds = (now.getTime() - lastSeenDate.getTime()) / 1000
-    return diffSeconds < 60 // Онлайн, если активность была менее 1 минуты назад
-  }
+  const loadContacts = useCallback(async () => {
+    try {
+      setContacts(await fetchContacts())
+    } catch (e) {
+      logger.error('Error loading contacts:', e)
+    }
+  }, [])
+
+  const loadContactRequests = useCallback(async () => {
+    try {
+      setContactRequests(await fetchContactRequests())
+    } catch (e) {
+      logger.error('Error loading contact requests:', e)
+    }
+  }, [])
+
+  const loadBlockedUsers = useCallback(async () => {
+    try {
+      setBlockedUsers(await fetchBlockedUsers())
+    } catch (e) {
+      logger.error('Error loading blocked users:', e)
+    }
+  }, [])
 
   const loadUsers = async (userOverride?: User) => {
     const userToUse = userOverride || currentUser
@@ -123,7 +191,7 @@ export default function AudioCallPage() {
 
         // Фильтруем текущего пользователя и контакты из списка
         const filteredUsers = data.users.filter((user: User) =>
-          user.id !== userToUse.id && !contacts.includes(user.id)
+          user.id !== userToUse.id && !contacts.some(contact => contact.contact_id === user.id)
         )
         logger.log('All users count:', data.users.length, 'Filtered users count:', filteredUsers.length)
         setUsers(filteredUsers)
@@ -182,9 +250,11 @@ export default function AudioCallPage() {
           display_name: profile.display_name,
           avatar_url: profile.avatar_url,
           created_at: profile.created_at,
-          updated_at: profile.updated_at,
-          online: true
+          updated_at: profile.updated_at
         })
+        // Режим статуса нужен до первой публикации присутствия, чтобы невидимка не появился в сети
+        setPresenceMode(profile.presence_mode || 'auto')
+        setStatusText(profile.status_text ?? null)
       } else {
         // Если профиля нет, создаем базовый
         setCurrentUser({
@@ -193,8 +263,7 @@ export default function AudioCallPage() {
           display_name: '',
           avatar_url: '',
           created_at: user.created_at || '',
-          updated_at: user.updated_at || '',
-          online: true
+          updated_at: user.updated_at || ''
         })
       }
 
@@ -211,6 +280,14 @@ export default function AudioCallPage() {
         }
       }
 
+      // Выбранные устройства звука этого пользователя
+      const savedAudioDevices = loadAudioDevicePreferences(user.id)
+      setAudioDevices(savedAudioDevices)
+      webrtcServiceRef.current?.setAudioInputDevice(savedAudioDevices.inputId)
+      const savedAudioProfile = loadAudioProfile(user.id)
+      setAudioProfile(savedAudioProfile)
+      webrtcServiceRef.current?.setAudioProfile(savedAudioProfile)
+
       // Загружаем профиль пользователя
       const { data: userProfile, error: userProfileError } = await supabase
         .from('profiles')
@@ -227,20 +304,26 @@ export default function AudioCallPage() {
           display_name: userProfile.display_name,
           avatar_url: userProfile.avatar_url,
           created_at: userProfile.created_at,
-          updated_at: userProfile.updated_at,
-          online: true
+          updated_at: userProfile.updated_at
         }
         setCurrentUser(currentUserData)
+        setCallPrivacy(userProfile.call_privacy || 'everyone')
       }
 
-      // Загружаем контакты из localStorage
-      const savedContacts = localStorage.getItem('audioCallContacts')
-      if (savedContacts) {
-        try {
-          setContacts(JSON.parse(savedContacts))
-        } catch (e) {
-          logger.error('Error loading contacts:', e)
-        }
+      // Загружаем контакты с сервера (список из localStorage переносится туда при первом входе)
+      try {
+        await migrateLocalContacts()
+      } catch (e) {
+        logger.error('Error migrating local contacts:', e)
+      }
+      loadContacts()
+      loadContactRequests()
+      loadBlockedUsers()
+
+      // Пропущенные звонки, которые пользователь еще не видел в истории
+      if (currentUserData) {
+        countMissedCalls(currentUserData.id, localStorage.getItem('missedCallsSeenAt'))
+          .then(setMissedCallsCount)
       }
 
       // Небольшая задержка для стабильности
@@ -269,7 +352,9 @@ export default function AudioCallPage() {
       lastKeepAliveRef,
       reconnectAttemptsRef
     }
-    webrtcServiceRef.current = new WebRTCService(webrtcRefs)
+    webrtcServiceRef.current = new WebRTCService(webrtcRefs, createSupabaseCallServices())
+    webrtcServiceRef.current.setRelayOnly(localStorage.getItem('forceTurnRelay') === 'true')
+    webrtcServiceRef.current.setE2eeEnabled(localStorage.getItem('e2eeEnabled') === 'true')
 
     webrtcServiceRef.current.setCallbacks({
       onStateChange: (state) => {
@@ -277,7 +362,9 @@ export default function AudioCallPage() {
         if (state === 'receiving') {
           const callerId = webrtcServiceRef.current?.getIncomingCallerId() || null
           setIncomingCallerId(callerId)
+          setIncomingCallMedia(webrtcServiceRef.current?.getIncomingCallMedia() || 'audio')
           setCurrentPeerId(callerId) // Устанавливаем собеседника при входящем звонке
+          setCallNotice(null)
           // Устанавливаем peerUserId в WebRTCService
           if (webrtcServiceRef.current && callerId) {
             webrtcServiceRef.current.setPeerUserId(callerId)
@@ -301,6 +388,10 @@ export default function AudioCallPage() {
         } else if (state === 'idle') {
           // Очищаем при завершении звонка
           setCurrentPeerId(null)
+          setLocalStream(null)
+          setRemoteStream(null)
+          setIsVideoEnabled(false)
+          setRemoteVideoEnabled(false)
           // Очищаем peerUserId в WebRTCService
           if (webrtcServiceRef.current) {
             webrtcServiceRef.current.setPeerUserId(null)
@@ -311,11 +402,13 @@ export default function AudioCallPage() {
         if (remoteAudioRef.current) {
           remoteAudioRef.current.srcObject = stream
         }
+        setRemoteStream(stream)
       },
       onLocalStream: (stream) => {
         if (localAudioRef.current) {
           localAudioRef.current.srcObject = stream
         }
+        setLocalStream(stream)
       },
       onError: (error) => {
         setError(error)
@@ -332,6 +425,64 @@ export default function AudioCallPage() {
           console.log(`🗣️ Remote voice activity: ${active ? 'speaking' : 'quiet'}`)
         }
       },
+      onRemoteVideoChange: (enabled) => {
+        setRemoteVideoEnabled(enabled)
+      },
+      onScreenShareChange: (active) => {
+        setIsScreenSharing(active)
+      },
+      onRemoteScreenShare: (stream) => {
+        setRemoteScreenStream(stream)
+      },
+      onParticipantsChange: (roomParticipants) => {
+        setParticipants(roomParticipants)
+      },
+      onPrimaryPeerChange: (userId) => {
+        // Основной собеседник покинул групповой звонок - показываем следующего участника
+        setCurrentPeerId(userId)
+        setTargetUserId(userId)
+      },
+      onCallNotAnswered: (_userId, reason) => {
+        setCallNotice(
+          reason === 'busy' ? 'Линия занята' :
+          reason === 'rejected' ? 'Звонок отклонен' :
+          reason === 'restricted' ? 'Пользователь не принимает звонки от вас' :
+          'Нет ответа'
+        )
+      },
+      onBusyCall: (callerId, media) => {
+        setBusyCall({ userId: callerId, media })
+      },
+      onWaitingCallChange: (call) => {
+        setWaitingCall(call)
+      },
+      onHeldCallChange: (call) => {
+        setHeldCall(call)
+      },
+      onRemoteHoldChange: (onHold) => {
+        setRemoteOnHold(onHold)
+      },
+      onMissedCall: (callerId) => {
+        setMissedCallsCount(count => count + 1)
+        logger.log(`📞 Пропущенный звонок от пользователя ${callerId.slice(0, 8)}...`)
+      },
+      onQualityChange: setCallQuality,
+      onAudioInputChange: setActiveMicrophoneId,
+      onAudioProfileChange: setCallAudioProfile,
+      onRecordingStateChange: setRecordingState,
+      onRecordingRequest: setRecordingRequestFrom,
+      onRemoteRecordingChange: setRemoteRecording,
+      onRecordingReady: (recording) => {
+        // Показываем только последнюю запись - ссылку на предыдущую освобождаем
+        setLastRecording(previous => {
+          if (previous) URL.revokeObjectURL(previous.url)
+          return recording
+        })
+      },
+      onChatMessagesChange: setChatMessages,
+      onRemoteTypingChange: setTypingUserIds,
+      onFileTransfersChange: setFileTransfers,
+      onE2eeChange: setE2eeStatus,
     })
 
     return () => {
@@ -339,61 +490,40 @@ export default function AudioCallPage() {
     }
   }, [router, supabase]) // Инициализация запускается только один раз при монтировании
 
-  // Синхронизация онлайн статуса с Supabase
+  // Присутствие в сети через Realtime Presence: статус публикуется, пока открыта вкладка
   useEffect(() => {
-    if (!currentUser) {
-      logger.log('Online status effect: No current user, skipping')
-      return
-    }
+    if (!currentUser?.id) return
 
-    const updateOnlineStatus = async () => {
-      try {
-        const { error } = await supabase
-          .from('profiles')
-          .update({ last_seen: new Date().toISOString() })
-          .eq('id', currentUser.id)
+    const tracker = new PresenceTracker(currentUser.id, setPresence)
+    presenceTrackerRef.current = tracker
+    tracker.start()
 
-        if (error) {
-          logger.warn('Failed to update online status:', error)
-        }
-      } catch (error) {
-        logger.warn('Network error updating online status:', error)
-      }
-    }
-
-    // Обновляем статус сразу при загрузке
-    updateOnlineStatus()
-
-    // И затем каждые 30 секунд
-    const interval = setInterval(updateOnlineStatus, 30 * 1000) // 30 секунд
-
-    // Также обновляем при активности пользователя
-    let activityTimeout: NodeJS.Timeout
-
-    const handleActivity = () => {
-      clearTimeout(activityTimeout)
-      activityTimeout = setTimeout(() => {
-        updateOnlineStatus()
-      }, 5000) // Обновляем через 5 секунд после последней активности
+    return () => {
+      tracker.stop()
+      presenceTrackerRef.current = null
+      setPresence({})
     }
+  }, [currentUser?.id])
 
-    // Слушаем события активности
-    document.addEventListener('mousedown', handleActivity)
-    document.addEventListener('keydown', handleActivity)
-    document.addEventListener('scroll', handleActivity)
-    document.addEventListener('touchstart', handleActivity)
+  useEffect(() => {
+    presenceTrackerRef.current?.setPreferences(presenceMode, statusText)
+  }, [currentUser?.id, presenceMode, statusText])
 
-    return () => {
-      clearInterval(interval)
-      clearTimeout(activityTimeout)
-      document.removeEventListener('mousedown', handleActivity)
-      document.removeEventListener('keydown', handleActivity)
-      document.removeEventListener('scroll', handleActivity)
-      document.removeEventListener('touchstart', handleActivity)
-    }
-  }, [currentUser, supabase])
+  // Во время звонка (в том числе исходящего и входящего) статус "В звонке"
+  useEffect(() => {
+    presenceTrackerRef.current?.setInCall(callState !== 'idle')
+  }, [currentUser?.id, callState])
 
-  // Realtime обновление списка пользователей (для онлайн статуса)
+  // Статусы показываются только для контактов (заблокированных среди них не отслеживаем)
+  useEffect(() => {
+    presenceTrackerRef.current?.watch(
+      contacts
+        .map(contact => contact.contact_id)
+        .filter(contactId => !blockedUsers.some(blocked => blocked.blocked_id === contactId))
+    )
+  }, [currentUser?.id, contacts, blockedUsers])
+
+  // Realtime обновление профилей в списке пользователей
   useEffect(() => {
     if (!currentUser) return
 
@@ -414,12 +544,14 @@ export default function AudioCallPage() {
             display_name: profileData.display_name || currentUser.display_name,
             avatar_url: profileData.avatar_url || currentUser.avatar_url,
             created_at: profileData.created_at || currentUser.created_at,
-            updated_at: profileData.updated_at || currentUser.updated_at,
-            online: true
+            updated_at: profileData.updated_at || currentUser.updated_at
           })
+          // Статус, измененный на другом устройстве или на странице профиля
+          setPresenceMode(profileData.presence_mode || 'auto')
+          setStatusText(profileData.status_text ?? null)
         }
 
-        // Обновляем статус пользователя в списке в реальном времени
+        // Обновляем профиль пользователя в списке в реальном времени
         setUsers(prevUsers => {
           const updatedUser = payload.new as User
 
@@ -437,8 +569,7 @@ export default function AudioCallPage() {
               ...newUsers[existingUserIndex],
               display_name: updatedUser.display_name || newUsers[existingUserIndex].display_name,
               avatar_url: updatedUser.avatar_url || newUsers[existingUserIndex].avatar_url,
-              last_seen: updatedUser.last_seen || newUsers[existingUserIndex].last_seen,
-              online: isUserOnline(updatedUser.last_seen || null)
+              last_seen: updatedUser.last_seen || newUsers[existingUserIndex].last_seen
             }
             return newUsers
           } else {
@@ -450,8 +581,7 @@ export default function AudioCallPage() {
               avatar_url: updatedUser.avatar_url,
               last_seen: updatedUser.last_seen,
               created_at: updatedUser.created_at,
-              updated_at: updatedUser.updated_at,
-              online: isUserOnline(updatedUser.last_seen || null)
+              updated_at: updatedUser.updated_at
             }]
           }
         })
@@ -462,15 +592,7 @@ export default function AudioCallPage() {
         }
       })
 
-    // Также обновляем статусы каждые 30 секунд для надежности
-    const usersUpdateInterval = setInterval(() => {
-      if (!isLoadingUsers && currentUser) {
-        loadUsers()
-      }
-    }, 30 * 1000)
-
     return () => {
-      clearInterval(usersUpdateInterval)
       supabase.removeChannel(profilesChannel)
     }
   }, [currentUser, supabase])
@@ -488,6 +610,9 @@ export default function AudioCallPage() {
     let localSource: MediaStreamAudioSourceNode | null = null
     let remoteSource: MediaStreamAudioSourceNode | null = null
     let animationFrame: number
+    // Последнее отправленное собеседнику значение и время отправки
+    let sentVoiceActivity: boolean | null = null
+    let sentVoiceActivityAt = 0
 
     const initVoiceDetection = async () => {
       try {
@@ -542,7 +667,14 @@ export default function AudioCallPage() {
           setVoiceActivity({ local: newVoiceActivity.local, remote: remoteVoiceActivity })
 
           // Отправляем статус голосовой активности собеседнику (только если изменилось)
-          if (webrtcServiceRef.current && callState === 'connected') {
+          const now = Date.now()
+          if (
+            webrtcServiceRef.current &&
+            newVoiceActivity.local !== sentVoiceActivity &&
+            now - sentVoiceActivityAt >= VOICE_ACTIVITY_MIN_INTERVAL_MS
+          ) {
+            sentVoiceActivity = newVoiceActivity.local
+            sentVoiceActivityAt = now
             webrtcServiceRef.current.sendVoiceActivityStatus(newVoiceActivity.local)
           }
           animationFrame = requestAnimationFrame(detectVoice)
@@ -570,14 +702,15 @@ export default function AudioCallPage() {
         audioContext.close()
       }
     }
-  }, [callState])
+  }, [callState, activeMicrophoneId]) // После смены микрофона анализатор пересоздается для нового трека
 
-  const handleStartCall = async (userId: string) => {
+  const handleStartCall = async (userId: string, options: CallOptions = {}) => {
     if (!userId.trim()) {
       setError('Не указан пользователь для звонка')
       return
     }
     setError(null)
+    setCallNotice(null)
     setTargetUserId(userId)
     setCurrentPeerId(userId) // Устанавливаем собеседника сразу при начале звонка
     // Устанавливаем peerUserId в WebRTCService
@@ -587,34 +720,260 @@ export default function AudioCallPage() {
 
     // Всегда начинаем со включенным микрофоном
     setIsMuted(false)
+    setIsVideoEnabled(!!options.video)
+
+    await webrtcServiceRef.current?.startCall(userId, options)
+  }
+
+  const dismissBusyCall = useCallback(() => {
+    setBusyCall(null)
+  }, [])
+
+  const dismissRecording = () => {
+    if (lastRecording) {
+      URL.revokeObjectURL(lastRecording.url)
+    }
+    setLastRecording(null)
+  }
+
+  const toggleRecording = async () => {
+    if (!webrtcServiceRef.current) return
+
+    if (webrtcServiceRef.current.getRecordingState() === 'idle') {
+      setError(null)
+      await webrtcServiceRef.current.requestRecording()
+    } else {
+      await webrtcServiceRef.current.stopRecording()
+    }
+  }
+
+  const openHistory = () => {
+    if (!isHistoryOpen) {
+      // Открыв историю, пользователь увидел пропущенные звонки - сбрасываем бейдж
+      localStorage.setItem('missedCallsSeenAt', new Date().toISOString())
+      setMissedCallsCount(0)
+    }
+    setIsHistoryOpen(!isHistoryOpen)
+  }
+
+  // Звук собеседника идет на выбранное устройство вывода
+  useEffect(() => {
+    applyAudioOutput(remoteAudioRef.current, audioDevices.outputId)
+  }, [audioDevices.outputId])
+
+  const changeAudioInput = (deviceId: string | null) => {
+    const next = { ...audioDevices, inputId: deviceId }
+    setAudioDevices(next)
+    if (currentUser) saveAudioDevicePreferences(currentUser.id, next)
+    webrtcServiceRef.current?.setAudioInputDevice(deviceId)
+  }
+
+  const changeAudioOutput = (deviceId: string | null) => {
+    const next = { ...audioDevices, outputId: deviceId }
+    setAudioDevices(next)
+    if (currentUser) saveAudioDevicePreferences(currentUser.id, next)
+  }
+
+  const changeAudioProfile = (profile: AudioProfile) => {
+    setAudioProfile(profile)
+    if (currentUser) saveAudioProfile(currentUser.id, profile)
+    webrtcServiceRef.current?.setAudioProfile(profile)
+  }
+
+  // Режим "только через TURN" применяется к следующему звонку
+  const changeRelayOnly = (enabled: boolean) => {
+    setRelayOnly(enabled)
+    localStorage.setItem('forceTurnRelay', String(enabled))
+    webrtcServiceRef.current?.setRelayOnly(enabled)
+  }
+
+  // Сквозное шифрование применяется к следующему исходящему звонку
+  const changeE2eeEnabled = (enabled: boolean) => {
+    setE2eeEnabled(enabled)
+    localStorage.setItem('e2eeEnabled', String(enabled))
+    webrtcServiceRef.current?.setE2eeEnabled(enabled)
+  }
+
+  // Кто может нам звонить: настройка хранится в профиле, проверка входящих offer - в WebRTCService
+  const changeCallPrivacy = async (privacy: CallPrivacy) => {
+    if (!currentUser) return
+    const previous = callPrivacy
+    setCallPrivacy(privacy)
+    try {
+      await updateCallPrivacy(currentUser.id, privacy)
+    } catch (e) {
+      logger.error('Error updating call privacy:', e)
+      setCallPrivacy(previous)
+    }
+  }
+
+  const changePresence = async (mode: PresenceMode, text: string | null) => {
+    if (!currentUser) return
+    const previous = { mode: presenceMode, text: statusText }
+    setPresenceMode(mode)
+    setStatusText(text)
+    try {
+      await savePresencePreferences(currentUser.id, mode, text)
+    } catch (e) {
+      logger.error('Error updating presence:', e)
+      setPresenceMode(previous.mode)
+      setStatusText(previous.text)
+    }
+  }
+
+  useEffect(() => {
+    webrtcServiceRef.current?.setCallPrivacy(callPrivacy, contacts.map(contact => contact.contact_id))
+  }, [callPrivacy, contacts])
+
+  // Добавление отправляет собеседнику запрос в контакты: в списке контактов он появится только после
+  // принятия запроса, до этого запрос показывается среди отправленных
+  const addContactToList = async (userId: string) => {
+    if (contacts.some(contact => contact.contact_id === userId)) return
+    if (contactRequests.outgoing.some(request => request.to_user === userId)) return
+    try {
+      // null - запрос не понадобился: мы приняли встречный запрос, и контакт уже добавлен
+      if (!await sendContactRequest(userId)) {
+        loadContacts()
+      }
+    } catch (e) {
+      logger.error('Error sending contact request:', e)
+    }
+    loadContactRequests()
+  }
+
+  // Изменения сразу показываются в списке; при ошибке список перечитывается с сервера
+  const removeContact = async (contactId: string) => {
+    setContacts(prev => prev.filter(contact => contact.contact_id !== contactId))
+    try {
+      await deleteContact(contactId)
+    } catch (e) {
+      logger.error('Error removing contact:', e)
+      loadContacts()
+    }
+  }
+
+  const cancelRequest = async (requestId: string) => {
+    setContactRequests(prev => ({ ...prev, outgoing: prev.outgoing.filter(request => request.id !== requestId) }))
+    try {
+      await cancelContactRequest(requestId)
+    } catch (e) {
+      logger.error('Error cancelling contact request:', e)
+    }
+    loadContactRequests()
+  }
+
+  // Заблокированный пропадает из списков сразу; /api/users перестает его возвращать
+  const handleBlockUser = async (userId: string) => {
+    const profile = allUsers.find(user => user.id === userId)
+    setBlockedUsers(prev => prev.some(blocked => blocked.blocked_id === userId) ? prev : [
+      { blocked_id: userId, created_at: new Date().toISOString(), profile: profile || null },
+      ...prev
+    ])
+    setAllUsers(prev => prev.filter(user => user.id !== userId))
+    try {
+      await blockUser(userId)
+    } catch (e) {
+      logger.error('Error blocking user:', e)
+      loadBlockedUsers()
+    }
+    loadContactRequests()
+  }
+
+  const handleUnblockUser = async (userId: string) => {
+    setBlockedUsers(prev => prev.filter(blocked => blocked.blocked_id !== userId))
+    try {
+      await unblockUser(userId)
+    } catch (e) {
+      logger.error('Error unblocking user:', e)
+      loadBlockedUsers()
+    }
+    loadUsers()
+  }
 
-    await webrtcServiceRef.current?.startCall(userId)
+  const submitReport = async (reason: AbuseReportReason, details: string) => {
+    if (!reportTarget) return
+    await reportUser(reportTarget.userId, reason, details, reportTarget.callId)
   }
 
-  const addContactToList = (userId: string) => {
-    if (contacts.includes(userId)) return
-    const newContacts = [...contacts, userId]
-    setContacts(newContacts)
-    localStorage.setItem('audioCallContacts', JSON.stringify(newContacts))
+  useEffect(() => {
+    webrtcServiceRef.current?.setBlockedUsers(blockedUsers.map(blocked => blocked.blocked_id))
+  }, [blockedUsers])
+
+  const respondToRequest = async (requestId: string, accept: boolean) => {
+    setContactRequests(prev => ({ ...prev, incoming: prev.incoming.filter(request => request.id !== requestId) }))
+    try {
+      await respondToContactRequest(requestId, accept)
+    } catch (e) {
+      logger.error('Error responding to contact request:', e)
+    }
+    loadContactRequests()
+    if (accept) {
+      loadContacts()
+    }
   }
 
-  const removeContact = (contactId: string) => {
-    const newContacts = contacts.filter(id => id !== contactId)
-    setContacts(newContacts)
-    localStorage.setItem('audioCallContacts', JSON.stringify(newContacts))
+  const renameContact = async (contactId: string, nickname: string | null) => {
+    setContacts(prev => prev.map(contact => contact.contact_id === contactId ? { ...contact, nickname } : contact))
+    try {
+      await saveContactNickname(contactId, nickname)
+    } catch (e) {
+      logger.error('Error renaming contact:', e)
+      loadContacts()
+    }
   }
 
+  // Контакты, измененные в другой вкладке или на другом устройстве.
+  // Подписка зависит только от ID: остальные поля профиля меняются без переподписки
+  const currentUserId = currentUser?.id
+
+  useEffect(() => {
+    if (!currentUserId) return
+    return subscribeToContacts(currentUserId, loadContacts)
+  }, [currentUserId, loadContacts])
+
+  useEffect(() => {
+    if (!currentUserId) return
+    return subscribeToContactRequests(currentUserId, loadContactRequests)
+  }, [currentUserId, loadContactRequests])
+
+  // Профиль звонящего может отсутствовать в списке пользователей (например, при приватности "Только контакты"):
+  // RLS открывает его тому, кому он звонил
+  useEffect(() => {
+    if (!incomingCallerId) return
+
+    supabase
+      .from('profiles')
+      .select('id, email, display_name, full_name, avatar_url, last_seen, created_at, updated_at')
+      .eq('id', incomingCallerId)
+      .maybeSingle()
+      .then(({ data: profile, error }) => {
+        if (error) {
+          logger.error('Error loading caller profile:', error)
+          return
+        }
+        if (profile) {
+          setAllUsers(prev => prev.some(user => user.id === profile.id) ? prev : [...prev, profile])
+        }
+      })
+  }, [incomingCallerId, supabase])
+
   // Автоматическая фильтрация пользователей при изменении контактов
   React.useEffect(() => {
     if (allUsers.length > 0 && currentUser) {
       const filteredUsers = allUsers.filter((user: User) =>
-        user.id !== currentUser.id && !contacts.includes(user.id)
+        user.id !== currentUser.id && !contacts.some(contact => contact.contact_id === user.id)
       )
       setUsers(filteredUsers)
       logger.log('Auto-filtered users count:', filteredUsers.length)
     }
   }, [contacts, allUsers, currentUser])
 
+  const rejectIncomingCall = () => {
+    webrtcServiceRef.current?.rejectCall()
+    setIncomingCallerId(null)
+    setCallState('idle')
+  }
+
   const handleEndCall = async () => {
     await webrtcServiceRef.current?.endCall()
 
@@ -634,6 +993,8 @@ export default function AudioCallPage() {
     setIncomingCallerId(null)
     setCurrentPeerId(null)
     setRemoteMuted(false)
+    setIsVideoEnabled(false)
+    setRemoteVideoEnabled(false)
     setCallState('idle')
   }
 
@@ -644,6 +1005,8 @@ export default function AudioCallPage() {
 
   // Settings modal functions
   const openSettingsModal = () => {
+    setRelayOnly(localStorage.getItem('forceTurnRelay') === 'true')
+    setE2eeEnabled(localStorage.getItem('e2eeEnabled') === 'true')
     if (currentUser) {
       setSettingsUser(currentUser)
       setSettingsDisplayName(currentUser.display_name || '')
@@ -842,7 +1205,29 @@ export default function AudioCallPage() {
         console.log(`⚠️ Cannot send mute status: callState=${callState}, webrtcService=${!!webrtcServiceRef.current}`)
       }
     }
-  } 
+  }
+
+  const toggleVideo = async () => {
+    if (!webrtcServiceRef.current) return
+
+    await webrtcServiceRef.current.setVideoEnabled(!isVideoEnabled)
+    setIsVideoEnabled(webrtcServiceRef.current.isVideoEnabled())
+  }
+
+  const handleInviteToCall = async (userId: string) => {
+    setError(null)
+    await webrtcServiceRef.current?.inviteToCall(userId)
+  }
+
+  const toggleScreenShare = async () => {
+    if (!webrtcServiceRef.current) return
+
+    if (webrtcServiceRef.current.isScreenSharing()) {
+      await webrtcServiceRef.current.stopScreenShare()
+    } else {
+      await webrtcServiceRef.current.startScreenShare()
+    }
+  }
 
   return (
     <div className="min-h-screen bg-[#1A1A1D] text-white relative">
@@ -876,7 +1261,13 @@ export default function AudioCallPage() {
         <Header
           currentUser={currentUser}
           loadingProfile={loadingProfile}
+          presence={currentUser ? getPresence(presence, currentUser.id) : OFFLINE_PRESENCE}
+          presenceMode={presenceMode}
+          statusText={statusText}
+          onChangePresence={changePresence}
           onOpenSettings={openSettingsModal}
+          onOpenHistory={openHistory}
+          missedCallsCount={missedCallsCount}
           onLogout={handleLogout}
         />
 
@@ -884,7 +1275,7 @@ export default function AudioCallPage() {
       <CallInterface
         callState={callState}
         currentUser={currentUser}
-        users={users}
+        users={allUsers}
         targetUserId={targetUserId}
         incomingCallerId={incomingCallerId}
         currentPeerId={currentPeerId}
@@ -892,37 +1283,139 @@ export default function AudioCallPage() {
         isMuted={isMuted}
         remoteMuted={remoteMuted}
         remoteVoiceActivity={remoteVoiceActivity}
-        onAcceptCall={() => {
+        incomingCallMedia={incomingCallMedia}
+        localStream={localStream}
+        remoteStream={remoteStream}
+        isVideoEnabled={isVideoEnabled}
+        remoteVideoEnabled={remoteVideoEnabled}
+        isScreenSharing={isScreenSharing}
+        remoteScreenStream={remoteScreenStream}
+        participants={participants}
+        callNotice={callNotice}
+        waitingCall={waitingCall}
+        heldCall={heldCall}
+        remoteOnHold={remoteOnHold}
+        callQuality={callQuality}
+        audioOutputId={audioDevices.outputId}
+        audioProfile={callAudioProfile}
+        recordingState={recordingState}
+        remoteRecording={remoteRecording}
+        recordingRequestFrom={recordingRequestFrom}
+        chatMessages={chatMessages}
+        typingUserIds={typingUserIds}
+        fileTransfers={fileTransfers}
+        e2eeStatus={e2eeStatus}
+        onAcceptCall={(withVideo) => {
           // Всегда начинаем со включенным микрофоном при ответе на звонок
           setIsMuted(false)
-          webrtcServiceRef.current?.answerCall(incomingCallerId || '')
+          setIsVideoEnabled(!!withVideo)
+          webrtcServiceRef.current?.answerCall(incomingCallerId || '', { video: withVideo })
           // Не сбрасываем incomingCallerId, чтобы знать с кем разговариваем
         }}
-        onRejectCall={() => {
-          webrtcServiceRef.current?.endCall()
-          setIncomingCallerId(null)
-          setCallState('idle')
-        }}
+        onRejectCall={rejectIncomingCall}
         onEndCall={handleEndCall}
         onToggleMute={toggleMute}
+        onToggleVideo={toggleVideo}
+        onToggleScreenShare={toggleScreenShare}
+        onHoldAndAnswer={() => webrtcServiceRef.current?.holdAndAnswerWaitingCall()}
+        onRejectWaiting={() => webrtcServiceRef.current?.rejectWaitingCall()}
+        onSwapCalls={() => webrtcServiceRef.current?.swapCalls()}
+        onToggleRecording={toggleRecording}
+        onRecordingConsent={(accepted) => webrtcServiceRef.current?.respondToRecordingRequest(accepted)}
+        onSendChatMessage={(text) => webrtcServiceRef.current?.sendChatMessage(text)}
+        onChatTyping={(active) => webrtcServiceRef.current?.sendTypingStatus(active)}
+        onSendFile={(file) => webrtcServiceRef.current?.sendFile(file)}
+        onAcceptFile={(id) => webrtcServiceRef.current?.acceptFile(id)}
+        onDeclineFile={(id) => webrtcServiceRef.current?.declineFile(id)}
+        onCancelFile={(id) => webrtcServiceRef.current?.cancelFileTransfer(id)}
+        onBlockCaller={() => {
+          if (!incomingCallerId) return
+          const callerId = incomingCallerId
+          rejectIncomingCall()
+          handleBlockUser(callerId)
+        }}
+        onReportCaller={() => {
+          if (!incomingCallerId) return
+          // ID звонка берем до отклонения - после него сервис забывает звонок
+          const callId = webrtcServiceRef.current?.getCallId() || null
+          setReportTarget({ userId: incomingCallerId, callId })
+          rejectIncomingCall()
+        }}
       />
 
       {/* Аудио элементы (скрыты) */}
       <audio ref={localAudioRef} autoPlay muted className="hidden" />
       <audio ref={remoteAudioRef} autoPlay className="hidden" />
 
-      {/* Панель управления */}
-      {callState === 'idle' && (
+      {/* История звонков */}
+      {callState === 'idle' && isHistoryOpen && currentUser && (
+        <CallHistory
+          currentUserId={currentUser.id}
+          users={allUsers}
+          onCallBack={(userId, options) => {
+            setIsHistoryOpen(false)
+            handleStartCall(userId, options)
+          }}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {/* Панель управления (во время звонка - приглашение в групповой звонок) */}
+      {(callState === 'idle' || callState === 'connected') && (
         <UserList
           users={users}
           allUsers={allUsers}
           contacts={contacts}
+          presence={presence}
           loading={loadingUsers}
           onStartCall={handleStartCall}
           onAddContact={addContactToList}
           onRemoveContact={removeContact}
+          incomingRequests={contactRequests.incoming}
+          outgoingRequests={contactRequests.outgoing}
+          onRespondToRequest={respondToRequest}
+          onCancelRequest={cancelRequest}
+          blockedUsers={blockedUsers}
+          onBlockUser={handleBlockUser}
+          onUnblockUser={handleUnblockUser}
+          onReportUser={(userId) => setReportTarget({ userId })}
+          onRenameContact={renameContact}
           onRefreshUsers={loadUsers}
           onCreateProfile={createProfile}
+          inCall={callState === 'connected'}
+          callParticipantIds={[...(currentPeerId ? [currentPeerId] : []), ...participants.map(p => p.userId)]}
+          onInviteToCall={handleInviteToCall}
+        />
+      )}
+
+      {/* Уведомление о звонке, пока мы заняты */}
+      {busyCall && (
+        <BusyCallToast
+          callerId={busyCall.userId}
+          caller={allUsers.find(u => u.id === busyCall.userId)}
+          media={busyCall.media}
+          onDismiss={dismissBusyCall}
+        />
+      )}
+
+      {/* Жалоба на пользователя */}
+      {reportTarget && (
+        <ReportUserModal
+          userName={allUsers.find(u => u.id === reportTarget.userId)?.display_name || 'пользователя'}
+          fromCall={!!reportTarget.callId}
+          onSubmit={submitReport}
+          onClose={() => setReportTarget(null)}
+        />
+      )}
+
+      {/* Готовая запись звонка */}
+      {lastRecording && currentUser && (
+        <RecordingToast
+          key={lastRecording.url}
+          recording={lastRecording}
+          currentUserId={currentUser.id}
+          peer={allUsers.find(u => u.id === lastRecording.peerUserId)}
+          onDismiss={dismissRecording}
         />
       )}
 
@@ -933,10 +1426,22 @@ export default function AudioCallPage() {
         displayName={settingsDisplayName}
         uploading={settingsUploading}
         saving={settingsSaving}
+        relayOnly={relayOnly}
+        e2eeEnabled={e2eeEnabled}
+        callPrivacy={callPrivacy}
+        audioInputId={audioDevices.inputId}
+        audioOutputId={audioDevices.outputId}
+        audioProfile={audioProfile}
         onClose={closeSettingsModal}
         onDisplayNameChange={setSettingsDisplayName}
         onAvatarSelect={() => settingsFileInputRef.current?.click()}
         onSave={saveSettingsProfile}
+        onRelayOnlyChange={changeRelayOnly}
+        onE2eeChange={changeE2eeEnabled}
+        onCallPrivacyChange={changeCallPrivacy}
+        onAudioInputChange={changeAudioInput}
+        onAudioOutputChange={changeAudioOutput}
+        onAudioProfileChange={changeAudioProfile}
       />
 
         {/* Hidden file input for avatar upload */}
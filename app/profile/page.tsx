@@ -3,7 +3,9 @@
 import { useEffect, useState, useRef } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
-import { User } from '@/lib/types'
+import { User, PresenceMode } from '@/lib/types'
+import { savePresencePreferences } from '@/lib/presence'
+import PresenceStatusPicker from '@/components/PresenceStatusPicker'
 
 export default function ProfilePage() {
   const [user, setUser] = useState<User | null>(null)
@@ -65,7 +67,9 @@ export default function ProfilePage() {
         display_name: displayNameFromAuth || profile?.display_name || '',
         avatar_url: profile?.avatar_url || '',
         created_at: profile?.created_at || authUser.created_at || new Date().toISOString(),
-        updated_at: profile?.updated_at || authUser.updated_at || new Date().toISOString()
+        updated_at: profile?.updated_at || authUser.updated_at || new Date().toISOString(),
+        presence_mode: profile?.presence_mode || 'auto',
+        status_text: profile?.status_text ?? null
       }
 
       // Если в auth.users нет метаданных, но в profiles есть - синхронизируем
@@ -247,6 +251,19 @@ export default function ProfilePage() {
     }
   }
 
+  // Статус сохраняется сразу, отдельно от остальных полей профиля
+  const savePresence = async (mode: PresenceMode, statusText: string | null) => {
+    if (!user) return
+
+    try {
+      await savePresencePreferences(user.id, mode, statusText)
+      setUser({ ...user, presence_mode: mode, status_text: statusText })
+    } catch (error) {
+      console.error('Error saving presence:', error)
+      alert('Ошибка сохранения статуса')
+    }
+  }
+
   const uploadAvatar = async (file: File) => {
     if (!user) return
 
@@ -430,6 +447,16 @@ export default function ProfilePage() {
 
           </div>
 
+          {/* Presence Section */}
+          <div className="mt-8">
+            <h2 className="text-xl font-semibold mb-4">Статус</h2>
+            <PresenceStatusPicker
+              mode={user.presence_mode || 'auto'}
+              statusText={user.status_text ?? null}
+              onSave={savePresence}
+            />
+          </div>
+
           {/* Actions */}
           <div className="mt-8 flex gap-4">
             <button
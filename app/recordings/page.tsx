@@ -0,0 +1,218 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { FiArrowLeft, FiDisc, FiDownload, FiTrash2, FiPlay, FiRefreshCw, FiVideo, FiPhone } from 'react-icons/fi'
+import { createClient } from '@/lib/supabase/client'
+import { StoredRecording, User } from '@/lib/types'
+import { fetchRecordings, getRecordingUrl, deleteRecording } from '@/lib/recordings'
+import { getRecordingExpiry, getRecordingRetentionDays } from '@/lib/recordingRetention'
+import { logger } from '@/lib/logger'
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+const formatDate = (value: string) => {
+  return new Date(value).toLocaleString('ru-RU', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} МБ` : `${Math.max(1, Math.round(bytes / 1024))} КБ`
+
+export default function RecordingsPage() {
+  const [userId, setUserId] = useState<string | null>(null)
+  const [recordings, setRecordings] = useState<StoredRecording[]>([])
+  const [peers, setPeers] = useState<Record<string, Pick<User, 'id' | 'email' | 'display_name'>>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Временные ссылки для воспроизведения (запрашиваются по нажатию "Слушать")
+  const [playUrls, setPlayUrls] = useState<Record<string, string>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const router = useRouter()
+  const [supabase] = useState(() => createClient())
+
+  const retentionDays = getRecordingRetentionDays()
+
+  const loadRecordings = useCallback(async (ownerId: string) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await fetchRecordings(ownerId)
+      setRecordings(data)
+
+      // Имена собеседников для подписей
+      const peerIds = Array.from(new Set(data.map(recording => recording.peer_id).filter((id): id is string => !!id)))
+      if (peerIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, email, display_name')
+          .in('id', peerIds)
+        setPeers(Object.fromEntries((profiles || []).map(profile => [profile.id, profile])))
+      }
+    } catch {
+      setError('Не удалось загрузить записи')
+    } finally {
+      setLoading(false)
+    }
+  }, [supabase])
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user) {
+        router.push('/login')
+        return
+      }
+      setUserId(user.id)
+      loadRecordings(user.id)
+    })
+  }, [supabase, router, loadRecordings])
+
+  const play = async (recording: StoredRecording) => {
+    try {
+      const url = await getRecordingUrl(recording)
+      setPlayUrls(urls => ({ ...urls, [recording.id]: url }))
+    } catch {
+      setError('Не удалось открыть запись')
+    }
+  }
+
+  const download = async (recording: StoredRecording) => {
+    try {
+      const fileName = `call-${recording.created_at.slice(0, 19).replace(/[:T]/g, '-')}.${recording.storage_path.split('.').pop()}`
+      const url = await getRecordingUrl(recording, fileName)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileName
+      link.click()
+    } catch {
+      setError('Не удалось скачать запись')
+    }
+  }
+
+  const remove = async (recording: StoredRecording) => {
+    if (!confirm('Удалить запись? Это действие нельзя отменить.')) return
+
+    setBusyId(recording.id)
+    try {
+      await deleteRecording(recording)
+      setRecordings(items => items.filter(item => item.id !== recording.id))
+    } catch (err) {
+      logger.warn('Recording delete failed:', err)
+      setError('Не удалось удалить запись')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const getPeerName = (peerId: string | null) => {
+    if (!peerId) return 'Собеседник'
+    const peer = peers[peerId]
+    return peer?.display_name || peer?.email?.split('@')[0] || peerId.slice(0, 8) + '...'
+  }
+
+  return (
+    <div className="min-h-screen bg-[#1A1A1D] text-white p-4 sm:p-6">
+      <div className="max-w-2xl mx-auto">
+        <Link href="/" className="inline-flex items-center gap-2 text-sm text-gray-400 hover:text-[#C3073F] transition mb-4">
+          <FiArrowLeft className="w-4 h-4" />
+          К звонкам
+        </Link>
+
+        <div className="p-4 sm:p-6 rounded-2xl bg-[#4E4E50]/10 border-2 border-[#4E4E50]/20 backdrop-blur-lg">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+              <FiDisc className="text-[#C3073F]" />
+              Записи звонков
+            </h1>
+            <button
+              onClick={() => userId && loadRecordings(userId)}
+              disabled={loading || !userId}
+              className="cursor-pointer text-gray-400 hover:text-white transition disabled:opacity-50"
+              title="Обновить"
+            >
+              <FiRefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+          <p className="text-sm text-gray-400 mb-4">
+            {retentionDays
+              ? `Записи хранятся ${retentionDays} дн. и затем удаляются автоматически.`
+              : 'Записи хранятся, пока вы их не удалите.'}
+          </p>
+
+          {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#C3073F]"></div>
+            </div>
+          ) : recordings.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-8">
+              Сохраненных записей нет. Запишите звонок и нажмите «Сохранить в облако».
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {recordings.map(recording => {
+                const expiry = getRecordingExpiry(recording.created_at)
+                return (
+                  <div key={recording.id} className="p-3 rounded-lg bg-[#4E4E50]/10 border border-[#4E4E50]/30">
+                    <div className="flex items-start gap-3">
+                      <div className="w-9 h-9 rounded-full bg-[#950740]/20 text-[#C3073F] flex items-center justify-center flex-shrink-0">
+                        {recording.calls?.media === 'video' ? <FiVideo className="w-4 h-4" /> : <FiPhone className="w-4 h-4" />}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-semibold truncate">Разговор с {getPeerName(recording.peer_id)}</p>
+                        <p className="text-xs text-gray-400">
+                          {formatDate(recording.calls?.started_at || recording.created_at)} • {formatDuration(recording.duration)} • {formatSize(recording.size_bytes)}
+                        </p>
+                        {expiry && (
+                          <p className="text-xs text-gray-500">Будет удалена {formatDate(expiry.toISOString())}</p>
+                        )}
+                      </div>
+                      <div className="flex gap-1">
+                        {!playUrls[recording.id] && (
+                          <button
+                            onClick={() => play(recording)}
+                            className="cursor-pointer p-2 rounded-lg text-gray-300 hover:text-white hover:bg-[#4E4E50]/30 transition"
+                            title="Слушать"
+                          >
+                            <FiPlay className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => download(recording)}
+                          className="cursor-pointer p-2 rounded-lg text-gray-300 hover:text-white hover:bg-[#4E4E50]/30 transition"
+                          title="Скачать"
+                        >
+                          <FiDownload className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => remove(recording)}
+                          disabled={busyId === recording.id}
+                          className="cursor-pointer p-2 rounded-lg text-gray-300 hover:text-red-400 hover:bg-[#4E4E50]/30 transition disabled:opacity-50"
+                          title="Удалить"
+                        >
+                          <FiTrash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    {playUrls[recording.id] && (
+                      <audio src={playUrls[recording.id]} controls autoPlay className="w-full h-8 mt-3" />
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { FiMic, FiVolume2, FiPlay } from 'react-icons/fi'
+import { buildAudioConstraints, listAudioDevices, supportsOutputSelection } from '@/lib/audioDevices'
+import { playTestTone } from '@/utils/callTones'
+import { logger } from '@/lib/logger'
+import { AudioProfile } from '@/lib/types'
+
+interface AudioDeviceSettingsProps {
+  inputId: string | null
+  outputId: string | null
+  profile: AudioProfile // Обработка звука в индикаторе уровня как в звонке
+  onInputChange: (deviceId: string | null) => void
+  onOutputChange: (deviceId: string | null) => void
+}
+
+export default function AudioDeviceSettings({ inputId, outputId, profile, onInputChange, onOutputChange }: AudioDeviceSettingsProps) {
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([])
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([])
+  const [level, setLevel] = useState(0)
+  const [micError, setMicError] = useState<string | null>(null)
+
+  // Список устройств обновляется при подключении/отключении
+  useEffect(() => {
+    const updateDevices = () => {
+      listAudioDevices()
+        .then(({ inputs, outputs }) => {
+          setInputs(inputs)
+          setOutputs(outputs)
+        })
+        .catch(err => logger.warn('Failed to list audio devices:', err))
+    }
+
+    updateDevices()
+    navigator.mediaDevices.addEventListener('devicechange', updateDevices)
+    return () => navigator.mediaDevices.removeEventListener('devicechange', updateDevices)
+  }, [])
+
+  // Индикатор уровня выбранного микрофона
+  useEffect(() => {
+    let stream: MediaStream | null = null
+    let audioContext: AudioContext | null = null
+    let animationFrame: number
+    let cancelled = false
+
+    const startMeter = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(inputId, profile) })
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop())
+          return
+        }
+        setMicError(null)
+
+        // Метки устройств доступны только после разрешения на микрофон
+        listAudioDevices().then(({ inputs, outputs }) => {
+          setInputs(inputs)
+          setOutputs(outputs)
+        })
+
+        audioContext = new AudioContext()
+        const analyser = audioContext.createAnalyser()
+        analyser.fftSize = 256
+        audioContext.createMediaStreamSource(stream).connect(analyser)
+        const data = new Uint8Array(analyser.frequencyBinCount)
+
+        const update = () => {
+          analyser.getByteTimeDomainData(data)
+          let peak = 0
+          data.forEach(value => {
+            peak = Math.max(peak, Math.abs(value - 128))
+          })
+          setLevel(Math.min(100, Math.round(peak / 128 * 150)))
+          animationFrame = requestAnimationFrame(update)
+        }
+        update()
+      } catch (err) {
+        logger.warn('Microphone level meter failed:', err)
+        setMicError('Нет доступа к микрофону')
+      }
+    }
+
+    startMeter()
+
+    return () => {
+      cancelled = true
+      cancelAnimationFrame(animationFrame)
+      stream?.getTracks().forEach(track => track.stop())
+      if (audioContext && audioContext.state !== 'closed') {
+        audioContext.close()
+      }
+      setLevel(0)
+    }
+  }, [inputId, profile])
+
+  const deviceLabel = (device: MediaDeviceInfo, index: number, fallback: string) =>
+    device.label || `${fallback} ${index + 1}`
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-white mb-1">
+          <FiMic className="w-4 h-4 inline mr-1" />
+          Микрофон
+        </label>
+        <select
+          value={inputId || ''}
+          onChange={(e) => onInputChange(e.target.value || null)}
+          className="w-full px-3 py-2 bg-[#4E4E50]/20 border border-[#4E4E50]/30 rounded-lg text-white text-sm focus:ring-2 focus:ring-[#950740] focus:border-[#950740] cursor-pointer"
+        >
+          <option value="" className="bg-[#1A1A1D]">По умолчанию</option>
+          {inputs.filter(device => device.deviceId !== 'default').map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId} className="bg-[#1A1A1D]">
+              {deviceLabel(device, index, 'Микрофон')}
+            </option>
+          ))}
+        </select>
+        <div className="mt-2 h-2 rounded-full bg-[#4E4E50]/30 overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-[#6F2232] to-[#C3073F] transition-[width] duration-75"
+            style={{ width: `${level}%` }}
+          />
+        </div>
+        {micError && <p className="text-red-400 text-xs mt-1">{micError}</p>}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white mb-1">
+          <FiVolume2 className="w-4 h-4 inline mr-1" />
+          Динамики
+        </label>
+        {supportsOutputSelection() ? (
+          <select
+            value={outputId || ''}
+            onChange={(e) => onOutputChange(e.target.value || null)}
+            className="w-full px-3 py-2 bg-[#4E4E50]/20 border border-[#4E4E50]/30 rounded-lg text-white text-sm focus:ring-2 focus:ring-[#950740] focus:border-[#950740] cursor-pointer"
+          >
+            <option value="" className="bg-[#1A1A1D]">По умолчанию</option>
+            {outputs.filter(device => device.deviceId !== 'default').map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId} className="bg-[#1A1A1D]">
+                {deviceLabel(device, index, 'Динамики')}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <p className="text-xs text-gray-400">Браузер не поддерживает выбор устройства вывода</p>
+        )}
+        <button
+          onClick={() => playTestTone(outputId)}
+          className="cursor-pointer mt-2 bg-[#950740]/20 hover:bg-[#950740]/30 border border-[#950740] px-3 py-1.5 rounded-lg text-xs font-medium transition flex items-center gap-1 text-white"
+        >
+          <FiPlay className="w-3 h-3" />
+          Проверить звук
+        </button>
+      </div>
+    </div>
+  )
+}
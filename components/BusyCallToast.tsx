@@ -0,0 +1,43 @@
+'use client'
+
+import { useEffect } from 'react'
+import { User, CallMediaKind } from '@/lib/types'
+import { FiPhoneIncoming, FiVideo, FiX } from 'react-icons/fi'
+
+interface BusyCallToastProps {
+  callerId: string
+  caller?: User
+  media: CallMediaKind
+  onDismiss: () => void
+}
+
+// Сколько показывать уведомление о звонке во время разговора
+const TOAST_DURATION_MS = 8000
+
+export default function BusyCallToast({ callerId, caller, media, onDismiss }: BusyCallToastProps) {
+  const name = caller?.display_name || caller?.email?.split('@')[0] || callerId.slice(0, 8) + '...'
+
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS)
+    return () => clearTimeout(timer)
+  }, [callerId, onDismiss])
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-xs w-[calc(100%-2rem)] sm:w-80 bg-[#1A1A1D]/95 backdrop-blur-md border border-[#C3073F]/60 rounded-xl shadow-xl shadow-[#C3073F]/20 p-4 flex items-start gap-3">
+      <div className="w-9 h-9 rounded-full bg-[#C3073F]/20 text-[#C3073F] flex items-center justify-center flex-shrink-0 animate-pulse">
+        {media === 'video' ? <FiVideo className="w-4 h-4" /> : <FiPhoneIncoming className="w-4 h-4" />}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-semibold truncate">{name} звонит вам</p>
+        <p className="text-xs text-gray-400">Вы заняты - звонящий услышал сигнал «занято»</p>
+      </div>
+      <button
+        onClick={onDismiss}
+        className="cursor-pointer text-gray-400 hover:text-white transition"
+        title="Закрыть"
+      >
+        <FiX className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { User, ChatMessage } from '@/lib/types'
+import { FiMessageSquare, FiSend, FiCheck, FiAlertCircle, FiChevronDown } from 'react-icons/fi'
+import { MAX_CHAT_MESSAGE_LENGTH } from '@/lib/peerData'
+
+interface CallChatProps {
+  messages: ChatMessage[]
+  currentUserId: string
+  users: User[]
+  typingUserIds: string[]
+  showSenderNames?: boolean // Групповой звонок - подписываем чужие сообщения
+  onSend: (text: string) => void
+  onTyping: (active: boolean) => void
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })
+
+// Отметка доставки: одна галочка - отправлено, две - собеседник получил
+function DeliveryTicks({ status }: { status: ChatMessage['status'] }) {
+  if (status === 'failed') {
+    return <FiAlertCircle className="w-3 h-3 text-red-400" title="Не отправлено" />
+  }
+  return (
+    <span className="inline-flex" title={status === 'delivered' ? 'Доставлено' : 'Отправлено'}>
+      <FiCheck className="w-3 h-3" />
+      {status === 'delivered' && <FiCheck className="w-3 h-3 -ml-1.5" />}
+    </span>
+  )
+}
+
+export default function CallChat({ messages, currentUserId, users, typingUserIds, showSenderNames = false, onSend, onTyping }: CallChatProps) {
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState('')
+  // Последнее сообщение, которое было видно при закрытии чата
+  const [lastSeenId, setLastSeenId] = useState<string | null>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const getName = (userId: string) => {
+    const user = users.find(u => u.id === userId)
+    return user?.display_name || user?.email?.split('@')[0] || userId.slice(0, 8) + '...'
+  }
+
+  // Открытый чат сразу считается прочитанным. В новом звонке прежнего сообщения в списке нет,
+  // поэтому непрочитанными считаются все сообщения собеседника
+  const seenIndex = messages.findIndex(message => message.id === lastSeenId)
+  const unreadCount = open ? 0 : messages.slice(seenIndex + 1).filter(message => message.from !== currentUserId).length
+
+  useEffect(() => {
+    if (open) {
+      listRef.current?.scrollTo({ top: listRef.current.scrollHeight })
+    }
+  }, [open, messages.length])
+
+  const toggleOpen = () => {
+    if (open) {
+      setLastSeenId(messages[messages.length - 1]?.id ?? null)
+    }
+    setOpen(!open)
+  }
+
+  const send = () => {
+    if (!text.trim()) return
+    onSend(text)
+    setText('')
+  }
+
+  const typingNames = typingUserIds.map(getName)
+
+  return (
+    <div className="mt-4 relative z-10">
+      <button
+        onClick={toggleOpen}
+        className="cursor-pointer mx-auto bg-[#4E4E50]/10 hover:bg-[#4E4E50]/20 border border-[#4E4E50]/30 px-3 py-1.5 rounded-lg text-xs font-medium transition flex items-center gap-2"
+      >
+        <FiMessageSquare className="w-4 h-4" />
+        Чат
+        {unreadCount > 0 && (
+          <span className="min-w-[18px] h-[18px] px-1 rounded-full bg-[#C3073F] text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+        <FiChevronDown className={`w-3 h-3 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="mt-3 rounded-xl bg-[#1A1A1D]/60 border border-[#4E4E50]/30 overflow-hidden">
+          <div ref={listRef} className="max-h-64 overflow-y-auto p-3 space-y-2">
+            {messages.length === 0 && (
+              <p className="text-xs text-gray-400 text-center py-4">Сообщений пока нет</p>
+            )}
+            {messages.map(message => {
+              const own = message.from === currentUserId
+              return (
+                <div key={message.id} className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`max-w-[80%] px-3 py-2 rounded-xl text-sm break-words ${
+                    own ? 'bg-[#950740]/40 rounded-br-sm' : 'bg-[#4E4E50]/30 rounded-bl-sm'
+                  }`}>
+                    {!own && showSenderNames && (
+                      <p className="text-[10px] text-[#C3073F] font-semibold">{getName(message.from)}</p>
+                    )}
+                    <p className="whitespace-pre-wrap">{message.text}</p>
+                    <div className="flex items-center justify-end gap-1 text-[10px] text-gray-400 mt-0.5">
+                      <span>{formatTime(message.sentAt)}</span>
+                      {own && <DeliveryTicks status={message.status} />}
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="h-5 px-3 text-[11px] text-gray-400 italic">
+            {typingNames.length > 0 && `${typingNames.join(', ')} печатает...`}
+          </div>
+
+          <div className="flex gap-2 p-2 border-t border-[#4E4E50]/30">
+            <input
+              type="text"
+              value={text}
+              maxLength={MAX_CHAT_MESSAGE_LENGTH}
+              onChange={(e) => {
+                setText(e.target.value)
+                onTyping(e.target.value.length > 0)
+              }}
+              onBlur={() => onTyping(false)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault()
+                  send()
+                }
+              }}
+              placeholder="Сообщение..."
+              className="flex-1 min-w-0 px-3 py-2 bg-[#4E4E50]/20 border border-[#4E4E50]/30 rounded-lg text-white text-sm placeholder-gray-500 focus:ring-2 focus:ring-[#950740] focus:border-[#950740] outline-none"
+            />
+            <button
+              onClick={send}
+              disabled={!text.trim()}
+              className="cursor-pointer bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-3 py-2 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Отправить"
+            >
+              <FiSend className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
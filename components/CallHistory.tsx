@@ -0,0 +1,281 @@
+'use client'
+
+import Image from 'next/image'
+import { useCallback, useEffect, useState } from 'react'
+import { User, CallRecord, CallOptions, CallTranscriptMessage } from '@/lib/types'
+import { fetchCallHistory, fetchCallTranscript } from '@/lib/callHistory'
+import { FiPhone, FiVideo, FiPhoneIncoming, FiPhoneOutgoing, FiPhoneMissed, FiRefreshCw, FiX, FiMessageSquare } from 'react-icons/fi'
+
+interface CallHistoryProps {
+  currentUserId: string
+  users: User[] // Все пользователи - для имен и аватаров собеседников
+  onCallBack: (userId: string, options?: CallOptions) => void
+  onClose: () => void
+}
+
+// Длительность разговора в формате м:сс
+const formatDuration = (record: CallRecord) => {
+  if (!record.answered_at || !record.ended_at) return null
+  const seconds = Math.max(0, Math.round((new Date(record.ended_at).getTime() - new Date(record.answered_at).getTime()) / 1000))
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+const formatDate = (value: string) => {
+  return new Date(value).toLocaleString('ru-RU', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export default function CallHistory({ currentUserId, users, onCallBack, onClose }: CallHistoryProps) {
+  const [records, setRecords] = useState<CallRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [missedOnly, setMissedOnly] = useState(false)
+  const [contactId, setContactId] = useState<string>('')
+  // Развернутая переписка звонка
+  const [transcriptCallId, setTranscriptCallId] = useState<string | null>(null)
+  const [transcript, setTranscript] = useState<CallTranscriptMessage[]>([])
+  const [transcriptLoading, setTranscriptLoading] = useState(false)
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await fetchCallHistory(currentUserId, {
+        missedOnly,
+        contactId: contactId || null,
+      })
+      setRecords(data)
+    } catch {
+      setError('Не удалось загрузить историю звонков')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentUserId, missedOnly, contactId])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  const toggleTranscript = async (callId: string) => {
+    if (transcriptCallId === callId) {
+      setTranscriptCallId(null)
+      return
+    }
+
+    setTranscriptCallId(callId)
+    setTranscript([])
+    setTranscriptLoading(true)
+    try {
+      setTranscript(await fetchCallTranscript(callId))
+    } catch {
+      setError('Не удалось загрузить переписку')
+    } finally {
+      setTranscriptLoading(false)
+    }
+  }
+
+  const getUser = (userId: string) => users.find(u => u.id === userId)
+  const getName = (userId: string) => {
+    const user = getUser(userId)
+    return user?.display_name || user?.email?.split('@')[0] || userId.slice(0, 8) + '...'
+  }
+
+  // Варианты для фильтра по собеседнику
+  const filterUsers = users.filter(u => u.id !== currentUserId)
+
+  const renderStatus = (record: CallRecord) => {
+    const outgoing = record.caller_id === currentUserId
+    const duration = formatDuration(record)
+
+    if (record.end_reason === 'missed') {
+      return (
+        <span className="flex items-center gap-1 text-[#C3073F]">
+          <FiPhoneMissed className="w-3 h-3" />
+          {outgoing ? 'Без ответа' : 'Пропущенный'}
+        </span>
+      )
+    }
+
+    if (record.end_reason === 'rejected') {
+      return (
+        <span className="flex items-center gap-1 text-gray-400">
+          <FiPhoneMissed className="w-3 h-3" />
+          Отклонен
+        </span>
+      )
+    }
+
+    if (record.end_reason === 'busy') {
+      return (
+        <span className="flex items-center gap-1 text-gray-400">
+          <FiPhoneMissed className="w-3 h-3" />
+          Занято
+        </span>
+      )
+    }
+
+    if (record.end_reason === 'failed') {
+      return (
+        <span className="flex items-center gap-1 text-gray-400">
+          <FiPhoneMissed className="w-3 h-3" />
+          Ошибка
+        </span>
+      )
+    }
+
+    return (
+      <span className="flex items-center gap-1 text-gray-400">
+        {outgoing ? <FiPhoneOutgoing className="w-3 h-3" /> : <FiPhoneIncoming className="w-3 h-3" />}
+        {outgoing ? 'Исходящий' : 'Входящий'}
+        {duration && ` · ${duration}`}
+      </span>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto mb-8">
+      <div className="bg-[#4E4E50]/5 backdrop-blur-xl rounded-2xl p-4 sm:p-6 md:p-8 border border-[#4E4E50]/20">
+        <div className="flex items-center justify-between mb-4 sm:mb-6">
+          <h2 className="text-xl sm:text-2xl font-bold">История звонков</h2>
+          <div className="flex gap-2">
+            <button
+              onClick={loadHistory}
+              className="cursor-pointer p-2 text-gray-400 hover:text-white transition"
+              title="Обновить"
+            >
+              <FiRefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+            <button
+              onClick={onClose}
+              className="cursor-pointer p-2 text-gray-400 hover:text-white transition"
+              title="Закрыть"
+            >
+              <FiX className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Фильтры */}
+        <div className="flex flex-col sm:flex-row gap-2 sm:gap-4 mb-4">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={missedOnly}
+              onChange={(e) => setMissedOnly(e.target.checked)}
+              className="accent-[#C3073F]"
+            />
+            Только пропущенные
+          </label>
+          <select
+            value={contactId}
+            onChange={(e) => setContactId(e.target.value)}
+            className="bg-[#1A1A1D] border border-[#4E4E50]/30 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-[#950740]"
+          >
+            <option value="">Все собеседники</option>
+            {filterUsers.map(user => (
+              <option key={user.id} value={user.id}>{getName(user.id)}</option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <p className="text-sm text-[#C3073F] mb-4">{error}</p>
+        )}
+
+        {loading && records.length === 0 ? (
+          <div className="flex items-center justify-center py-8 gap-3 text-gray-400">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#950740]"></div>
+            <span>Загрузка истории...</span>
+          </div>
+        ) : records.length === 0 ? (
+          <p className="text-center text-gray-400 py-8">Звонков пока нет</p>
+        ) : (
+          <div className="space-y-2">
+            {records.map(record => {
+              const peerId = record.caller_id === currentUserId ? record.callee_id : record.caller_id
+              const user = getUser(peerId)
+              const name = getName(peerId)
+              const messageCount = record.call_messages?.[0]?.count || 0
+
+              return (
+                <div key={record.id} className="bg-[#1A1A1D]/50 rounded-lg border border-[#4E4E50]/20">
+                  <div className="flex items-center gap-3 p-3">
+                    <div className="w-10 h-10 rounded-full overflow-hidden flex-shrink-0 bg-gradient-to-br from-[#6F2232] to-[#950740] flex items-center justify-center">
+                      {user?.avatar_url ? (
+                        <Image
+                          src={user.avatar_url}
+                          alt="User avatar"
+                          width={40}
+                          height={40}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <span className="text-white">{name.charAt(0).toUpperCase()}</span>
+                      )}
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-sm truncate flex items-center gap-1">
+                        {record.media === 'video' && <FiVideo className="w-3 h-3 text-gray-400" />}
+                        {name}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-x-2 text-xs">
+                        {renderStatus(record)}
+                        <span className="text-gray-500">{formatDate(record.started_at)}</span>
+                      </div>
+                    </div>
+
+                    {messageCount > 0 && (
+                      <button
+                        onClick={() => toggleTranscript(record.id)}
+                        className={`cursor-pointer p-2 rounded transition flex items-center gap-1 text-xs ${
+                          transcriptCallId === record.id ? 'text-white bg-[#4E4E50]/30' : 'text-gray-400 hover:text-white'
+                        }`}
+                        title="Переписка"
+                      >
+                        <FiMessageSquare className="w-3 h-3" />
+                        {messageCount}
+                      </button>
+                    )}
+
+                    {/* Перезвонить тем же типом звонка */}
+                    <button
+                      onClick={() => onCallBack(peerId, { video: record.media === 'video' })}
+                      className="cursor-pointer bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-3 py-1.5 rounded text-xs font-medium transition flex items-center gap-1 shadow-md shadow-[#6F2232]/30"
+                      title="Перезвонить"
+                    >
+                      {record.media === 'video' ? <FiVideo className="w-3 h-3" /> : <FiPhone className="w-3 h-3" />}
+                      <span className="hidden sm:inline">Перезвонить</span>
+                    </button>
+                  </div>
+
+                  {/* Переписка в чате звонка */}
+                  {transcriptCallId === record.id && (
+                    <div className="px-3 pb-3 space-y-1 text-xs">
+                      {transcriptLoading ? (
+                        <p className="text-gray-400">Загрузка...</p>
+                      ) : transcript.map(message => (
+                        <p key={message.id} className="break-words">
+                          <span className="text-gray-500">{new Date(message.sent_at).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })} </span>
+                          <span className={message.sender_id === currentUserId ? 'text-[#C3073F]' : 'text-gray-300'}>
+                            {message.sender_id === currentUserId ? 'Вы' : getName(message.sender_id)}:
+                          </span>{' '}
+                          <span className="text-white whitespace-pre-wrap">{message.body}</span>
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
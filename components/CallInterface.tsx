@@ -2,10 +2,17 @@
 
 import Image from 'next/image'
 import { useRef, useState, useEffect } from 'react'
-import { User, CallState } from '@/lib/types'
-import { FiPhone, FiPhoneIncoming, FiPhoneCall, FiMicOff } from 'react-icons/fi'
-import { MdCallEnd } from 'react-icons/md'
+import { User, CallState, CallMediaKind, CallParticipant, WaitingCallInfo, CallQualityStats, AudioProfile, RecordingState, ChatMessage, FileTransfer, E2eeStatus } from '@/lib/types'
+import { FiPhone, FiPhoneIncoming, FiPhoneCall, FiPhoneMissed, FiMicOff, FiVideo, FiVideoOff, FiMonitor, FiPause, FiRepeat, FiAlertTriangle, FiSlash, FiFlag } from 'react-icons/fi'
+import { MdCallEnd, MdFiberManualRecord, MdStop } from 'react-icons/md'
 import { AiOutlineCheck } from 'react-icons/ai'
+import VideoTile from '@/components/VideoTile'
+import ParticipantTile from '@/components/ParticipantTile'
+import CallQualityIndicator from '@/components/CallQualityIndicator'
+import E2eeIndicator from '@/components/E2eeIndicator'
+import CallChat from '@/components/CallChat'
+import FileTransferPanel from '@/components/FileTransferPanel'
+import { AUDIO_PROFILES } from '@/lib/audioProfiles'
 
 interface CallInterfaceProps {
   callState: CallState
@@ -18,10 +25,47 @@ interface CallInterfaceProps {
   isMuted: boolean
   remoteMuted?: boolean // Статус микрофона собеседника
   remoteVoiceActivity?: boolean // Голосовая активность собеседника
-  onAcceptCall: () => void
+  incomingCallMedia?: CallMediaKind // Тип входящего звонка (до принятия)
+  localStream?: MediaStream | null
+  remoteStream?: MediaStream | null
+  isVideoEnabled?: boolean // Включена ли наша камера
+  remoteVideoEnabled?: boolean // Включена ли камера собеседника
+  isScreenSharing?: boolean // Идет ли наша демонстрация экрана
+  remoteScreenStream?: MediaStream | null // Демонстрация экрана собеседника
+  participants?: CallParticipant[] // Дополнительные участники группового звонка
+  callNotice?: string | null // Итог последней попытки звонка (например, "Нет ответа")
+  waitingCall?: WaitingCallInfo | null // Второй входящий звонок во время разговора
+  heldCall?: WaitingCallInfo | null // Звонок на удержании
+  remoteOnHold?: boolean // Собеседник поставил нас на удержание
+  callQuality?: CallQualityStats | null // Качество связи по статистике соединения
+  audioOutputId?: string | null // Выбранное устройство вывода звука
+  audioProfile?: AudioProfile // Профиль звука текущего звонка
+  recordingState?: RecordingState // Наша запись звонка
+  remoteRecording?: boolean // Собеседник записывает звонок
+  recordingRequestFrom?: string | null // Собеседник просит согласия на запись
+  chatMessages?: ChatMessage[] // Переписка в чате звонка
+  typingUserIds?: string[] // Кто из собеседников сейчас печатает
+  fileTransfers?: FileTransfer[] // Передача файлов в текущем звонке
+  e2eeStatus?: E2eeStatus | null // Сквозное шифрование текущего звонка (null - не используется)
+  onAcceptCall: (withVideo?: boolean) => void
   onRejectCall: () => void
   onEndCall: () => void
   onToggleMute: () => void
+  onToggleVideo?: () => void
+  onToggleScreenShare?: () => void
+  onHoldAndAnswer?: () => void
+  onRejectWaiting?: () => void
+  onSwapCalls?: () => void
+  onToggleRecording?: () => void
+  onRecordingConsent?: (accepted: boolean) => void
+  onSendChatMessage?: (text: string) => void
+  onChatTyping?: (active: boolean) => void
+  onSendFile?: (file: File) => void
+  onAcceptFile?: (id: string) => void
+  onDeclineFile?: (id: string) => void
+  onCancelFile?: (id: string) => void
+  onBlockCaller?: () => void // Заблокировать звонящего (звонок отклоняется)
+  onReportCaller?: () => void
 }
 
 export default function CallInterface({
@@ -35,10 +79,47 @@ export default function CallInterface({
   isMuted,
   remoteMuted = false,
   remoteVoiceActivity = false,
+  incomingCallMedia = 'audio',
+  localStream = null,
+  remoteStream = null,
+  isVideoEnabled = false,
+  remoteVideoEnabled = false,
+  isScreenSharing = false,
+  remoteScreenStream = null,
+  participants = [],
+  callNotice = null,
+  waitingCall = null,
+  heldCall = null,
+  remoteOnHold = false,
+  callQuality = null,
+  audioOutputId = null,
+  audioProfile = 'voice',
+  recordingState = 'idle',
+  remoteRecording = false,
+  recordingRequestFrom = null,
+  chatMessages = [],
+  typingUserIds = [],
+  fileTransfers = [],
+  e2eeStatus = null,
   onAcceptCall,
   onRejectCall,
   onEndCall,
-  onToggleMute
+  onToggleMute,
+  onToggleVideo,
+  onToggleScreenShare,
+  onHoldAndAnswer,
+  onRejectWaiting,
+  onSwapCalls,
+  onToggleRecording,
+  onRecordingConsent,
+  onSendChatMessage,
+  onChatTyping,
+  onSendFile,
+  onAcceptFile,
+  onDeclineFile,
+  onCancelFile,
+  onBlockCaller,
+  onReportCaller
 }: CallInterfaceProps) {
   const [callDuration, setCallDuration] = useState(0)
   const [showRealContent, setShowRealContent] = useState(false)
@@ -50,7 +131,11 @@ export default function CallInterface({
   // Приоритет: currentPeerId (сохраненный), затем targetUserId, затем incomingCallerId
   const peerUserId = currentPeerId || targetUserId || incomingCallerId
   const currentPeerUser = users.find(u => u.id === peerUserId)
+  const waitingUser = users.find(u => u.id === waitingCall?.userId)
+  const heldUser = users.find(u => u.id === heldCall?.userId)
 
+  // Видео-плитки показываем, если камера включена хотя бы у одной стороны
+  const showVideo = (callState === 'calling' || callState === 'connected') && (isVideoEnabled || remoteVideoEnabled)
 
   // Таймер звонка
   useEffect(() => {
@@ -110,12 +195,22 @@ export default function CallInterface({
       }`}>
         {/* Статус звонка */}
         <div className={`transition-all duration-300 ${callState === 'receiving' ? 'animate-pulse' : ''}`}>
+          {callState === 'idle' && callNotice && (
+            <div className="text-center mb-2">
+              <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-[#4E4E50]/20 text-gray-300 border-2 border-[#4E4E50]/40">
+                <FiPhoneMissed className="w-4 h-4" />
+                <span>{callNotice}</span>
+              </div>
+            </div>
+          )}
           {callState !== 'idle' && (
             <div className="text-center mb-2">
               {callState === 'receiving' && (
                 <div className="flex flex-col items-center gap-2 px-4 py-3 rounded-full text-sm font-semibold bg-[#C3073F]/20 text-[#C3073F] border-2 border-[#C3073F]/40">
                   <FiPhoneIncoming className="w-5 h-5" />
-                  <span>Входящий звонок от {callerUser?.display_name || callerUser?.email?.split('@')[0] || 'Неизвестного'}</span>
+                  <span>
+                    {incomingCallMedia === 'video' ? 'Входящий видеозвонок' : 'Входящий звонок'} от {callerUser?.display_name || callerUser?.email?.split('@')[0] || 'Неизвестного'}
+                  </span>
                 </div>
               )}
               {callState !== 'connected' && callState !== 'receiving' && (
@@ -132,15 +227,151 @@ export default function CallInterface({
             {callState === 'connected' && (
               <div className="flex flex-col items-center gap-1">
                 <div className="flex flex-col items-center gap-2 px-4 py-3 rounded-full text-sm font-semibold bg-[#6F2232]/20 text-[#6F2232] border-2 border-[#6F2232]/40">
-                  <AiOutlineCheck className="w-5 h-5" />
-                  <span>На связи</span>
+                  {remoteOnHold ? <FiPause className="w-5 h-5" /> : <AiOutlineCheck className="w-5 h-5" />}
+                  <span>{remoteOnHold ? 'Собеседник поставил вас на удержание' : 'На связи'}</span>
                 </div>
+                <span className="text-xs text-gray-400" title={AUDIO_PROFILES[audioProfile].description}>
+                  Профиль звука: {AUDIO_PROFILES[audioProfile].label}
+                </span>
+                {(recordingState === 'recording' || remoteRecording) && (
+                  <div className="flex items-center gap-1 text-xs text-red-500">
+                    <MdFiberManualRecord className="w-3 h-3 animate-pulse" />
+                    <span>
+                      {recordingState === 'recording' && remoteRecording ? 'Звонок записывают обе стороны' :
+                        recordingState === 'recording' ? 'Идет запись звонка' : 'Собеседник записывает звонок'}
+                    </span>
+                  </div>
+                )}
+                {recordingState === 'requesting' && (
+                  <span className="text-xs text-gray-400">Ждем согласия собеседника на запись...</span>
+                )}
+                {e2eeStatus && <E2eeIndicator status={e2eeStatus} />}
+                {callQuality && <CallQualityIndicator stats={callQuality} />}
+                {callQuality?.degraded && (
+                  <div className="flex items-center gap-2 text-xs text-yellow-500">
+                    <FiAlertTriangle className="w-3 h-3" />
+                    <span>Связь ухудшилась: возможны задержки и прерывания звука</span>
+                  </div>
+                )}
               </div>
             )}
           </div>
         )}
         </div>
 
+        {/* Демонстрация экрана собеседника */}
+        {callState === 'connected' && remoteScreenStream && (
+          <div className="mb-4 relative z-10">
+            <VideoTile
+              stream={remoteScreenStream}
+              label={`Экран: ${currentPeerUser?.display_name || currentPeerUser?.email?.split('@')[0] || 'собеседник'}`}
+              contain
+              className="aspect-video bg-black"
+            />
+          </div>
+        )}
+
+        {/* Индикатор нашей демонстрации экрана */}
+        {callState === 'connected' && isScreenSharing && (
+          <div className="mb-4 flex items-center justify-center gap-2 text-xs sm:text-sm text-[#C3073F] relative z-10">
+            <FiMonitor className="w-4 h-4 animate-pulse" />
+            <span>Вы демонстрируете экран</span>
+          </div>
+        )}
+
+        {/* Второй входящий звонок */}
+        {callState === 'connected' && waitingCall && (
+          <div className="mb-4 p-3 rounded-xl bg-[#C3073F]/10 border border-[#C3073F]/40 flex flex-col sm:flex-row items-center gap-3 relative z-10">
+            <div className="flex items-center gap-2 flex-1 min-w-0 text-sm">
+              <FiPhoneIncoming className="w-4 h-4 text-[#C3073F] animate-pulse flex-shrink-0" />
+              <span className="truncate">
+                {waitingCall.media === 'video' ? 'Видеозвонок' : 'Звонок'} от {waitingUser?.display_name || waitingUser?.email?.split('@')[0] || 'Неизвестного'}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={onHoldAndAnswer}
+                className="cursor-pointer bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-3 py-1.5 rounded-lg text-xs font-medium transition flex items-center gap-1"
+              >
+                <FiPause className="w-3 h-3" />
+                Удержать и ответить
+              </button>
+              <button
+                onClick={onRejectWaiting}
+                className="cursor-pointer bg-[#4E4E50]/30 hover:bg-[#4E4E50]/50 border border-[#4E4E50]/50 px-3 py-1.5 rounded-lg text-xs font-medium transition flex items-center gap-1"
+              >
+                <MdCallEnd className="w-3 h-3" />
+                Отклонить
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Запрос согласия на запись */}
+        {callState === 'connected' && recordingRequestFrom && (
+          <div className="mb-4 p-3 rounded-xl bg-red-500/10 border border-red-500/40 flex flex-col sm:flex-row items-center gap-3 relative z-10">
+            <div className="flex items-center gap-2 flex-1 min-w-0 text-sm">
+              <MdFiberManualRecord className="w-4 h-4 text-red-500 animate-pulse flex-shrink-0" />
+              <span>
+                {currentPeerUser?.display_name || currentPeerUser?.email?.split('@')[0] || 'Собеседник'} хочет записать звонок
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onRecordingConsent?.(true)}
+                className="cursor-pointer bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-3 py-1.5 rounded-lg text-xs font-medium transition flex items-center gap-1"
+              >
+                <AiOutlineCheck className="w-3 h-3" />
+                Разрешить
+              </button>
+              <button
+                onClick={() => onRecordingConsent?.(false)}
+                className="cursor-pointer bg-[#4E4E50]/30 hover:bg-[#4E4E50]/50 border border-[#4E4E50]/50 px-3 py-1.5 rounded-lg text-xs font-medium transition"
+              >
+                Запретить
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Звонок на удержании */}
+        {callState === 'connected' && heldCall && (
+          <div className="mb-4 p-3 rounded-xl bg-[#4E4E50]/10 border border-[#4E4E50]/40 flex items-center gap-3 relative z-10">
+            <FiPause className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <span className="flex-1 min-w-0 truncate text-sm text-gray-300">
+              На удержании: {heldUser?.display_name || heldUser?.email?.split('@')[0] || 'собеседник'}
+            </span>
+            <button
+              onClick={onSwapCalls}
+              className="cursor-pointer bg-[#950740]/20 hover:bg-[#950740]/30 border border-[#950740] px-3 py-1.5 rounded-lg text-xs font-medium transition flex items-center gap-1"
+            >
+              <FiRepeat className="w-3 h-3" />
+              Переключиться
+            </button>
+          </div>
+        )}
+
+        {/* Видео-плитки */}
+        {showVideo && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4 relative z-10">
+            {callState === 'connected' && remoteVideoEnabled && (
+              <VideoTile
+                stream={remoteStream}
+                label={currentPeerUser?.display_name || currentPeerUser?.email?.split('@')[0] || 'Собеседник'}
+                className="aspect-video"
+              />
+            )}
+            {isVideoEnabled && (
+              <VideoTile
+                stream={localStream}
+                label="Вы"
+                mirrored
+                className="aspect-video"
+              />
+            )}
+          </div>
+        )}
+
         <div className="flex flex-col sm:flex-row items-center justify-center gap-4 sm:gap-6 relative z-10">
           {/* Левая сторона - пользователь */}
           {currentUser && showRealContent ? (
@@ -414,18 +645,71 @@ export default function CallInterface({
           </div>
         </div>
 
+        {/* Сетка участников группового звонка */}
+        {callState === 'connected' && participants.length > 0 && (
+          <div className="mt-4 sm:mt-6 relative z-10">
+            <p className="text-xs sm:text-sm text-gray-400 text-center mb-3">
+              Групповой звонок · {participants.length + 2} участника(ов)
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {participants.map(participant => (
+                <ParticipantTile
+                  key={participant.userId}
+                  participant={participant}
+                  user={users.find(u => u.id === participant.userId)}
+                  audioOutputId={audioOutputId}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Чат звонка */}
+        {callState === 'connected' && currentUser && onSendChatMessage && (
+          <CallChat
+            messages={chatMessages}
+            currentUserId={currentUser.id}
+            users={users}
+            typingUserIds={typingUserIds}
+            showSenderNames={participants.length > 0}
+            onSend={onSendChatMessage}
+            onTyping={(active) => onChatTyping?.(active)}
+          />
+        )}
+
+        {/* Файлы - только в разговоре один на один */}
+        {callState === 'connected' && onSendFile && participants.length === 0 && (
+          <FileTransferPanel
+            transfers={fileTransfers}
+            peerName={currentPeerUser?.display_name || currentPeerUser?.email?.split('@')[0] || 'собеседника'}
+            onSendFile={onSendFile}
+            onAccept={(id) => onAcceptFile?.(id)}
+            onDecline={(id) => onDeclineFile?.(id)}
+            onCancel={(id) => onCancelFile?.(id)}
+          />
+        )}
+
         {/* Кнопки управления - только для активных звонков */}
         {callState !== 'idle' && (
           <div className="mt-4 sm:mt-6 flex flex-col sm:flex-row justify-center gap-3 sm:gap-4">
             {callState === 'receiving' && (
               <>
                   <button
-                    onClick={onAcceptCall}
+                    onClick={() => onAcceptCall(incomingCallMedia === 'video')}
                     className="cursor-pointer bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-4 sm:px-6 py-2 sm:py-3 rounded-xl font-semibold transition flex items-center justify-center gap-2 shadow-lg shadow-[#6F2232]/50 text-sm sm:text-base"
                   >
-                  <FiPhone className="w-4 h-4 sm:w-5 sm:h-5" />
+                  {incomingCallMedia === 'video' ? <FiVideo className="w-4 h-4 sm:w-5 sm:h-5" /> : <FiPhone className="w-4 h-4 sm:w-5 sm:h-5" />}
                   Ответить
                 </button>
+                {incomingCallMedia === 'video' && (
+                  <button
+                    onClick={() => onAcceptCall(false)}
+                    className="cursor-pointer bg-[#4E4E50]/10 hover:bg-[#4E4E50]/20 border-2 border-[#4E4E50]/30 px-4 sm:px-6 py-2 sm:py-3 rounded-xl font-semibold transition flex items-center justify-center gap-2 backdrop-blur-lg text-sm sm:text-base"
+                  >
+                    <FiPhone className="w-4 h-4 sm:w-5 sm:h-5" />
+                    Без видео
+                  </button>
+                )}
                   <button
                     onClick={onRejectCall}
                     className="cursor-pointer bg-gradient-to-r from-[#4E4E50] to-[#6F2232] hover:from-[#6F2232] hover:to-[#950740] px-4 sm:px-6 py-2 sm:py-3 rounded-xl font-semibold transition flex items-center justify-center gap-2 shadow-lg shadow-[#4E4E50]/50 text-sm sm:text-base"
@@ -450,6 +734,51 @@ export default function CallInterface({
                   {isMuted && <FiMicOff className="text-lg sm:text-xl text-red-500 ml-1" />}
                 </button>
 
+                {onToggleVideo && (
+                  <button
+                    onClick={onToggleVideo}
+                    className={`cursor-pointer ${
+                      isVideoEnabled
+                        ? 'bg-[#4E4E50]/10 hover:bg-[#4E4E50]/20 border-[#4E4E50]/30'
+                        : 'bg-[#950740]/20 hover:bg-[#950740]/30 border-[#950740]'
+                    } border-2 px-4 sm:px-6 py-2 sm:py-3 rounded-xl font-semibold transition flex items-center justify-center gap-2 backdrop-blur-lg text-sm sm:text-base`}
+                  >
+                    {isVideoEnabled ? <FiVideo className="w-4 h-4 sm:w-5 sm:h-5" /> : <FiVideoOff className="w-4 h-4 sm:w-5 sm:h-5" />}
+                    {isVideoEnabled ? 'Камера' : 'Камера выкл.'}
+                  </button>
+                )}
+
+                {callState === 'connected' && onToggleScreenShare && (
+                  <button
+                    onClick={onToggleScreenShare}
+                    className={`cursor-pointer ${
+                      isScreenSharing
+                        ? 'bg-[#950740]/20 hover:bg-[#950740]/30 border-[#950740]'
+                        : 'bg-[#4E4E50]/10 hover:bg-[#4E4E50]/20 border-[#4E4E50]/30'
+                    } border-2 px-4 sm:px-6 py-2 sm:py-3 rounded-xl font-semibold transition flex items-center justify-center gap-2 backdrop-blur-lg text-sm sm:text-base`}
+                  >
+                    <FiMonitor className="w-4 h-4 sm:w-5 sm:h-5" />
+                    {isScreenSharing ? 'Остановить показ' : 'Показать экран'}
+                  </button>
+                )}
+
+                {callState === 'connected' && onToggleRecording && participants.length === 0 && (
+                  <button
+                    onClick={onToggleRecording}
+                    className={`cursor-pointer ${
+                      recordingState !== 'idle'
+                        ? 'bg-[#950740]/20 hover:bg-[#950740]/30 border-[#950740]'
+                        : 'bg-[#4E4E50]/10 hover:bg-[#4E4E50]/20 border-[#4E4E50]/30'
+                    } border-2 px-4 sm:px-6 py-2 sm:py-3 rounded-xl font-semibold transition flex items-center justify-center gap-2 backdrop-blur-lg text-sm sm:text-base`}
+                  >
+                    {recordingState !== 'idle'
+                      ? <MdStop className="w-4 h-4 sm:w-5 sm:h-5" />
+                      : <MdFiberManualRecord className="w-4 h-4 sm:w-5 sm:h-5 text-red-500" />}
+                    {recordingState === 'recording' ? 'Остановить запись' :
+                      recordingState === 'requesting' ? 'Отменить запись' : 'Записать'}
+                  </button>
+                )}
+
                   <button
                     onClick={onEndCall}
                     className="cursor-pointer bg-gradient-to-r from-[#4E4E50] to-[#6F2232] hover:from-[#6F2232] hover:to-[#950740] px-4 sm:px-6 py-2 sm:py-3 rounded-xl font-semibold transition flex items-center justify-center gap-2 shadow-lg shadow-[#4E4E50]/50 text-sm sm:text-base"
@@ -461,6 +790,30 @@ export default function CallInterface({
             )}
           </div>
         )}
+
+        {/* Блокировка и жалоба на звонящего - на экране входящего звонка */}
+        {callState === 'receiving' && (onBlockCaller || onReportCaller) && (
+          <div className="mt-3 flex justify-center gap-4 text-xs">
+            {onBlockCaller && (
+              <button
+                onClick={onBlockCaller}
+                className="cursor-pointer text-gray-400 hover:text-gray-300 transition flex items-center gap-1"
+              >
+                <FiSlash className="w-3 h-3" />
+                Заблокировать
+              </button>
+            )}
+            {onReportCaller && (
+              <button
+                onClick={onReportCaller}
+                className="cursor-pointer text-gray-400 hover:text-[#C3073F] transition flex items-center gap-1"
+              >
+                <FiFlag className="w-3 h-3" />
+                Пожаловаться
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
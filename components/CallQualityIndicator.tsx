@@ -0,0 +1,74 @@
+'use client'
+
+import { useState } from 'react'
+import { CallQualityStats, CallQualityLevel } from '@/lib/types'
+import { FiChevronDown, FiChevronUp } from 'react-icons/fi'
+
+interface CallQualityIndicatorProps {
+  stats: CallQualityStats
+}
+
+const LEVEL_LABELS: Record<CallQualityLevel, string> = {
+  excellent: 'Отличная связь',
+  good: 'Хорошая связь',
+  fair: 'Средняя связь',
+  poor: 'Плохая связь',
+}
+
+const CANDIDATE_LABELS: Record<RTCIceCandidateType, string> = {
+  host: 'Напрямую (локальная сеть)',
+  srflx: 'Напрямую (через NAT)',
+  prflx: 'Напрямую (через NAT)',
+  relay: 'Через TURN сервер',
+}
+
+const formatMs = (value: number | null) => value === null ? '—' : `${Math.round(value)} мс`
+
+export default function CallQualityIndicator({ stats }: CallQualityIndicatorProps) {
+  const [showDetails, setShowDetails] = useState(false)
+
+  const barColor = stats.level === 'poor' ? 'bg-red-500' :
+    stats.level === 'fair' ? 'bg-yellow-500' : 'bg-[#C3073F]'
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <button
+        onClick={() => setShowDetails(!showDetails)}
+        className="cursor-pointer flex items-center gap-2 text-xs text-gray-400 hover:text-white transition"
+        title="Качество связи"
+      >
+        {/* Индикатор из 4 полосок */}
+        <div className="flex items-end gap-0.5 h-4">
+          {[1, 2, 3, 4].map(bar => (
+            <div
+              key={bar}
+              className={`w-1 rounded-sm ${bar <= stats.bars ? barColor : 'bg-[#4E4E50]/50'}`}
+              style={{ height: `${bar * 25}%` }}
+            />
+          ))}
+        </div>
+        <span>{LEVEL_LABELS[stats.level]}</span>
+        {showDetails ? <FiChevronUp className="w-3 h-3" /> : <FiChevronDown className="w-3 h-3" />}
+      </button>
+
+      {showDetails && (
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 px-3 py-2 rounded-lg bg-[#1A1A1D]/80 border border-[#4E4E50]/30 text-xs text-gray-300 font-normal">
+          <span className="text-gray-500">MOS</span>
+          <span>{stats.mos.toFixed(1)}</span>
+          <span className="text-gray-500">Задержка (RTT)</span>
+          <span>{formatMs(stats.rtt)}</span>
+          <span className="text-gray-500">Джиттер</span>
+          <span>{formatMs(stats.jitter)}</span>
+          <span className="text-gray-500">Потери пакетов</span>
+          <span>{stats.packetLoss}%</span>
+          <span className="text-gray-500">Входящий поток</span>
+          <span>{stats.inboundBitrate} кбит/с</span>
+          <span className="text-gray-500">Исходящий поток</span>
+          <span>{stats.outboundBitrate} кбит/с</span>
+          <span className="text-gray-500">Соединение</span>
+          <span>{stats.candidateType ? CANDIDATE_LABELS[stats.candidateType] : '—'}</span>
+        </div>
+      )}
+    </div>
+  )
+}
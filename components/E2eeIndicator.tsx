@@ -0,0 +1,58 @@
+'use client'
+
+import { useState } from 'react'
+import { E2eeStatus } from '@/lib/types'
+import { FiLock, FiUnlock, FiChevronDown } from 'react-icons/fi'
+
+interface E2eeIndicatorProps {
+  status: E2eeStatus
+}
+
+// Статус сквозного шифрования и код проверки: если у собеседника те же эмодзи, ключи не подменены
+export default function E2eeIndicator({ status }: E2eeIndicatorProps) {
+  const [showCode, setShowCode] = useState(true)
+
+  if (status.state === 'unavailable') {
+    return (
+      <div className="flex items-center gap-1 text-xs text-yellow-500">
+        <FiUnlock className="w-3 h-3" />
+        <span>Собеседник не поддерживает сквозное шифрование</span>
+      </div>
+    )
+  }
+
+  if (status.state === 'negotiating' || !status.sas) {
+    return (
+      <div className="flex items-center gap-1 text-xs text-gray-400">
+        <FiLock className="w-3 h-3 animate-pulse" />
+        <span>Устанавливается сквозное шифрование...</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <button
+        onClick={() => setShowCode(!showCode)}
+        className="cursor-pointer flex items-center gap-1 text-xs text-green-500 hover:text-green-400 transition"
+      >
+        <FiLock className="w-3 h-3" />
+        <span>Сквозное шифрование</span>
+        <FiChevronDown className={`w-3 h-3 transition-transform ${showCode ? 'rotate-180' : ''}`} />
+      </button>
+      {showCode && (
+        <div className="px-3 py-2 rounded-xl bg-[#1A1A1D]/60 border border-[#4E4E50]/30 text-center">
+          <div className="flex justify-center gap-3">
+            {status.sas.map((symbol, index) => (
+              <div key={index} className="flex flex-col items-center w-14">
+                <span className="text-2xl leading-none">{symbol.emoji}</span>
+                <span className="text-[10px] text-gray-300 mt-1">{symbol.word}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-[11px] text-gray-400 mt-2">Сверьте код с собеседником: у вас должны быть одинаковые символы</p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+'use client'
+
+import { useRef } from 'react'
+import { FileTransfer } from '@/lib/types'
+import { FiPaperclip, FiFile, FiDownload, FiX, FiCheck, FiAlertCircle } from 'react-icons/fi'
+
+interface FileTransferPanelProps {
+  transfers: FileTransfer[]
+  peerName: string
+  onSendFile: (file: File) => void
+  onAccept: (id: string) => void
+  onDecline: (id: string) => void
+  onCancel: (id: string) => void
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} МБ` : `${Math.max(1, Math.round(bytes / 1024))} КБ`
+
+const STATUS_LABELS: Record<FileTransfer['status'], string> = {
+  offered: 'Ожидает ответа',
+  transferring: 'Передача',
+  paused: 'Переподключение...',
+  verifying: 'Проверка целостности...',
+  completed: 'Готово',
+  declined: 'Отклонено',
+  cancelled: 'Отменено',
+  failed: 'Ошибка',
+}
+
+// Файлы текущего звонка: предложения собеседника, прогресс передачи и скачивание полученного
+export default function FileTransferPanel({ transfers, peerName, onSendFile, onAccept, onDecline, onCancel }: FileTransferPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  return (
+    <div className="mt-4 relative z-10">
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) onSendFile(file)
+          e.target.value = ''
+        }}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="cursor-pointer mx-auto bg-[#4E4E50]/10 hover:bg-[#4E4E50]/20 border border-[#4E4E50]/30 px-3 py-1.5 rounded-lg text-xs font-medium transition flex items-center gap-2"
+      >
+        <FiPaperclip className="w-4 h-4" />
+        Отправить файл
+      </button>
+
+      {transfers.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {transfers.map(transfer => {
+            const incoming = transfer.direction === 'incoming'
+            const active = transfer.status === 'transferring' || transfer.status === 'paused' || transfer.status === 'verifying'
+            const progress = transfer.size > 0 ? Math.round(transfer.transferred / transfer.size * 100) : 0
+
+            return (
+              <div key={transfer.id} className="p-3 rounded-xl bg-[#1A1A1D]/60 border border-[#4E4E50]/30">
+                <div className="flex items-start gap-3">
+                  <div className="w-8 h-8 rounded-full bg-[#950740]/20 text-[#C3073F] flex items-center justify-center flex-shrink-0">
+                    <FiFile className="w-4 h-4" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold truncate">{transfer.name}</p>
+                    <p className="text-xs text-gray-400">
+                      {incoming ? `От ${peerName}` : `Для ${peerName}`} • {formatSize(transfer.size)} • {transfer.error || STATUS_LABELS[transfer.status]}
+                      {transfer.status === 'transferring' && ` ${progress}%`}
+                    </p>
+                  </div>
+                  {transfer.status === 'completed' && (incoming && transfer.url ? (
+                    <a
+                      href={transfer.url}
+                      download={transfer.name}
+                      className="cursor-pointer p-1.5 rounded-lg text-gray-300 hover:text-white hover:bg-[#4E4E50]/30 transition"
+                      title="Скачать"
+                    >
+                      <FiDownload className="w-4 h-4" />
+                    </a>
+                  ) : (
+                    <FiCheck className="w-4 h-4 text-green-500" title="Доставлено" />
+                  ))}
+                  {transfer.status === 'failed' && <FiAlertCircle className="w-4 h-4 text-red-400" />}
+                  {(active || (!incoming && transfer.status === 'offered')) && (
+                    <button
+                      onClick={() => onCancel(transfer.id)}
+                      className="cursor-pointer p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-[#4E4E50]/30 transition"
+                      title="Отменить"
+                    >
+                      <FiX className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                {active && (
+                  <div className="mt-2 h-1.5 rounded-full bg-[#4E4E50]/30 overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-all ${transfer.status === 'paused' ? 'bg-[#4E4E50]' : 'bg-gradient-to-r from-[#6F2232] to-[#C3073F]'}`}
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+                )}
+
+                {incoming && transfer.status === 'offered' && (
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => onAccept(transfer.id)}
+                      className="cursor-pointer flex-1 bg-[#950740]/20 hover:bg-[#950740]/30 border border-[#950740] px-3 py-1.5 rounded-lg text-xs font-medium transition"
+                    >
+                      Принять
+                    </button>
+                    <button
+                      onClick={() => onDecline(transfer.id)}
+                      className="cursor-pointer flex-1 bg-[#4E4E50]/30 hover:bg-[#4E4E50]/50 border border-[#4E4E50]/50 px-3 py-1.5 rounded-lg text-xs font-medium transition"
+                    >
+                      Отклонить
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+          {transfers.some(transfer => transfer.direction === 'incoming' && transfer.status === 'completed') && (
+            <p className="text-[11px] text-gray-400 text-center">Полученные файлы доступны до конца звонка</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
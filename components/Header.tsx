@@ -1,19 +1,30 @@
 'use client'
 
 import Image from 'next/image'
-import { User } from '@/lib/types'
-import { FiSettings, FiLogOut } from 'react-icons/fi'
+import Link from 'next/link'
+import { User, UserPresence, PresenceMode } from '@/lib/types'
+import { PRESENCE_STATUS_STYLES } from '@/lib/presence'
+import PresenceBadge from '@/components/PresenceBadge'
+import PresenceStatusPicker from '@/components/PresenceStatusPicker'
+import { FiSettings, FiLogOut, FiClock, FiActivity, FiDisc } from 'react-icons/fi'
 import { useEffect, useState } from 'react'
 
 interface HeaderProps {
   currentUser: User | null
   loadingProfile?: boolean
+  presence: UserPresence // Собственный статус в том виде, в каком его видят остальные
+  presenceMode: PresenceMode
+  statusText: string | null
+  onChangePresence: (mode: PresenceMode, statusText: string | null) => Promise<void>
   onOpenSettings: () => void
+  onOpenHistory?: () => void
+  missedCallsCount?: number // Непросмотренные пропущенные звонки
   onLogout: () => void
 }
 
-export default function Header({ currentUser, loadingProfile = false, onOpenSettings, onLogout }: HeaderProps) {
+export default function Header({ currentUser, loadingProfile = false, presence, presenceMode, statusText, onChangePresence, onOpenSettings, onOpenHistory, missedCallsCount = 0, onLogout }: HeaderProps) {
   const [showRealContent, setShowRealContent] = useState(false)
+  const [showStatusMenu, setShowStatusMenu] = useState(false)
 
   // Задержка появления реального контента после загрузки данных
   useEffect(() => {
@@ -60,37 +71,93 @@ export default function Header({ currentUser, loadingProfile = false, onOpenSett
 
           {/* Реальный контент - появляется поэтапно после задержки */}
           {currentUser && showRealContent && (
-            <div className="flex items-center gap-2 sm:gap-3">
+            <button
+              onClick={() => setShowStatusMenu(!showStatusMenu)}
+              className="cursor-pointer flex items-center gap-2 sm:gap-3 text-left"
+              title="Изменить статус"
+            >
               {/* Аватар - появляется первым */}
-              <div className="w-8 h-8 sm:w-9 sm:h-9 md:w-10 md:h-10 bg-gradient-to-br from-[#6F2232] to-[#950740] rounded-full flex items-center justify-center overflow-hidden shadow-lg animate-fadeInAvatar">
-                {currentUser.avatar_url ? (
-                  <Image
-                    src={currentUser.avatar_url}
-                    alt="Your avatar"
-                    width={32}
-                    height={32}
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
-                  <span className="text-sm sm:text-base md:text-lg text-white font-semibold">
-                    {currentUser.display_name?.charAt(0).toUpperCase() || currentUser.email?.charAt(0).toUpperCase()}
-                  </span>
-                )}
+              <div className="relative flex-shrink-0 animate-fadeInAvatar">
+                <div className="w-8 h-8 sm:w-9 sm:h-9 md:w-10 md:h-10 bg-gradient-to-br from-[#6F2232] to-[#950740] rounded-full flex items-center justify-center overflow-hidden shadow-lg">
+                  {currentUser.avatar_url ? (
+                    <Image
+                      src={currentUser.avatar_url}
+                      alt="Your avatar"
+                      width={32}
+                      height={32}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <span className="text-sm sm:text-base md:text-lg text-white font-semibold">
+                      {currentUser.display_name?.charAt(0).toUpperCase() || currentUser.email?.charAt(0).toUpperCase()}
+                    </span>
+                  )}
+                </div>
+                <span className={`absolute bottom-0 right-0 w-2.5 h-2.5 rounded-full border-2 border-[#1A1A1D] ${PRESENCE_STATUS_STYLES[presence.status].dot}`}></span>
               </div>
 
               {/* Текст - появляется с задержкой */}
-              <div className="hidden md:flex flex-col space-y-1 animate-fadeInText">
-                <p className="text-sm font-medium">
+              <div className="hidden md:flex flex-col space-y-1 max-w-[10rem] animate-fadeInText">
+                <p className="text-sm font-medium truncate">
                   {currentUser.display_name || currentUser.email?.split('@')[0]}
                 </p>
-                <p className="text-xs text-gray-400">Онлайн</p>
+                <PresenceBadge presence={presence} label={presenceMode === 'invisible' ? 'Невидимка' : undefined} />
               </div>
+            </button>
+          )}
+
+          {/* Меню статуса */}
+          {currentUser && showStatusMenu && (
+            <div className="absolute top-full right-0 md:left-0 md:right-auto mt-2 w-72 max-w-[calc(100vw-2rem)] bg-[#1A1A1D] rounded-xl border border-[#4E4E50]/30 shadow-2xl p-3 z-50">
+              <p className="text-sm font-bold text-white mb-3">Ваш статус</p>
+              <PresenceStatusPicker
+                mode={presenceMode}
+                statusText={statusText}
+                onSave={async (mode, statusText) => {
+                  await onChangePresence(mode, statusText)
+                  setShowStatusMenu(false)
+                }}
+                onCancel={() => setShowStatusMenu(false)}
+              />
             </div>
           )}
         </div>
 
         {/* Кнопки */}
         <div className="flex gap-1 sm:gap-2">
+          {onOpenHistory && (
+            <button
+              onClick={onOpenHistory}
+              className="relative cursor-pointer bg-[#950740]/20 hover:bg-[#950740]/30 border border-[#950740] px-2 py-1 rounded-lg transition hover:shadow-lg flex items-center justify-center gap-1 min-w-[32px] h-8"
+            >
+              <FiClock className="w-4 h-4 flex-shrink-0" />
+              <span className="hidden xs:inline text-sm">История</span>
+              {missedCallsCount > 0 && (
+                <span
+                  className="absolute -top-2 -right-2 min-w-[18px] h-[18px] px-1 rounded-full bg-[#C3073F] text-white text-[10px] font-bold flex items-center justify-center shadow-lg"
+                  title="Пропущенные звонки"
+                >
+                  {missedCallsCount > 99 ? '99+' : missedCallsCount}
+                </span>
+              )}
+            </button>
+          )}
+          <Link
+            href="/recordings"
+            className="cursor-pointer bg-[#950740]/20 hover:bg-[#950740]/30 border border-[#950740] px-2 py-1 rounded-lg transition hover:shadow-lg flex items-center justify-center gap-1 min-w-[32px] h-8"
+            title="Записи звонков"
+          >
+            <FiDisc className="w-4 h-4 flex-shrink-0" />
+            <span className="hidden xs:inline text-sm">Записи</span>
+          </Link>
+          <Link
+            href="/diagnostics"
+            className="cursor-pointer bg-[#950740]/20 hover:bg-[#950740]/30 border border-[#950740] px-2 py-1 rounded-lg transition hover:shadow-lg flex items-center justify-center gap-1 min-w-[32px] h-8"
+            title="Проверка связи"
+          >
+            <FiActivity className="w-4 h-4 flex-shrink-0" />
+            <span className="hidden xs:inline text-sm">Проверка</span>
+          </Link>
           <button
             onClick={onOpenSettings}
             className="cursor-pointer bg-[#950740]/20 hover:bg-[#950740]/30 border border-[#950740] px-2 py-1 rounded-lg transition hover:shadow-lg flex items-center justify-center gap-1 min-w-[32px] h-8"
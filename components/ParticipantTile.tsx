@@ -0,0 +1,77 @@
+'use client'
+
+import Image from 'next/image'
+import { useEffect, useRef } from 'react'
+import { User, CallParticipant } from '@/lib/types'
+import { FiMicOff } from 'react-icons/fi'
+import VideoTile from '@/components/VideoTile'
+import { applyAudioOutput } from '@/lib/audioDevices'
+
+interface ParticipantTileProps {
+  participant: CallParticipant
+  user?: User
+  audioOutputId?: string | null
+}
+
+export default function ParticipantTile({ participant, user, audioOutputId = null }: ParticipantTileProps) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const name = user?.display_name || user?.email?.split('@')[0] || participant.userId.slice(0, 8) + '...'
+
+  // Каждый участник воспроизводится через собственный audio элемент
+  useEffect(() => {
+    if (audioRef.current && audioRef.current.srcObject !== participant.stream) {
+      audioRef.current.srcObject = participant.stream
+    }
+  }, [participant.stream])
+
+  useEffect(() => {
+    applyAudioOutput(audioRef.current, audioOutputId)
+  }, [audioOutputId])
+
+  return (
+    <div className="flex flex-col items-center gap-1 relative">
+      <audio ref={audioRef} autoPlay className="hidden" />
+
+      {participant.videoEnabled && participant.stream ? (
+        <VideoTile
+          stream={participant.stream}
+          label={name}
+          className={`w-full aspect-video ${participant.speaking && !participant.muted ? 'ring-2 ring-[#C3073F]' : ''}`}
+        />
+      ) : (
+        <>
+          <div className={`w-12 h-12 rounded-full flex items-center justify-center overflow-hidden transition-all duration-300 ${
+            !participant.connected ? 'opacity-50 animate-pulse' :
+            participant.speaking && !participant.muted ? 'ring-4 ring-[#C3073F] animate-pulse' : 'ring-2 ring-[#6F2232]'
+          }`}>
+            {user?.avatar_url ? (
+              <Image
+                src={user.avatar_url}
+                alt="Participant avatar"
+                width={48}
+                height={48}
+                className="w-full h-full object-cover rounded-full"
+              />
+            ) : (
+              <div className="w-full h-full bg-gradient-to-br from-[#6F2232] to-[#950740] rounded-full flex items-center justify-center">
+                <span className="text-white text-lg">{name.charAt(0).toUpperCase()}</span>
+              </div>
+            )}
+          </div>
+          <p className="font-medium text-xs truncate max-w-full">{name}</p>
+        </>
+      )}
+
+      {!participant.connected && (
+        <p className="text-xs text-gray-400">Подключение...</p>
+      )}
+
+      {/* Индикатор выключенного микрофона участника */}
+      {participant.connected && participant.muted && (
+        <div className="absolute top-0 right-0 w-5 h-5 border-2 border-[#6F2232] rounded-full flex items-center justify-center bg-[#1A1A1D]" style={{ color: '#C3073F' }}>
+          <FiMicOff className="w-3 h-3" />
+        </div>
+      )}
+    </div>
+  )
+}
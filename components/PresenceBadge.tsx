@@ -0,0 +1,29 @@
+'use client'
+
+import { UserPresence } from '@/lib/types'
+import { PRESENCE_STATUS_STYLES } from '@/lib/presence'
+
+interface PresenceBadgeProps {
+  presence: UserPresence
+  label?: string // Подпись вместо названия статуса (например, "Невидимка" в собственном статусе)
+  centered?: boolean
+}
+
+// Статус пользователя в сети и его текст статуса под именем
+export default function PresenceBadge({ presence, label, centered = false }: PresenceBadgeProps) {
+  const style = PRESENCE_STATUS_STYLES[presence.status]
+
+  return (
+    <div className={`min-w-0 max-w-full ${centered ? 'text-center' : ''}`}>
+      <div className={`flex items-center gap-1 ${centered ? 'justify-center' : ''}`}>
+        <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${style.dot}`}></span>
+        <p className="text-xs text-gray-400">{label ?? style.label}</p>
+      </div>
+      {presence.statusText && (
+        <p className="text-[11px] text-gray-500 truncate" title={presence.statusText}>
+          {presence.statusText}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+'use client'
+
+import { useState } from 'react'
+import { PresenceMode } from '@/lib/types'
+import { MAX_STATUS_TEXT_LENGTH, PRESENCE_MODE_OPTIONS } from '@/lib/presence'
+
+interface PresenceStatusPickerProps {
+  mode: PresenceMode
+  statusText: string | null
+  onSave: (mode: PresenceMode, statusText: string | null) => Promise<void>
+  onCancel?: () => void
+}
+
+// Выбор режима статуса и текста статуса - в меню шапки и на странице профиля
+export default function PresenceStatusPicker({ mode, statusText, onSave, onCancel }: PresenceStatusPickerProps) {
+  const [draftMode, setDraftMode] = useState<PresenceMode>(mode)
+  const [draftText, setDraftText] = useState(statusText || '')
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      // Пустой текст убирает статус
+      await onSave(draftMode, draftText.trim() || null)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {(Object.keys(PRESENCE_MODE_OPTIONS) as PresenceMode[]).map(option => (
+          <label
+            key={option}
+            className={`flex items-start gap-3 p-2 rounded-lg border cursor-pointer transition ${
+              draftMode === option ? 'border-[#950740] bg-[#950740]/10' : 'border-[#4E4E50]/30 hover:border-[#4E4E50]/60'
+            }`}
+          >
+            <input
+              type="radio"
+              name="presenceMode"
+              checked={draftMode === option}
+              onChange={() => setDraftMode(option)}
+              className="mt-1 accent-[#C3073F] cursor-pointer"
+            />
+            <div>
+              <p className="text-sm text-white">{PRESENCE_MODE_OPTIONS[option].label}</p>
+              <p className="text-xs text-gray-400">{PRESENCE_MODE_OPTIONS[option].description}</p>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white mb-1">Текст статуса</label>
+        <input
+          value={draftText}
+          onChange={(e) => setDraftText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave()
+          }}
+          maxLength={MAX_STATUS_TEXT_LENGTH}
+          className="w-full px-3 py-2 bg-[#4E4E50]/20 border border-[#4E4E50]/30 rounded-lg focus:ring-2 focus:ring-[#950740] focus:border-[#950740] text-white placeholder-gray-400 text-sm"
+          placeholder="Например: На встрече до 15:00"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="cursor-pointer flex-1 bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-4 py-2 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm"
+        >
+          {saving ? 'Сохранение...' : 'Сохранить'}
+        </button>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="cursor-pointer bg-[#4E4E50] hover:bg-[#6F2232] px-4 py-2 rounded-lg font-semibold transition text-white text-sm"
+          >
+            Отмена
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { User, CallRecording } from '@/lib/types'
+import { FiDownload, FiUploadCloud, FiCheck, FiX } from 'react-icons/fi'
+import { MdFiberManualRecord } from 'react-icons/md'
+import { uploadCallRecording } from '@/lib/recordings'
+
+interface RecordingToastProps {
+  recording: CallRecording
+  currentUserId: string
+  peer?: User
+  onDismiss: () => void
+}
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = seconds % 60
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+}
+
+// Готовая запись звонка: прослушивание, скачивание файла и сохранение в bucket recordings
+export default function RecordingToast({ recording, currentUserId, peer, onDismiss }: RecordingToastProps) {
+  const [uploadState, setUploadState] = useState<'idle' | 'uploading' | 'saved' | 'error'>('idle')
+  const name = peer?.display_name || peer?.email?.split('@')[0] || recording.peerUserId.slice(0, 8) + '...'
+
+  const upload = async () => {
+    setUploadState('uploading')
+    try {
+      await uploadCallRecording(currentUserId, recording)
+      setUploadState('saved')
+    } catch {
+      setUploadState('error')
+    }
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 max-w-xs w-[calc(100%-2rem)] sm:w-80 bg-[#1A1A1D]/95 backdrop-blur-md border border-[#950740]/60 rounded-xl shadow-xl shadow-[#950740]/20 p-4">
+      <div className="flex items-start gap-3 mb-3">
+        <div className="w-9 h-9 rounded-full bg-[#950740]/20 text-red-500 flex items-center justify-center flex-shrink-0">
+          <MdFiberManualRecord className="w-4 h-4" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold truncate">Запись разговора с {name}</p>
+          <p className="text-xs text-gray-400">Длительность {formatDuration(recording.duration)}</p>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="cursor-pointer text-gray-400 hover:text-white transition"
+          title="Закрыть"
+        >
+          <FiX className="w-4 h-4" />
+        </button>
+      </div>
+      <audio src={recording.url} controls className="w-full h-8 mb-2" />
+      <div className="flex gap-2">
+        <a
+          href={recording.url}
+          download={recording.fileName}
+          className="cursor-pointer flex-1 bg-[#950740]/20 hover:bg-[#950740]/30 border border-[#950740] px-3 py-1.5 rounded-lg text-xs font-medium transition flex items-center justify-center gap-1 text-white"
+        >
+          <FiDownload className="w-3 h-3" />
+          Скачать
+        </a>
+        {uploadState === 'saved' ? (
+          <Link
+            href="/recordings"
+            className="flex-1 bg-[#4E4E50]/30 hover:bg-[#4E4E50]/50 border border-[#4E4E50]/50 px-3 py-1.5 rounded-lg text-xs font-medium transition flex items-center justify-center gap-1 text-white"
+          >
+            <FiCheck className="w-3 h-3 text-green-500" />
+            Сохранено
+          </Link>
+        ) : (
+          <button
+            onClick={upload}
+            disabled={uploadState === 'uploading'}
+            className="cursor-pointer flex-1 bg-[#4E4E50]/30 hover:bg-[#4E4E50]/50 border border-[#4E4E50]/50 px-3 py-1.5 rounded-lg text-xs font-medium transition flex items-center justify-center gap-1 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FiUploadCloud className="w-3 h-3" />
+            {uploadState === 'uploading' ? 'Загрузка...' : 'Сохранить в облако'}
+          </button>
+        )}
+      </div>
+      {uploadState === 'error' && (
+        <p className="text-red-400 text-xs mt-1">Не удалось сохранить запись</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { createPortal } from 'react-dom'
+import { useState } from 'react'
+import { AbuseReportReason, ABUSE_REPORT_REASONS } from '@/lib/types'
+import { ABUSE_REPORT_REASON_LABELS, MAX_REPORT_DETAILS_LENGTH } from '@/lib/moderation'
+import { FiX, FiFlag } from 'react-icons/fi'
+
+interface ReportUserModalProps {
+  userName: string
+  fromCall: boolean // Жалоба отправляется с экрана звонка - к ней прикладываются данные звонка
+  onSubmit: (reason: AbuseReportReason, details: string) => Promise<void>
+  onClose: () => void
+}
+
+export default function ReportUserModal({ userName, fromCall, onSubmit, onClose }: ReportUserModalProps) {
+  const [reason, setReason] = useState<AbuseReportReason>('spam')
+  const [details, setDetails] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [sent, setSent] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      await onSubmit(reason, details.trim())
+      setSent(true)
+    } catch {
+      setError('Не удалось отправить жалобу. Попробуйте еще раз')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-2 sm:p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#1A1A1D] rounded-xl border border-[#4E4E50]/30 shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-3 sm:p-4 border-b border-[#4E4E50]/20 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <FiFlag className="w-5 h-5 text-[#C3073F]" />
+            Жалоба на {userName}
+          </h2>
+          <button
+            onClick={onClose}
+            className="cursor-pointer text-[#4E4E50] hover:text-[#C3073F] transition"
+          >
+            <FiX className="w-5 h-5" />
+          </button>
+        </div>
+
+        {sent ? (
+          <div className="p-3 sm:p-4 text-center space-y-4">
+            <p className="text-sm text-gray-300">Жалоба отправлена. Администраторы рассмотрят ее в ближайшее время</p>
+            <button
+              onClick={onClose}
+              className="cursor-pointer bg-[#4E4E50] hover:bg-[#6F2232] px-4 py-2 rounded-lg font-semibold transition text-white text-sm"
+            >
+              Закрыть
+            </button>
+          </div>
+        ) : (
+          <div className="p-3 sm:p-4 space-y-4">
+            <div className="space-y-2">
+              {ABUSE_REPORT_REASONS.map(option => (
+                <label
+                  key={option}
+                  className={`flex items-center gap-3 p-2 rounded-lg border cursor-pointer transition ${
+                    reason === option ? 'border-[#950740] bg-[#950740]/10' : 'border-[#4E4E50]/30 hover:border-[#4E4E50]/60'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="reportReason"
+                    checked={reason === option}
+                    onChange={() => setReason(option)}
+                    className="accent-[#C3073F] cursor-pointer"
+                  />
+                  <span className="text-sm text-white">{ABUSE_REPORT_REASON_LABELS[option]}</span>
+                </label>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-white mb-1">Подробности (необязательно)</label>
+              <textarea
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                maxLength={MAX_REPORT_DETAILS_LENGTH}
+                rows={3}
+                className="w-full px-3 py-2 bg-[#4E4E50]/20 border border-[#4E4E50]/30 rounded-lg focus:ring-2 focus:ring-[#950740] focus:border-[#950740] text-white placeholder-gray-400 text-sm resize-none"
+                placeholder="Что произошло?"
+              />
+              {fromCall && (
+                <p className="text-xs text-gray-400 mt-1">К жалобе будут приложены время и тип звонка</p>
+              )}
+            </div>
+
+            {error && <p className="text-red-400 text-xs">{error}</p>}
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={handleSubmit}
+                disabled={submitting}
+                className="cursor-pointer flex-1 bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-4 py-2 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm"
+              >
+                {submitting ? 'Отправка...' : 'Отправить жалобу'}
+              </button>
+              <button
+                onClick={onClose}
+                className="cursor-pointer bg-[#4E4E50] hover:bg-[#6F2232] px-4 py-2 rounded-lg font-semibold transition text-white text-sm"
+              >
+                Отмена
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  )
+}
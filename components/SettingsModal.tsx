@@ -3,10 +3,14 @@
 import { createPortal } from 'react-dom'
 import { useState } from 'react'
 import Image from 'next/image'
-import { User } from '@/lib/types'
+import { User, AudioProfile, CallPrivacy } from '@/lib/types'
 import { FiX, FiUpload } from 'react-icons/fi'
 import { createClient } from '@/lib/supabase/client'
 import { logger } from '@/lib/logger'
+import AudioDeviceSettings from '@/components/AudioDeviceSettings'
+import { AUDIO_PROFILES } from '@/lib/audioProfiles'
+import { isE2eeSupported } from '@/lib/e2ee'
+import { CALL_PRIVACY_OPTIONS } from '@/lib/contacts'
 
 interface SettingsModalProps {
   isOpen: boolean
@@ -14,10 +18,22 @@ interface SettingsModalProps {
   displayName: string
   uploading: boolean
   saving: boolean
+  relayOnly: boolean
+  e2eeEnabled: boolean
+  callPrivacy: CallPrivacy
+  audioInputId: string | null
+  audioOutputId: string | null
+  audioProfile: AudioProfile
   onClose: () => void
   onDisplayNameChange: (value: string) => void
   onAvatarSelect: () => void
   onSave: () => void
+  onRelayOnlyChange: (enabled: boolean) => void
+  onE2eeChange: (enabled: boolean) => void
+  onCallPrivacyChange: (privacy: CallPrivacy) => void
+  onAudioInputChange: (deviceId: string | null) => void
+  onAudioOutputChange: (deviceId: string | null) => void
+  onAudioProfileChange: (profile: AudioProfile) => void
 }
 
 export default function SettingsModal({
@@ -26,12 +42,25 @@ export default function SettingsModal({
   displayName,
   uploading,
   saving,
+  relayOnly,
+  e2eeEnabled,
+  callPrivacy,
+  audioInputId,
+  audioOutputId,
+  audioProfile,
   onClose,
   onDisplayNameChange,
   onAvatarSelect,
-  onSave
+  onSave,
+  onRelayOnlyChange,
+  onE2eeChange,
+  onCallPrivacyChange,
+  onAudioInputChange,
+  onAudioOutputChange,
+  onAudioProfileChange
 }: SettingsModalProps) {
   const [displayNameExists, setDisplayNameExists] = useState(false)
+  const [e2eeSupported] = useState(() => typeof window !== 'undefined' && isE2eeSupported())
   const supabase = createClient()
 
   // Валидация display name
@@ -177,6 +206,109 @@ export default function SettingsModal({
               </p>
             </div>
 
+            {/* Audio devices */}
+            <div>
+              <h3 className="text-base sm:text-lg font-semibold text-white mb-3">Звук</h3>
+              <AudioDeviceSettings
+                inputId={audioInputId}
+                outputId={audioOutputId}
+                profile={audioProfile}
+                onInputChange={onAudioInputChange}
+                onOutputChange={onAudioOutputChange}
+              />
+
+              <label className="block text-sm font-medium text-white mt-3 mb-1">Профиль звука</label>
+              <div className="space-y-2">
+                {(Object.keys(AUDIO_PROFILES) as AudioProfile[]).map(profile => (
+                  <label
+                    key={profile}
+                    className={`flex items-start gap-3 p-2 rounded-lg border cursor-pointer transition ${
+                      audioProfile === profile ? 'border-[#950740] bg-[#950740]/10' : 'border-[#4E4E50]/30 hover:border-[#4E4E50]/60'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="audioProfile"
+                      checked={audioProfile === profile}
+                      onChange={() => onAudioProfileChange(profile)}
+                      className="mt-1 accent-[#C3073F] cursor-pointer"
+                    />
+                    <span>
+                      <span className="block text-sm text-white">{AUDIO_PROFILES[profile].label}</span>
+                      <span className="block text-xs text-gray-400">{AUDIO_PROFILES[profile].description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400 mt-1">Профиль применяется со следующего звонка</p>
+            </div>
+
+            {/* Privacy */}
+            <div>
+              <h3 className="text-base sm:text-lg font-semibold text-white mb-3">Приватность</h3>
+              <label className="block text-sm font-medium text-white mb-1">Кто может мне звонить</label>
+              <div className="space-y-2">
+                {(Object.keys(CALL_PRIVACY_OPTIONS) as CallPrivacy[]).map(privacy => (
+                  <label
+                    key={privacy}
+                    className={`flex items-start gap-3 p-2 rounded-lg border cursor-pointer transition ${
+                      callPrivacy === privacy ? 'border-[#950740] bg-[#950740]/10' : 'border-[#4E4E50]/30 hover:border-[#4E4E50]/60'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="callPrivacy"
+                      checked={callPrivacy === privacy}
+                      onChange={() => onCallPrivacyChange(privacy)}
+                      className="mt-1 accent-[#C3073F] cursor-pointer"
+                    />
+                    <span>
+                      <span className="block text-sm text-white">{CALL_PRIVACY_OPTIONS[privacy].label}</span>
+                      <span className="block text-xs text-gray-400">{CALL_PRIVACY_OPTIONS[privacy].description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400 mt-1">Применяется сразу, без кнопки «Сохранить»</p>
+            </div>
+
+            <div>
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={relayOnly}
+                  onChange={(e) => onRelayOnlyChange(e.target.checked)}
+                  className="mt-1 accent-[#C3073F] cursor-pointer"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-white">Скрывать мой IP-адрес</span>
+                  <span className="block text-xs text-gray-400 mt-1">
+                    Звонки идут только через TURN сервер. Соединение может быть медленнее, применяется со следующего звонка
+                  </span>
+                </span>
+              </label>
+            </div>
+
+            <div>
+              <label className={`flex items-start gap-3 ${e2eeSupported ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                <input
+                  type="checkbox"
+                  checked={e2eeEnabled && e2eeSupported}
+                  disabled={!e2eeSupported}
+                  onChange={(e) => onE2eeChange(e.target.checked)}
+                  className="mt-1 accent-[#C3073F] cursor-pointer"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-white">Сквозное шифрование звонков</span>
+                  <span className="block text-xs text-gray-400 mt-1">
+                    {e2eeSupported
+                      ? 'Звук и видео шифруются ключом, который знаете только вы и собеседник. Только для разговоров один на один, применяется со следующего звонка'
+                      : 'Браузер не поддерживает шифрование кадров (insertable streams)'}
+                  </span>
+                </span>
+              </label>
+            </div>
+
           </div>
 
           {/* Modal Actions */}
@@ -1,36 +1,162 @@
 'use client'
 
+import { useState } from 'react'
 import Image from 'next/image'
-import { User } from '@/lib/types'
-import { FiPhone, FiPlus, FiMinus, FiRefreshCw, FiUsers } from 'react-icons/fi'
+import { User, CallOptions, Contact, ContactRequest, BlockedUser, UserPresence } from '@/lib/types'
+import { PRESENCE_STATUS_STYLES, getPresence } from '@/lib/presence'
+import PresenceBadge from '@/components/PresenceBadge'
+import { FiPhone, FiPlus, FiMinus, FiRefreshCw, FiUsers, FiVideo, FiUserPlus, FiEdit2, FiCheck, FiX, FiClock, FiMoreVertical, FiSlash, FiFlag } from 'react-icons/fi'
 
 interface UserListProps {
   users: User[]
   allUsers: User[]
-  contacts: string[]
+  contacts: Contact[]
+  presence: Record<string, UserPresence> // Статусы контактов из Realtime Presence по ID пользователя
   loading: boolean
-  onStartCall: (userId: string) => void
+  onStartCall: (userId: string, options?: CallOptions) => void
   onAddContact: (userId: string) => void
   onRemoveContact: (userId: string) => void
+  onRenameContact: (userId: string, nickname: string | null) => void
+  incomingRequests: ContactRequest[]
+  outgoingRequests: ContactRequest[]
+  onRespondToRequest: (requestId: string, accept: boolean) => void
+  onCancelRequest: (requestId: string) => void
+  blockedUsers: BlockedUser[]
+  onBlockUser: (userId: string) => void
+  onUnblockUser: (userId: string) => void
+  onReportUser: (userId: string) => void
   onRefreshUsers: () => void
   onCreateProfile: () => void
+  inCall?: boolean // Во время звонка вместо "Позвонить" показываем "Пригласить"
+  callParticipantIds?: string[] // Кто уже в звонке
+  onInviteToCall?: (userId: string) => void
 }
 
 export default function UserList({
   users,
   allUsers,
   contacts,
+  presence,
   loading,
   onStartCall,
   onAddContact,
   onRemoveContact,
+  onRenameContact,
+  incomingRequests,
+  outgoingRequests,
+  onRespondToRequest,
+  onCancelRequest,
+  blockedUsers,
+  onBlockUser,
+  onUnblockUser,
+  onReportUser,
   onRefreshUsers,
-  onCreateProfile
+  onCreateProfile,
+  inCall = false,
+  callParticipantIds = [],
+  onInviteToCall
 }: UserListProps) {
+  // Заблокированные контакты остаются в списке на сервере, но не показываются
+  const visibleContacts = contacts.filter(contact => !blockedUsers.some(blocked => blocked.blocked_id === contact.contact_id))
+
+  // Контакт, имя которого сейчас редактируется
+  const [editingContactId, setEditingContactId] = useState<string | null>(null)
+  const [nicknameDraft, setNicknameDraft] = useState('')
+  // Пользователь, для которого открыто меню действий
+  const [menuUserId, setMenuUserId] = useState<string | null>(null)
+  const [showBlocked, setShowBlocked] = useState(false)
+
+  const startRename = (contact: Contact, fallbackName: string) => {
+    setEditingContactId(contact.contact_id)
+    setNicknameDraft(contact.nickname || fallbackName)
+  }
+
+  // Пустое имя сбрасывает переименование - снова показывается имя из профиля
+  const saveRename = (contactId: string) => {
+    const nickname = nicknameDraft.trim()
+    onRenameContact(contactId, nickname || null)
+    setEditingContactId(null)
+  }
+
+  // Меню в левом верхнем углу карточки: переименование (только для контактов), блокировка и жалоба
+  const renderUserMenu = (userId: string, onRename?: () => void) => {
+    const menuItemClass = 'cursor-pointer w-full px-3 py-1.5 text-left text-xs hover:bg-[#4E4E50]/30 transition flex items-center gap-2'
+    const runAction = (action: () => void) => {
+      setMenuUserId(null)
+      action()
+    }
+
+    return (
+      <div className="absolute top-1 left-1 z-10">
+        <button
+          onClick={() => setMenuUserId(menuUserId === userId ? null : userId)}
+          className="cursor-pointer text-gray-400 hover:text-gray-300 transition p-1 rounded-full hover:bg-white/10"
+          title="Действия"
+        >
+          <FiMoreVertical className="w-3 h-3" />
+        </button>
+        {menuUserId === userId && (
+          <div className="absolute left-0 mt-1 w-40 py-1 rounded-lg bg-[#1A1A1D] border border-[#4E4E50]/40 shadow-xl">
+            {onRename && (
+              <button onClick={() => runAction(onRename)} className={menuItemClass}>
+                <FiEdit2 className="w-3 h-3" />
+                Переименовать
+              </button>
+            )}
+            <button onClick={() => runAction(() => onBlockUser(userId))} className={menuItemClass}>
+              <FiSlash className="w-3 h-3" />
+              Заблокировать
+            </button>
+            <button onClick={() => runAction(() => onReportUser(userId))} className={`${menuItemClass} text-[#C3073F]`}>
+              <FiFlag className="w-3 h-3" />
+              Пожаловаться
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  // Кнопки действия с пользователем: звонок/видеозвонок или приглашение в текущий звонок
+  const renderCallButtons = (userId: string) => {
+    if (inCall) {
+      const alreadyInCall = callParticipantIds.includes(userId)
+      return (
+        <button
+          onClick={() => onInviteToCall?.(userId)}
+          disabled={alreadyInCall}
+          className="cursor-pointer w-full bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-2 py-1.5 rounded text-xs font-medium transition flex items-center justify-center gap-1 shadow-md shadow-[#6F2232]/30 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FiUserPlus className="w-3 h-3" />
+          <span className="hidden sm:inline">{alreadyInCall ? 'В звонке' : 'Пригласить'}</span>
+        </button>
+      )
+    }
+
+    return (
+      <div className="w-full flex gap-1">
+        <button
+          onClick={() => onStartCall(userId)}
+          className="cursor-pointer flex-1 bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-2 py-1.5 rounded text-xs font-medium transition flex items-center justify-center gap-1 shadow-md shadow-[#6F2232]/30"
+        >
+          <FiPhone className="w-3 h-3" />
+          <span className="hidden sm:inline">Позвонить</span>
+        </button>
+        <button
+          onClick={() => onStartCall(userId, { video: true })}
+          className="cursor-pointer bg-[#950740]/20 hover:bg-[#950740]/30 border border-[#950740]/30 px-2 py-1.5 rounded text-xs transition flex items-center justify-center"
+          title="Видеозвонок"
+        >
+          <FiVideo className="w-3 h-3" />
+        </button>
+      </div>
+    )
+  }
+
   return (
     <div className="max-w-4xl mx-auto">
           <div className="bg-[#4E4E50]/5 backdrop-blur-xl rounded-2xl p-4 sm:p-6 md:p-8 border border-[#4E4E50]/20">
-        <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 text-center">Начать звонок</h2>
+        <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 text-center">{inCall ? 'Пригласить в звонок' : 'Начать звонок'}</h2>
 
         {loading ? (
           <div className="flex flex-col items-center justify-center py-12 gap-4">
@@ -48,16 +174,73 @@ export default function UserList({
           </div>
         ) : (
           <>
+            {/* Входящие запросы в контакты */}
+            {incomingRequests.length > 0 && (
+              <div className="mb-4 sm:mb-6">
+                <h3 className="font-bold text-base sm:text-lg mb-3 flex items-center gap-2">
+                  <FiUserPlus className="w-4 h-4 sm:w-5 sm:h-5" />
+                  Запросы в контакты:
+                </h3>
+                <div className="space-y-2">
+                  {incomingRequests.map(request => {
+                    const senderName = request.sender?.display_name || request.sender?.email?.split('@')[0] || 'Пользователь'
+                    return (
+                      <div key={request.id} className="bg-[#4E4E50]/10 backdrop-blur-lg rounded-lg p-2 sm:p-3 border border-[#950740]/30 flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-full flex items-center justify-center overflow-hidden bg-gray-500/20 flex-shrink-0">
+                          {request.sender?.avatar_url ? (
+                            <Image
+                              src={request.sender.avatar_url}
+                              alt="Avatar"
+                              width={32}
+                              height={32}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <span className="text-sm font-medium">{senderName.charAt(0).toUpperCase()}</span>
+                          )}
+                        </div>
+                        <p className="flex-1 text-xs sm:text-sm truncate">
+                          <span className="font-medium">{senderName}</span>
+                          <span className="text-gray-400"> хочет добавить вас в контакты</span>
+                        </p>
+                        <button
+                          onClick={() => onRespondToRequest(request.id, true)}
+                          className="cursor-pointer bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-2 py-1.5 rounded text-xs font-medium transition flex items-center gap-1"
+                          title="Принять"
+                        >
+                          <FiCheck className="w-3 h-3" />
+                          <span className="hidden sm:inline">Принять</span>
+                        </button>
+                        <button
+                          onClick={() => onRespondToRequest(request.id, false)}
+                          className="cursor-pointer bg-[#4E4E50]/30 hover:bg-[#4E4E50]/50 px-2 py-1.5 rounded text-xs transition flex items-center gap-1"
+                          title="Отклонить"
+                        >
+                          <FiX className="w-3 h-3" />
+                          <span className="hidden sm:inline">Отклонить</span>
+                        </button>
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Контакты */}
-            {contacts.length > 0 && (
+            {visibleContacts.length > 0 && (
               <div className="mt-6 sm:mt-8">
                 <h3 className="font-bold text-base sm:text-lg mb-3 sm:mb-4 flex items-center gap-2">
                   <FiPhone className="w-4 h-4 sm:w-5 sm:h-5" />
                   Мои контакты:
                 </h3>
                 <div className="grid grid-cols-2 xs:grid-cols-3 sm:grid-cols-4 lg:grid-cols-5 gap-2 sm:gap-3">
-                  {contacts.map(contactId => {
+                  {visibleContacts.map(contact => {
+                    const contactId = contact.contact_id
                     const contactUser = allUsers.find(user => user.id === contactId)
+                    const profileName = contactUser?.display_name || contactUser?.email?.split('@')[0] || 'Пользователь'
+                    const contactName = contact.nickname || profileName
+                    const contactPresence = getPresence(presence, contactId)
+                    const contactStatus = PRESENCE_STATUS_STYLES[contactPresence.status]
                     return (
                       <div key={contactId} className="bg-[#4E4E50]/10 backdrop-blur-lg rounded-lg p-2 sm:p-3 border border-[#4E4E50]/30 flex flex-col items-center text-center relative">
                         {/* Кнопка удаления контакта - правый верхний угол */}
@@ -69,10 +252,11 @@ export default function UserList({
                           <FiMinus className="w-3 h-3" />
                         </button>
 
+                        {/* Меню действий - левый верхний угол */}
+                        {renderUserMenu(contactId, () => startRename(contact, profileName))}
+
                         {/* Аватарка */}
-                        <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-full flex items-center justify-center overflow-hidden mb-1 sm:mb-2 ${
-                          contactUser?.online ? 'ring-2 ring-green-400' : ''
-                        }`}>
+                        <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-full flex items-center justify-center overflow-hidden mb-1 sm:mb-2 ${contactStatus.ring}`}>
                           {contactUser?.avatar_url ? (
                             <Image
                               src={contactUser.avatar_url}
@@ -82,34 +266,71 @@ export default function UserList({
                               className="w-full h-full object-cover"
                             />
                           ) : (
-                            <div className={`w-full h-full flex items-center justify-center ${
-                              contactUser?.online ? 'bg-green-500/20' : 'bg-gray-500/20'
-                            }`}>
+                            <div className={`w-full h-full flex items-center justify-center ${contactStatus.avatar}`}>
                               <span className="text-sm sm:text-base font-medium">
-                                {(contactUser?.display_name || contactUser?.email?.split('@')[0] || 'П').charAt(0).toUpperCase()}
+                                {contactName.charAt(0).toUpperCase()}
                               </span>
                             </div>
                           )}
                         </div>
 
                         {/* Информация */}
-                        <div className="mb-2 sm:mb-3 flex-1">
-                          <p className="font-medium text-xs sm:text-sm truncate max-w-full">
-                            {contactUser?.display_name || contactUser?.email?.split('@')[0] || 'Пользователь'}
-                          </p>
-                          <div className="flex items-center justify-center gap-1 mt-0.5">
-                            <span className={`w-1.5 h-1.5 rounded-full ${contactUser?.online ? 'bg-green-400' : 'bg-gray-400'}`}></span>
-                            <p className="text-xs text-gray-400">{contactUser?.online ? 'Онлайн' : 'Оффлайн'}</p>
+                        <div className="mb-2 sm:mb-3 flex-1 w-full">
+                          {editingContactId === contactId ? (
+                            <input
+                              value={nicknameDraft}
+                              onChange={(e) => setNicknameDraft(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') saveRename(contactId)
+                                if (e.key === 'Escape') setEditingContactId(null)
+                              }}
+                              maxLength={64}
+                              autoFocus
+                              className="w-full bg-[#1A1A1D]/60 border border-[#4E4E50]/40 rounded px-1 py-0.5 text-xs sm:text-sm text-center focus:outline-none focus:border-[#950740]"
+                            />
+                          ) : (
+                            <p className="font-medium text-xs sm:text-sm truncate max-w-full" title={contact.nickname ? profileName : undefined}>
+                              {contactName}
+                            </p>
+                          )}
+                          <div className="mt-0.5">
+                            <PresenceBadge presence={contactPresence} centered />
                           </div>
                         </div>
 
-                        {/* Кнопка позвонить */}
+                        {/* Кнопки позвонить / видеозвонок / пригласить */}
+                        {renderCallButtons(contactId)}
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Отправленные запросы в контакты: адресат станет контактом после принятия */}
+            {outgoingRequests.length > 0 && (
+              <div className="mt-4 sm:mt-6">
+                <h3 className="font-bold text-sm sm:text-base mb-2 sm:mb-3 flex items-center gap-1 sm:gap-2">
+                  <FiClock className="w-3 h-3 sm:w-4 sm:h-4" />
+                  Отправленные запросы:
+                </h3>
+                <div className="space-y-2">
+                  {outgoingRequests.map(request => {
+                    const recipient = allUsers.find(user => user.id === request.to_user)
+                    const recipientName = recipient?.display_name || recipient?.email?.split('@')[0] || 'Пользователь'
+                    return (
+                      <div key={request.id} className="bg-[#4E4E50]/10 rounded-lg px-3 py-2 border border-[#4E4E50]/30 flex items-center justify-between gap-3">
+                        <p className="text-xs sm:text-sm truncate">
+                          <span className="font-medium">{recipientName}</span>
+                          <span className="text-gray-400"> еще не ответил на запрос</span>
+                        </p>
                         <button
-                          onClick={() => onStartCall(contactId)}
-                          className="cursor-pointer w-full bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-2 py-1.5 rounded text-xs font-medium transition flex items-center justify-center gap-1 shadow-md shadow-[#6F2232]/30"
+                          onClick={() => onCancelRequest(request.id)}
+                          className="cursor-pointer bg-[#4E4E50]/30 hover:bg-[#4E4E50]/50 px-2 py-1 rounded text-xs transition flex items-center gap-1"
+                          title="Отозвать запрос"
                         >
-                          <FiPhone className="w-3 h-3" />
-                          <span className="hidden sm:inline">Позвонить</span>
+                          <FiX className="w-3 h-3" />
+                          <span className="hidden sm:inline">Отозвать</span>
                         </button>
                       </div>
                     )
@@ -141,7 +362,11 @@ export default function UserList({
               {users.map(user => (
                 <div key={user.id} className="bg-[#4E4E50]/10 backdrop-blur-lg rounded-lg p-2 sm:p-3 border border-[#4E4E50]/30 flex flex-col items-center text-center relative">
                   {/* Кнопка добавления в контакты - правый верхний угол */}
-                  {!contacts.includes(user.id) && (
+                  {outgoingRequests.some(request => request.to_user === user.id) ? (
+                    <span className="absolute top-1 right-1 text-gray-400 p-1" title="Запрос в контакты отправлен">
+                      <FiClock className="w-3 h-3" />
+                    </span>
+                  ) : !contacts.some(contact => contact.contact_id === user.id) && (
                     <button
                       onClick={() => onAddContact(user.id)}
                       className="cursor-pointer absolute top-1 right-1 text-[#950740] hover:text-[#C3073F] transition p-1 rounded-full hover:bg-white/10"
@@ -151,10 +376,11 @@ export default function UserList({
                     </button>
                   )}
 
+                  {/* Меню действий - левый верхний угол */}
+                  {renderUserMenu(user.id)}
+
                   {/* Аватарка */}
-                  <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-full flex items-center justify-center overflow-hidden mb-1 sm:mb-2 ${
-                    user.online ? 'ring-2 ring-green-400' : ''
-                  }`}>
+                  <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-full flex items-center justify-center overflow-hidden mb-1 sm:mb-2">
                     {user.avatar_url ? (
                       <Image
                         src={user.avatar_url}
@@ -164,9 +390,7 @@ export default function UserList({
                         className="w-full h-full object-cover"
                       />
                     ) : (
-                      <div className={`w-full h-full flex items-center justify-center ${
-                        user.online ? 'bg-green-500/20' : 'bg-gray-500/20'
-                      }`}>
+                      <div className="w-full h-full flex items-center justify-center bg-gray-500/20">
                         <span className="text-sm sm:text-base font-medium">
                           {(user.display_name || user.email.split('@')[0]).charAt(0).toUpperCase()}
                         </span>
@@ -175,24 +399,14 @@ export default function UserList({
                   </div>
 
                   {/* Ник */}
-                  <div className="mb-2 sm:mb-3">
+                  <div className="mb-2 sm:mb-3 w-full">
                     <p className="font-medium text-xs sm:text-sm truncate max-w-full">
                       {user.display_name || user.email.split('@')[0]}
                     </p>
-                    <div className="flex items-center justify-center gap-1 mt-0.5">
-                      <span className={`w-1.5 h-1.5 rounded-full ${user.online ? 'bg-green-400' : 'bg-gray-400'}`}></span>
-                      <p className="text-xs text-gray-400">{user.online ? 'Онлайн' : 'Оффлайн'}</p>
-                    </div>
                   </div>
 
-                  {/* Кнопка позвонить */}
-                  <button
-                    onClick={() => onStartCall(user.id)}
-                    className="cursor-pointer w-full bg-gradient-to-r from-[#6F2232] to-[#950740] hover:from-[#950740] hover:to-[#C3073F] px-2 py-1.5 rounded text-xs font-medium transition flex items-center justify-center gap-1 shadow-md shadow-[#6F2232]/30"
-                  >
-                    <FiPhone className="w-3 h-3" />
-                    <span className="hidden sm:inline">Позвонить</span>
-                  </button>
+                  {/* Кнопки позвонить / видеозвонок / пригласить */}
+                  {renderCallButtons(user.id)}
                 </div>
               ))}
             </div>
@@ -202,6 +416,36 @@ export default function UserList({
             </div>
           )}
         </div>
+
+            {/* Заблокированные пользователи */}
+            {blockedUsers.length > 0 && (
+              <div className="mt-4 sm:mt-6">
+                <button
+                  onClick={() => setShowBlocked(!showBlocked)}
+                  className="cursor-pointer mx-auto bg-[#4E4E50]/10 hover:bg-[#4E4E50]/20 border border-[#4E4E50]/30 px-3 py-1 rounded-full text-xs text-gray-400 transition flex items-center gap-1"
+                >
+                  <FiSlash className="w-3 h-3" />
+                  {showBlocked ? 'Скрыть заблокированных' : `Заблокированные (${blockedUsers.length})`}
+                </button>
+                {showBlocked && (
+                  <div className="mt-3 space-y-2">
+                    {blockedUsers.map(blocked => (
+                      <div key={blocked.blocked_id} className="bg-[#4E4E50]/10 rounded-lg px-3 py-2 border border-[#4E4E50]/30 flex items-center justify-between gap-3">
+                        <p className="text-xs sm:text-sm truncate">
+                          {blocked.profile?.display_name || blocked.profile?.email?.split('@')[0] || 'Пользователь'}
+                        </p>
+                        <button
+                          onClick={() => onUnblockUser(blocked.blocked_id)}
+                          className="cursor-pointer bg-[#950740]/20 hover:bg-[#950740]/30 border border-[#950740]/30 px-2 py-1 rounded text-xs transition"
+                        >
+                          Разблокировать
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
         </>
         )}
       </div>
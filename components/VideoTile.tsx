@@ -0,0 +1,38 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+interface VideoTileProps {
+  stream: MediaStream | null
+  label: string
+  mirrored?: boolean // Зеркалим собственную камеру, как в зеркале
+  contain?: boolean // Вписывать кадр целиком (для демонстрации экрана)
+  className?: string
+}
+
+export default function VideoTile({ stream, label, mirrored = false, contain = false, className = '' }: VideoTileProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  // Привязываем поток к video элементу
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== stream) {
+      videoRef.current.srcObject = stream
+    }
+  }, [stream])
+
+  return (
+    <div className={`relative rounded-xl overflow-hidden bg-black/60 border border-[#4E4E50]/30 ${className}`}>
+      {/* Звук воспроизводится через отдельный audio элемент, поэтому видео всегда без звука */}
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        className={`w-full h-full ${contain ? 'object-contain' : 'object-cover'} ${mirrored ? '-scale-x-100' : ''}`}
+      />
+      <span className="absolute bottom-2 left-2 px-2 py-0.5 rounded bg-black/50 text-xs text-white">
+        {label}
+      </span>
+    </div>
+  )
+}
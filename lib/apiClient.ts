@@ -0,0 +1,11 @@
+// JSON-запрос к API приложения; ошибка HTTP превращается в исключение
+export const requestJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' },
+  })
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`)
+  }
+  return response.json()
+}
@@ -0,0 +1,70 @@
+import { AudioProfile } from '@/lib/types'
+import { logger } from '@/lib/logger'
+import { AUDIO_PROFILES, DEFAULT_AUDIO_PROFILE } from '@/lib/audioProfiles'
+
+// Выбор микрофона и устройства вывода; выбор хранится отдельно для каждого пользователя
+export interface AudioDevicePreferences {
+  inputId: string | null // null - устройство по умолчанию
+  outputId: string | null
+}
+
+const storageKey = (userId: string) => `audioDevices:${userId}`
+
+export const loadAudioDevicePreferences = (userId: string): AudioDevicePreferences => {
+  try {
+    const saved = localStorage.getItem(storageKey(userId))
+    if (saved) {
+      const parsed = JSON.parse(saved)
+      return { inputId: parsed.inputId || null, outputId: parsed.outputId || null }
+    }
+  } catch (err) {
+    logger.warn('Failed to load audio device preferences:', err)
+  }
+  return { inputId: null, outputId: null }
+}
+
+export const saveAudioDevicePreferences = (userId: string, preferences: AudioDevicePreferences) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(preferences))
+}
+
+// Обработка звука зависит от профиля и одинакова для звонка и проверки в настройках
+export const buildAudioConstraints = (
+  deviceId: string | null,
+  profile: AudioProfile = DEFAULT_AUDIO_PROFILE,
+  exact = false
+): MediaTrackConstraints => {
+  const { processing, channelCount } = AUDIO_PROFILES[profile]
+
+  return {
+    echoCancellation: processing,
+    noiseSuppression: processing,
+    autoGainControl: processing,
+    channelCount: { ideal: channelCount },
+    ...(deviceId ? { deviceId: exact ? { exact: deviceId } : { ideal: deviceId } } : {}),
+  }
+}
+
+export const listAudioDevices = async () => {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return {
+    inputs: devices.filter(device => device.kind === 'audioinput'),
+    outputs: devices.filter(device => device.kind === 'audiooutput'),
+  }
+}
+
+// setSinkId есть не во всех браузерах (например, Safari на iOS)
+export const supportsOutputSelection = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype
+
+type SinkableElement = HTMLMediaElement & { setSinkId?: (sinkId: string) => Promise<void> }
+
+export const applyAudioOutput = async (element: HTMLMediaElement | null, deviceId: string | null) => {
+  const sinkable = element as SinkableElement | null
+  if (!sinkable?.setSinkId) return
+
+  try {
+    await sinkable.setSinkId(deviceId || '')
+  } catch (err) {
+    logger.warn('Failed to switch audio output:', err)
+  }
+}
@@ -0,0 +1,88 @@
+import SimplePeer from 'simple-peer'
+import { AudioProfile } from '@/lib/types'
+
+interface AudioProfileConfig {
+  label: string
+  description: string
+  // echoCancellation, noiseSuppression и autoGainControl
+  processing: boolean
+  channelCount: number
+  // Параметры Opus в строке a=fmtp (пустой объект - параметры браузера по умолчанию)
+  opus: Record<string, number>
+}
+
+export const AUDIO_PROFILES: Record<AudioProfile, AudioProfileConfig> = {
+  voice: {
+    label: 'Голос',
+    description: 'Шумоподавление и эхоподавление, оптимально для разговора',
+    processing: true,
+    channelCount: 1,
+    opus: {},
+  },
+  music: {
+    label: 'Музыка',
+    description: 'Без обработки звука, стерео, высокий битрейт. Используйте наушники',
+    processing: false,
+    channelCount: 2,
+    opus: { stereo: 1, 'sprop-stereo': 1, maxaveragebitrate: 128000, usedtx: 0, useinbandfec: 1 },
+  },
+  'low-bandwidth': {
+    label: 'Экономия трафика',
+    description: 'Моно, низкий битрейт, паузы в речи не передаются (DTX)',
+    processing: true,
+    channelCount: 1,
+    opus: { stereo: 0, 'sprop-stereo': 0, maxaveragebitrate: 16000, usedtx: 1, useinbandfec: 1 },
+  },
+}
+
+export const DEFAULT_AUDIO_PROFILE: AudioProfile = 'voice'
+
+export const isAudioProfile = (value: unknown): value is AudioProfile =>
+  typeof value === 'string' && value in AUDIO_PROFILES
+
+const storageKey = (userId: string) => `audioProfile:${userId}`
+
+export const loadAudioProfile = (userId: string): AudioProfile => {
+  const saved = localStorage.getItem(storageKey(userId))
+  return isAudioProfile(saved) ? saved : DEFAULT_AUDIO_PROFILE
+}
+
+export const saveAudioProfile = (userId: string, profile: AudioProfile) => {
+  localStorage.setItem(storageKey(userId), profile)
+}
+
+// Замена параметров Opus в SDP. В своем SDP они задают, как собеседник кодирует звук для нас,
+// в SDP собеседника - как кодирует наш браузер, поэтому преобразуются оба описания
+export const applyAudioProfileToSdp = (sdp: string, profile: AudioProfile): string => {
+  const params = AUDIO_PROFILES[profile].opus
+  if (Object.keys(params).length === 0) return sdp
+
+  const rtpmap = sdp.match(/a=rtpmap:(\d+) opus\/48000(?:\/2)?/i)
+  if (!rtpmap) return sdp
+
+  const payloadType = rtpmap[1]
+  const fmtpPattern = new RegExp(`a=fmtp:${payloadType} ([^\\r\\n]*)`)
+
+  const mergeParams = (existing: string) => {
+    const merged = new Map<string, string>()
+    existing.split(';').map(param => param.trim()).filter(Boolean).forEach(param => {
+      const [key, value] = param.split('=')
+      merged.set(key, value)
+    })
+    Object.entries(params).forEach(([key, value]) => merged.set(key, String(value)))
+    return Array.from(merged.entries()).map(([key, value]) => `${key}=${value}`).join(';')
+  }
+
+  if (fmtpPattern.test(sdp)) {
+    return sdp.replace(fmtpPattern, (_, existing: string) => `a=fmtp:${payloadType} ${mergeParams(existing)}`)
+  }
+
+  // Строки fmtp для Opus нет - добавляем сразу после rtpmap
+  return sdp.replace(rtpmap[0], `${rtpmap[0]}\r\na=fmtp:${payloadType} ${mergeParams('')}`)
+}
+
+// Offer/answer собеседника преобразуются перед передачей в SimplePeer
+export const applyAudioProfileToSignal = (signal: SimplePeer.SignalData, profile: AudioProfile): SimplePeer.SignalData => {
+  if (!('sdp' in signal) || !signal.sdp) return signal
+  return { ...signal, sdp: applyAudioProfileToSdp(signal.sdp, profile) }
+}
@@ -0,0 +1,144 @@
+import { createClient } from '@/lib/supabase/client'
+import { CallEndReason, CallMediaKind, CallRecord, CallTranscriptMessage, ChatMessage } from '@/lib/types'
+import { logger } from '@/lib/logger'
+
+/**
+ * Запись истории звонков в таблицу calls
+ * Ошибки записи не прерывают звонок - только логируются
+ */
+
+const supabase = createClient()
+
+// Создание записи о звонке (вызывается звонящим). ID генерируется на клиенте,
+// чтобы передать его собеседнику вместе с offer без ожидания ответа базы
+export const createCallRecord = async (callId: string, callerId: string, calleeId: string, media: CallMediaKind) => {
+  const { error } = await supabase
+    .from('calls')
+    .insert({
+      id: callId,
+      caller_id: callerId,
+      callee_id: calleeId,
+      media,
+    })
+
+  if (error) {
+    logger.warn('Failed to create call record:', error)
+  }
+}
+
+// Отметка о том, что звонок принят
+export const markCallAnswered = async (callId: string) => {
+  const { error } = await supabase
+    .from('calls')
+    .update({ answered_at: new Date().toISOString() })
+    .eq('id', callId)
+    .is('answered_at', null)
+
+  if (error) {
+    logger.warn('Failed to mark call as answered:', error)
+  }
+}
+
+// Завершение записи. Запись обновляется только один раз - первой стороной, которая завершила звонок
+export const finishCallRecord = async (callId: string, reason: CallEndReason) => {
+  const { error } = await supabase
+    .from('calls')
+    .update({
+      ended_at: new Date().toISOString(),
+      end_reason: reason,
+    })
+    .eq('id', callId)
+    .is('ended_at', null)
+
+  if (error) {
+    logger.warn('Failed to finish call record:', error)
+  }
+}
+
+// Сохранение сообщения чата в историю звонка (каждая сторона сохраняет свои сообщения)
+export const saveCallMessage = async (callId: string, message: ChatMessage) => {
+  const { error } = await supabase
+    .from('call_messages')
+    .insert({
+      id: message.id,
+      call_id: callId,
+      sender_id: message.from,
+      body: message.text,
+      sent_at: new Date(message.sentAt).toISOString(),
+    })
+
+  if (error) {
+    logger.warn('Failed to save chat message:', error)
+  }
+}
+
+// Переписка во время звонка
+export const fetchCallTranscript = async (callId: string): Promise<CallTranscriptMessage[]> => {
+  const { data, error } = await supabase
+    .from('call_messages')
+    .select('id, sender_id, body, sent_at')
+    .eq('call_id', callId)
+    .order('sent_at', { ascending: true })
+
+  if (error) {
+    logger.error('Error loading call transcript:', error)
+    throw error
+  }
+
+  return (data || []) as CallTranscriptMessage[]
+}
+
+export interface CallHistoryFilters {
+  missedOnly?: boolean
+  contactId?: string | null
+  limit?: number
+}
+
+// Загрузка истории звонков текущего пользователя (RLS отдает только свои звонки)
+export const fetchCallHistory = async (userId: string, filters: CallHistoryFilters = {}): Promise<CallRecord[]> => {
+  let query = supabase
+    .from('calls')
+    .select('id, caller_id, callee_id, media, started_at, answered_at, ended_at, end_reason, call_messages(count)')
+    .order('started_at', { ascending: false })
+    .limit(filters.limit ?? 50)
+
+  if (filters.missedOnly) {
+    // Пропущенные - входящие звонки без ответа
+    query = query.eq('callee_id', userId).eq('end_reason', 'missed')
+  }
+
+  if (filters.contactId) {
+    query = query.or(`caller_id.eq.${filters.contactId},callee_id.eq.${filters.contactId}`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    logger.error('Error loading call history:', error)
+    throw error
+  }
+
+  return (data || []) as CallRecord[]
+}
+
+// Количество пропущенных звонков после указанного момента (для бейджа в шапке)
+export const countMissedCalls = async (userId: string, since: string | null): Promise<number> => {
+  let query = supabase
+    .from('calls')
+    .select('id', { count: 'exact', head: true })
+    .eq('callee_id', userId)
+    .eq('end_reason', 'missed')
+
+  if (since) {
+    query = query.gt('started_at', since)
+  }
+
+  const { count, error } = await query
+
+  if (error) {
+    logger.warn('Failed to count missed calls:', error)
+    return 0
+  }
+
+  return count || 0
+}
@@ -0,0 +1,175 @@
+import { CallQualityLevel, CallQualityStats } from '@/lib/types'
+import { logger } from '@/lib/logger'
+
+// Как часто опрашивать getStats() во время звонка
+const STATS_INTERVAL_MS = 2000
+
+// Сколько плохих замеров подряд считаем ухудшением связи (а не единичным всплеском)
+const DEGRADED_SAMPLES = 3
+
+interface StatsSnapshot {
+  timestamp: number
+  bytesReceived: number
+  bytesSent: number
+  packetsReceived: number
+  packetsLost: number
+}
+
+// MOS по упрощенной E-модели (ITU-T G.107): задержка, джиттер и потери снижают R-фактор
+export const calculateMos = (rttMs: number, jitterMs: number, packetLoss: number): number => {
+  const effectiveLatency = rttMs / 2 + jitterMs * 2 + 10
+
+  let r = effectiveLatency < 160
+    ? 93.2 - effectiveLatency / 40
+    : 93.2 - (effectiveLatency - 120) / 10
+  r -= packetLoss * 2.5
+  r = Math.max(0, Math.min(100, r))
+
+  const mos = 1 + 0.035 * r + 0.000007 * r * (r - 60) * (100 - r)
+  return Math.round(Math.max(1, Math.min(4.5, mos)) * 10) / 10
+}
+
+const getQualityLevel = (mos: number): CallQualityLevel => {
+  if (mos >= 4.2) return 'excellent'
+  if (mos >= 3.6) return 'good'
+  if (mos >= 3.1) return 'fair'
+  return 'poor'
+}
+
+const getBars = (mos: number): number => {
+  if (mos >= 4.2) return 4
+  if (mos >= 3.6) return 3
+  if (mos >= 3.1) return 2
+  if (mos >= 2.5) return 1
+  return 0
+}
+
+/**
+ * Периодический сбор статистики RTCPeerConnection: RTT, джиттер, потери, битрейт,
+ * тип выбранной пары кандидатов и итоговая оценка MOS
+ */
+export class CallQualityMonitor {
+  private getConnection: () => RTCPeerConnection | undefined
+  private onStats: (stats: CallQualityStats | null) => void
+  private timer: NodeJS.Timeout | null = null
+  private previous: StatsSnapshot | null = null
+  private poorSamples = 0
+
+  constructor(
+    getConnection: () => RTCPeerConnection | undefined,
+    onStats: (stats: CallQualityStats | null) => void
+  ) {
+    this.getConnection = getConnection
+    this.onStats = onStats
+  }
+
+  start() {
+    if (this.timer) return
+
+    logger.log('📶 Call quality monitor started')
+    this.timer = setInterval(() => {
+      this.collect().catch(err => logger.warn('Failed to collect call stats:', err))
+    }, STATS_INTERVAL_MS)
+  }
+
+  // Соединение сменилось (например, вернулись к звонку с удержания) - счетчики начинаются заново
+  reset() {
+    this.previous = null
+    this.poorSamples = 0
+  }
+
+  stop() {
+    if (!this.timer) return
+
+    clearInterval(this.timer)
+    this.timer = null
+    this.reset()
+    this.onStats(null)
+    logger.log('📶 Call quality monitor stopped')
+  }
+
+  private async collect() {
+    const pc = this.getConnection()
+    if (!pc || pc.connectionState === 'closed') return
+
+    const report = await pc.getStats()
+
+    let rtt: number | null = null
+    let jitter: number | null = null
+    let candidateType: RTCIceCandidateType | null = null
+    let localCandidateId: string | null = null
+    const snapshot: StatsSnapshot = {
+      timestamp: Date.now(),
+      bytesReceived: 0,
+      bytesSent: 0,
+      packetsReceived: 0,
+      packetsLost: 0,
+    }
+
+    for (const stat of Array.from(report.values())) {
+      if (stat.type === 'transport' && stat.selectedCandidatePairId) {
+        const pair = report.get(stat.selectedCandidatePairId)
+        if (pair) {
+          rtt = pair.currentRoundTripTime !== undefined ? pair.currentRoundTripTime * 1000 : rtt
+          localCandidateId = pair.localCandidateId
+        }
+      }
+
+      // Firefox не отдает transport - берем номинированную успешную пару
+      if (stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded' && !localCandidateId) {
+        rtt = stat.currentRoundTripTime !== undefined ? stat.currentRoundTripTime * 1000 : rtt
+        localCandidateId = stat.localCandidateId
+      }
+
+      if (stat.type === 'inbound-rtp') {
+        snapshot.bytesReceived += stat.bytesReceived || 0
+        snapshot.packetsReceived += stat.packetsReceived || 0
+        snapshot.packetsLost += Math.max(0, stat.packetsLost || 0)
+        // Джиттер считаем по аудио - именно он определяет разборчивость речи
+        if (stat.kind === 'audio' && stat.jitter !== undefined) {
+          jitter = stat.jitter * 1000
+        }
+      }
+
+      if (stat.type === 'outbound-rtp') {
+        snapshot.bytesSent += stat.bytesSent || 0
+      }
+    }
+
+    if (localCandidateId) {
+      candidateType = report.get(localCandidateId)?.candidateType || null
+    }
+
+    const previous = this.previous
+    this.previous = snapshot
+
+    // Битрейт и потери считаются по разнице с предыдущим замером
+    if (!previous) return
+
+    const seconds = (snapshot.timestamp - previous.timestamp) / 1000
+    const received = snapshot.packetsReceived - previous.packetsReceived
+    const lost = snapshot.packetsLost - previous.packetsLost
+    const packetLoss = received + lost > 0 ? Math.max(0, lost) / (received + lost) * 100 : 0
+
+    const mos = calculateMos(rtt ?? 0, jitter ?? 0, packetLoss)
+    const level = getQualityLevel(mos)
+
+    this.poorSamples = level === 'poor' ? this.poorSamples + 1 : 0
+    if (this.poorSamples === DEGRADED_SAMPLES) {
+      logger.warn(`📶 Call quality degraded: MOS ${mos}, RTT ${Math.round(rtt ?? 0)} ms, loss ${packetLoss.toFixed(1)}%`)
+    }
+
+    this.onStats({
+      rtt,
+      jitter,
+      packetLoss: Math.round(packetLoss * 10) / 10,
+      inboundBitrate: seconds > 0 ? Math.round((snapshot.bytesReceived - previous.bytesReceived) * 8 / seconds / 1000) : 0,
+      outboundBitrate: seconds > 0 ? Math.round((snapshot.bytesSent - previous.bytesSent) * 8 / seconds / 1000) : 0,
+      candidateType,
+      mos,
+      bars: getBars(mos),
+      level,
+      degraded: this.poorSamples >= DEGRADED_SAMPLES,
+    })
+  }
+}
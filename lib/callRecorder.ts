@@ -0,0 +1,105 @@
+import { logger } from '@/lib/logger'
+
+// WebM/Opus поддерживают Chrome и Firefox; Safari записывает только в mp4
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4']
+
+// Как часто MediaRecorder отдает накопленные данные (чтобы при сбое не потерять всю запись)
+const CHUNK_INTERVAL_MS = 1000
+
+const getRecordingMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null
+  return RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || null
+}
+
+export const isRecordingSupported = (): boolean =>
+  typeof AudioContext !== 'undefined' && getRecordingMimeType() !== null
+
+/**
+ * Запись звонка: звук всех переданных потоков (наш микрофон и собеседник)
+ * сводится в один через AudioContext и пишется MediaRecorder'ом
+ */
+export class CallRecorder {
+  private audioContext: AudioContext | null = null
+  private destination: MediaStreamAudioDestinationNode | null = null
+  private recorder: MediaRecorder | null = null
+  private sources = new Map<string, MediaStreamAudioSourceNode>()
+  private chunks: Blob[] = []
+  private startedAt = 0
+
+  get isRecording(): boolean {
+    return this.recorder?.state === 'recording'
+  }
+
+  start(streams: MediaStream[]) {
+    if (this.recorder) return
+
+    const mimeType = getRecordingMimeType()
+    if (!mimeType) {
+      throw new Error('MediaRecorder is not supported')
+    }
+
+    this.audioContext = new AudioContext()
+    this.destination = this.audioContext.createMediaStreamDestination()
+    streams.forEach(stream => this.addStream(stream))
+
+    this.chunks = []
+    this.recorder = new MediaRecorder(this.destination.stream, { mimeType })
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data)
+      }
+    }
+    this.recorder.start(CHUNK_INTERVAL_MS)
+    this.startedAt = Date.now()
+
+    logger.log(`⏺️ Call recording started (${mimeType}, ${this.sources.size} sources)`)
+  }
+
+  // Подключение потока к записи (например, после смены микрофона или прихода потока собеседника)
+  addStream(stream: MediaStream) {
+    if (!this.audioContext || !this.destination) return
+
+    const track = stream.getAudioTracks()[0]
+    if (!track || this.sources.has(track.id)) return
+
+    const source = this.audioContext.createMediaStreamSource(new MediaStream([track]))
+    source.connect(this.destination)
+    this.sources.set(track.id, source)
+  }
+
+  // Остановка записи; возвращает файл и длительность или null, если записать ничего не успели
+  stop(): Promise<{ blob: Blob, duration: number } | null> {
+    const recorder = this.recorder
+    if (!recorder) return Promise.resolve(null)
+
+    const duration = Math.round((Date.now() - this.startedAt) / 1000)
+
+    return new Promise(resolve => {
+      const finish = () => {
+        const blob = new Blob(this.chunks, { type: recorder.mimeType })
+        this.release()
+        logger.log(`⏹️ Call recording stopped: ${duration}s, ${Math.round(blob.size / 1024)} KB`)
+        resolve(blob.size > 0 ? { blob, duration } : null)
+      }
+
+      if (recorder.state === 'inactive') {
+        finish()
+        return
+      }
+      recorder.onstop = finish
+      recorder.stop()
+    })
+  }
+
+  private release() {
+    this.sources.forEach(source => source.disconnect())
+    this.sources.clear()
+    if (this.audioContext && this.audioContext.state !== 'closed') {
+      this.audioContext.close()
+    }
+    this.audioContext = null
+    this.destination = null
+    this.recorder = null
+    this.chunks = []
+  }
+}
@@ -0,0 +1,36 @@
+import { createClient } from '@/lib/supabase/client'
+import { CallEndReason, CallMediaKind, ChatMessage } from '@/lib/types'
+import { createCallRecord, markCallAnswered, finishCallRecord, saveCallMessage } from '@/lib/callHistory'
+
+/**
+ * Все, что WebRTCService берет из Supabase: пользователь сессии, звуки звонка и история звонков.
+ * Передается в конструктор сервиса - вместе с loopback транспортом сценарий звонка работает без Supabase
+ */
+export interface CallServices {
+  // ID пользователя текущей сессии (null - не авторизован)
+  getCurrentUserId(): Promise<string | null>
+
+  // Публичная ссылка на звук из bucket sounds (null - звука нет)
+  getSoundUrl(fileName: string): string | null
+
+  createCallRecord(callId: string, callerId: string, calleeId: string, media: CallMediaKind): Promise<void>
+  markCallAnswered(callId: string): Promise<void>
+  finishCallRecord(callId: string, reason: CallEndReason): Promise<void>
+  saveCallMessage(callId: string, message: ChatMessage): Promise<void>
+}
+
+export const createSupabaseCallServices = (): CallServices => {
+  const supabase = createClient()
+
+  return {
+    getCurrentUserId: async () => {
+      const { data: { user } } = await supabase.auth.getUser()
+      return user?.id ?? null
+    },
+    getSoundUrl: (fileName) => supabase.storage.from('sounds').getPublicUrl(fileName).data.publicUrl || null,
+    createCallRecord,
+    markCallAnswered,
+    finishCallRecord,
+    saveCallMessage,
+  }
+}
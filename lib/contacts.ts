@@ -0,0 +1,143 @@
+import { createClient } from '@/lib/supabase/client'
+import { Contact, ContactRequest, CallPrivacy } from '@/lib/types'
+import { logger } from '@/lib/logger'
+import { isUuid } from '@/lib/signaling/validation'
+import { requestJson } from '@/lib/apiClient'
+
+/**
+ * Контакты пользователя и запросы в контакты хранятся на сервере (таблицы contacts и contact_requests,
+ * API /api/contacts и /api/contact-requests) и синхронизируются между вкладками и устройствами через Supabase Realtime
+ */
+
+const supabase = createClient()
+
+export const CALL_PRIVACY_OPTIONS: Record<CallPrivacy, { label: string, description: string }> = {
+  everyone: {
+    label: 'Все',
+    description: 'Профиль виден всем пользователям, позвонить может любой',
+  },
+  contacts: {
+    label: 'Только контакты',
+    description: 'Профиль и звонки доступны только вашим контактам. Остальные могут прислать запрос в контакты',
+  },
+  nobody: {
+    label: 'Никто',
+    description: 'Входящие звонки не принимаются, профиль видят только ваши контакты',
+  },
+}
+
+// Ключ, в котором список контактов хранился до переноса на сервер
+const LEGACY_CONTACTS_KEY = 'audioCallContacts'
+
+export const fetchContacts = async (): Promise<Contact[]> => {
+  const { contacts } = await requestJson<{ contacts: Contact[] }>('/api/contacts')
+  return contacts
+}
+
+export const renameContact = async (contactId: string, nickname: string | null): Promise<Contact> => {
+  const { contact } = await requestJson<{ contact: Contact }>(`/api/contacts/${contactId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ nickname }),
+  })
+  return contact
+}
+
+export const removeContact = async (contactId: string) => {
+  await requestJson(`/api/contacts/${contactId}`, { method: 'DELETE' })
+}
+
+// Перенос контактов из localStorage при первом входе после обновления: каждому из них отправляется запрос
+// в контакты. Ошибки по отдельным пользователям (удален, заблокировал нас, запрос уже есть) пропускаются
+export const migrateLocalContacts = async () => {
+  const saved = localStorage.getItem(LEGACY_CONTACTS_KEY)
+  if (!saved) return
+
+  let contactIds: unknown
+  try {
+    contactIds = JSON.parse(saved)
+  } catch (err) {
+    logger.warn('Dropping unreadable local contacts:', err)
+    localStorage.removeItem(LEGACY_CONTACTS_KEY)
+    return
+  }
+
+  if (Array.isArray(contactIds) && contactIds.length > 0) {
+    const results = await Promise.allSettled(contactIds.filter(isUuid).map(sendContactRequest))
+    const sent = results.filter(result => result.status === 'fulfilled').length
+    logger.log(`📇 Sent ${sent} contact requests for contacts from localStorage`)
+  }
+  localStorage.removeItem(LEGACY_CONTACTS_KEY)
+}
+
+// Подписка на изменения своего списка (добавление, переименование, удаление в другой вкладке или на другом устройстве)
+export const subscribeToContacts = (userId: string, onChange: () => void) => {
+  const channel = supabase
+    .channel(`contacts:${userId}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'contacts',
+      filter: `owner_id=eq.${userId}`
+    }, onChange)
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+export const fetchContactRequests = async (): Promise<{ incoming: ContactRequest[], outgoing: ContactRequest[] }> =>
+  requestJson('/api/contact-requests')
+
+// null - запрос не понадобился (мы уже в контактах собеседника или приняли его встречный запрос)
+export const sendContactRequest = async (toUserId: string): Promise<ContactRequest | null> => {
+  const { request: contactRequest } = await requestJson<{ request: ContactRequest | null }>('/api/contact-requests', {
+    method: 'POST',
+    body: JSON.stringify({ toUserId }),
+  })
+  return contactRequest
+}
+
+export const respondToContactRequest = async (requestId: string, accept: boolean) => {
+  await requestJson(`/api/contact-requests/${requestId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ action: accept ? 'accept' : 'decline' }),
+  })
+}
+
+export const cancelContactRequest = async (requestId: string) => {
+  await requestJson(`/api/contact-requests/${requestId}`, { method: 'DELETE' })
+}
+
+// Входящие и исходящие запросы: новые, принятые и отклоненные на любой из сторон
+export const subscribeToContactRequests = (userId: string, onChange: () => void) => {
+  const channel = supabase
+    .channel(`contact_requests:${userId}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'contact_requests',
+      filter: `to_user=eq.${userId}`
+    }, onChange)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'contact_requests',
+      filter: `from_user=eq.${userId}`
+    }, onChange)
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+// Настройка хранится в профиле: по ней RLS решает, кому виден профиль
+export const updateCallPrivacy = async (userId: string, privacy: CallPrivacy) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ call_privacy: privacy })
+    .eq('id', userId)
+
+  if (error) throw error
+}
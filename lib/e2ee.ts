@@ -0,0 +1,177 @@
+import { E2eeState, E2eeStatus, SasSymbol } from '@/lib/types'
+import { logger } from '@/lib/logger'
+
+// Chrome до поддержки RTCRtpScriptTransform дает кадры через нестандартный createEncodedStreams()
+interface EncodedStreams {
+  readable: ReadableStream
+  writable: WritableStream
+}
+
+interface LegacyEncodedTransform {
+  createEncodedStreams?: () => EncodedStreams
+}
+
+type TransformDirection = 'encrypt' | 'decrypt'
+
+// Код проверки: 5 символов по 6 бит из хеша открытых ключей обеих сторон (30 бит)
+const SAS_LENGTH = 5
+
+const SAS_SYMBOLS: SasSymbol[] = [
+  { emoji: '🐶', word: 'собака' }, { emoji: '🐱', word: 'кошка' }, { emoji: '🦁', word: 'лев' }, { emoji: '🐴', word: 'лошадь' },
+  { emoji: '🦄', word: 'единорог' }, { emoji: '🐷', word: 'свинья' }, { emoji: '🐘', word: 'слон' }, { emoji: '🐰', word: 'кролик' },
+  { emoji: '🐼', word: 'панда' }, { emoji: '🐓', word: 'петух' }, { emoji: '🐧', word: 'пингвин' }, { emoji: '🐢', word: 'черепаха' },
+  { emoji: '🐟', word: 'рыба' }, { emoji: '🐙', word: 'осьминог' }, { emoji: '🦋', word: 'бабочка' }, { emoji: '🌷', word: 'тюльпан' },
+  { emoji: '🌳', word: 'дерево' }, { emoji: '🌵', word: 'кактус' }, { emoji: '🍄', word: 'гриб' }, { emoji: '🌏', word: 'глобус' },
+  { emoji: '🌙', word: 'луна' }, { emoji: '☁️', word: 'облако' }, { emoji: '🔥', word: 'огонь' }, { emoji: '🍌', word: 'банан' },
+  { emoji: '🍎', word: 'яблоко' }, { emoji: '🍓', word: 'клубника' }, { emoji: '🌽', word: 'кукуруза' }, { emoji: '🍕', word: 'пицца' },
+  { emoji: '🎂', word: 'торт' }, { emoji: '❤️', word: 'сердце' }, { emoji: '🙂', word: 'улыбка' }, { emoji: '🤖', word: 'робот' },
+  { emoji: '🎩', word: 'шляпа' }, { emoji: '👓', word: 'очки' }, { emoji: '🔨', word: 'молоток' }, { emoji: '🎅', word: 'дед мороз' },
+  { emoji: '👍', word: 'лайк' }, { emoji: '☂️', word: 'зонт' }, { emoji: '⌛', word: 'песочные часы' }, { emoji: '⏰', word: 'будильник' },
+  { emoji: '🎁', word: 'подарок' }, { emoji: '💡', word: 'лампочка' }, { emoji: '📕', word: 'книга' }, { emoji: '✏️', word: 'карандаш' },
+  { emoji: '📎', word: 'скрепка' }, { emoji: '✂️', word: 'ножницы' }, { emoji: '🔒', word: 'замок' }, { emoji: '🔑', word: 'ключ' },
+  { emoji: '☎️', word: 'телефон' }, { emoji: '🏁', word: 'флаг' }, { emoji: '🚂', word: 'поезд' }, { emoji: '🚲', word: 'велосипед' },
+  { emoji: '✈️', word: 'самолет' }, { emoji: '🚀', word: 'ракета' }, { emoji: '🏆', word: 'кубок' }, { emoji: '⚽', word: 'мяч' },
+  { emoji: '🎸', word: 'гитара' }, { emoji: '🎺', word: 'труба' }, { emoji: '🔔', word: 'колокол' }, { emoji: '⚓', word: 'якорь' },
+  { emoji: '🎧', word: 'наушники' }, { emoji: '📁', word: 'папка' }, { emoji: '📌', word: 'кнопка' }, { emoji: '⭐', word: 'звезда' },
+]
+
+const ECDH_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' }
+
+const encoder = new TextEncoder()
+
+const hasScriptTransform = () => typeof RTCRtpScriptTransform !== 'undefined'
+
+const hasEncodedStreams = () =>
+  typeof RTCRtpSender !== 'undefined' && 'createEncodedStreams' in RTCRtpSender.prototype
+
+export const isE2eeSupported = (): boolean =>
+  typeof Worker !== 'undefined' && typeof crypto?.subtle !== 'undefined' && (hasScriptTransform() || hasEncodedStreams())
+
+// Для createEncodedStreams() соединение нужно создавать с флагом encodedInsertableStreams
+export const needsEncodedInsertableStreams = (): boolean => !hasScriptTransform() && hasEncodedStreams()
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)))
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0))
+
+// Код зависит только от открытых ключей, поэтому у обеих сторон он совпадает, если ключи не подменили по пути
+const computeSas = async (localPublicKey: string, remotePublicKey: string): Promise<SasSymbol[]> => {
+  const keys = [localPublicKey, remotePublicKey].sort().join(':')
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(keys)))
+  return Array.from(digest.subarray(0, SAS_LENGTH), byte => SAS_SYMBOLS[byte % SAS_SYMBOLS.length])
+}
+
+/**
+ * Сквозное шифрование медиа одного соединения: обмен открытыми ключами ECDH по data channel,
+ * ключи AES-GCM для каждого направления через HKDF и шифрование кадров в worker
+ */
+export class E2eeSession {
+  private localUserId: string
+  private remoteUserId: string
+  private onChange: (status: E2eeStatus) => void
+  private keyPair: CryptoKeyPair | null = null
+  private publicKey = ''
+  private worker: Worker | null = null
+  // Отправители и получатели, к которым уже подключено шифрование
+  private transformed = new WeakSet<RTCRtpSender | RTCRtpReceiver>()
+  private status: E2eeStatus = { state: 'negotiating', sas: null }
+
+  constructor(localUserId: string, remoteUserId: string, onChange: (status: E2eeStatus) => void) {
+    this.localUserId = localUserId
+    this.remoteUserId = remoteUserId
+    this.onChange = onChange
+  }
+
+  get currentStatus(): E2eeStatus {
+    return this.status
+  }
+
+  get localPublicKey(): string {
+    return this.publicKey
+  }
+
+  // Ключи генерируются до создания соединения, чтобы отправить открытый ключ сразу после connect
+  async init() {
+    this.keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, false, ['deriveBits']) as CryptoKeyPair
+    this.publicKey = toBase64(await crypto.subtle.exportKey('raw', this.keyPair.publicKey))
+
+    this.worker = new Worker(new URL('./e2eeWorker.ts', import.meta.url), { type: 'module' })
+    this.worker.onmessage = ({ data }) => {
+      if (data?.operation === 'decryptError') {
+        logger.warn('🔐 Failed to decrypt media frame from', this.remoteUserId.slice(0, 8))
+      }
+    }
+    this.setState('negotiating')
+  }
+
+  // Подключение шифрования ко всем отправителям и получателям соединения (в том числе добавленным позже)
+  attach(pc: RTCPeerConnection) {
+    pc.getSenders().forEach(sender => this.attachTransform(sender, 'encrypt'))
+    pc.getReceivers().forEach(receiver => this.attachTransform(receiver, 'decrypt'))
+  }
+
+  attachTransform(target: RTCRtpSender | RTCRtpReceiver, direction: TransformDirection) {
+    if (!this.worker || this.transformed.has(target)) return
+    this.transformed.add(target)
+
+    try {
+      if (hasScriptTransform()) {
+        target.transform = new RTCRtpScriptTransform(this.worker, { direction })
+        return
+      }
+
+      const { readable, writable } = (target as LegacyEncodedTransform).createEncodedStreams!()
+      this.worker.postMessage({ operation: 'transform', direction, readable, writable }, [readable, writable])
+    } catch (err) {
+      logger.error(`🔐 Failed to attach ${direction} transform:`, err)
+    }
+  }
+
+  // Открытый ключ собеседника пришел по data channel - выводим ключи шифрования и код проверки
+  async setRemoteKey(remotePublicKey: string) {
+    if (!this.keyPair || !this.worker || this.status.state !== 'negotiating') return
+
+    try {
+      const remoteKey = await crypto.subtle.importKey('raw', fromBase64(remotePublicKey), ECDH_PARAMS, false, [])
+      const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: remoteKey }, this.keyPair.privateKey, 256)
+      const baseKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey'])
+
+      // Отдельный ключ на каждое направление: info содержит ID отправителя
+      const deriveFor = (senderId: string) => crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: encoder.encode(`zvonochek-e2ee:${senderId}`) },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      )
+      const [encryptKey, decryptKey] = await Promise.all([deriveFor(this.localUserId), deriveFor(this.remoteUserId)])
+      const sas = await computeSas(this.publicKey, remotePublicKey)
+
+      this.worker.postMessage({ operation: 'keys', encryptKey, decryptKey })
+      logger.log(`🔐 E2EE keys established with ${this.remoteUserId.slice(0, 8)}`)
+      this.status = { state: 'active', sas }
+      this.onChange(this.status)
+    } catch (err) {
+      logger.error('🔐 Failed to derive E2EE keys:', err)
+    }
+  }
+
+  // Собеседник не поддерживает шифрование: кадры пропускаются без изменений
+  disable() {
+    if (this.status.state === 'unavailable') return
+    logger.warn(`🔐 ${this.remoteUserId.slice(0, 8)} does not support E2EE, media is not end-to-end encrypted`)
+    this.worker?.postMessage({ operation: 'passthrough' })
+    this.setState('unavailable')
+  }
+
+  close() {
+    this.worker?.terminate()
+    this.worker = null
+    this.keyPair = null
+  }
+
+  private setState(state: E2eeState) {
+    this.status = { state, sas: null }
+    this.onChange(this.status)
+  }
+}
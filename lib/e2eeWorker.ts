@@ -0,0 +1,138 @@
+// Worker сквозного шифрования: шифрует исходящие и расшифровывает входящие кадры (AES-GCM).
+// Кадры приходят через RTCRtpScriptTransform (событие rtctransform) или, в Chrome без него,
+// через потоки createEncodedStreams(), переданные из основного потока
+
+type EncodedFrame = RTCEncodedAudioFrame | RTCEncodedVideoFrame
+type TransformDirection = 'encrypt' | 'decrypt'
+
+interface TransformOptions {
+  direction: TransformDirection
+}
+
+interface RTCRtpScriptTransformer {
+  readable: ReadableStream<EncodedFrame>
+  writable: WritableStream<EncodedFrame>
+  options: TransformOptions
+}
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent) => void) | null
+  onrtctransform: ((event: { transformer: RTCRtpScriptTransformer }) => void) | null
+  postMessage(message: unknown): void
+}
+
+type WorkerMessage =
+  | { operation: 'keys', encryptKey: CryptoKey, decryptKey: CryptoKey }
+  | { operation: 'passthrough' }
+  | { operation: 'transform', direction: TransformDirection, readable: ReadableStream<EncodedFrame>, writable: WritableStream<EncodedFrame> }
+
+const scope = self as unknown as WorkerScope
+
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+// Начало кадра остается открытым, чтобы упаковщик RTP и декодер разобрали заголовок VP8 и Opus
+const UNENCRYPTED_BYTES = { key: 10, delta: 3, audio: 1 }
+
+let encryptKey: CryptoKey | null = null
+let decryptKey: CryptoKey | null = null
+// Собеседник не поддерживает шифрование - кадры идут как есть
+let passthrough = false
+let decryptErrorReported = false
+
+const getHeaderSize = (frame: EncodedFrame) => {
+  if (!('type' in frame)) return UNENCRYPTED_BYTES.audio
+  return frame.type === 'key' ? UNENCRYPTED_BYTES.key : UNENCRYPTED_BYTES.delta
+}
+
+const encryptFrame = async (frame: EncodedFrame, controller: TransformStreamDefaultController<EncodedFrame>) => {
+  if (passthrough || frame.data.byteLength === 0) {
+    controller.enqueue(frame)
+    return
+  }
+  // Пока нет ключа, кадры не отправляем совсем - открытый звук не должен уйти собеседнику
+  if (!encryptKey) return
+
+  const data = new Uint8Array(frame.data)
+  const headerSize = Math.min(getHeaderSize(frame), data.byteLength)
+  const header = data.subarray(0, headerSize)
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: header },
+    encryptKey,
+    data.subarray(headerSize)
+  )
+
+  // [открытый заголовок][шифртекст + тег][IV]
+  const output = new Uint8Array(headerSize + encrypted.byteLength + IV_LENGTH)
+  output.set(header)
+  output.set(new Uint8Array(encrypted), headerSize)
+  output.set(iv, headerSize + encrypted.byteLength)
+  frame.data = output.buffer
+  controller.enqueue(frame)
+}
+
+const decryptFrame = async (frame: EncodedFrame, controller: TransformStreamDefaultController<EncodedFrame>) => {
+  if (passthrough || frame.data.byteLength === 0) {
+    controller.enqueue(frame)
+    return
+  }
+  if (!decryptKey) return
+
+  const data = new Uint8Array(frame.data)
+  const headerSize = getHeaderSize(frame)
+  if (data.byteLength < headerSize + TAG_LENGTH + IV_LENGTH) return
+
+  const header = data.subarray(0, headerSize)
+  const iv = data.subarray(data.byteLength - IV_LENGTH)
+
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: header },
+      decryptKey,
+      data.subarray(headerSize, data.byteLength - IV_LENGTH)
+    )
+    const output = new Uint8Array(headerSize + decrypted.byteLength)
+    output.set(header)
+    output.set(new Uint8Array(decrypted), headerSize)
+    frame.data = output.buffer
+    controller.enqueue(frame)
+  } catch {
+    // Чужой или поврежденный кадр отбрасываем; сообщаем один раз, чтобы не засыпать основной поток
+    if (!decryptErrorReported) {
+      decryptErrorReported = true
+      scope.postMessage({ operation: 'decryptError' })
+    }
+  }
+}
+
+const setupTransform = (direction: TransformDirection, readable: ReadableStream<EncodedFrame>, writable: WritableStream<EncodedFrame>) => {
+  const transform = direction === 'encrypt' ? encryptFrame : decryptFrame
+  readable
+    .pipeThrough(new TransformStream<EncodedFrame, EncodedFrame>({ transform }))
+    .pipeTo(writable)
+    .catch(() => {
+      // Поток закрывается вместе с соединением
+    })
+}
+
+scope.onrtctransform = ({ transformer }) => {
+  setupTransform(transformer.options.direction, transformer.readable, transformer.writable)
+}
+
+scope.onmessage = ({ data }: MessageEvent<WorkerMessage>) => {
+  switch (data.operation) {
+    case 'keys':
+      encryptKey = data.encryptKey
+      decryptKey = data.decryptKey
+      decryptErrorReported = false
+      return
+    case 'passthrough':
+      passthrough = true
+      return
+    case 'transform':
+      setupTransform(data.direction, data.readable, data.writable)
+      return
+  }
+}
@@ -0,0 +1,482 @@
+import { FileTransfer, FileTransferStatus } from '@/lib/types'
+import { logger } from '@/lib/logger'
+
+// Файлы идут по отдельному data channel, чтобы не задерживать чат и статусы.
+// Канал negotiated: обе стороны создают его сами с одинаковым id, поэтому
+// ondatachannel SimplePeer (которым он принимает основной канал) его не перехватывает
+const FILE_CHANNEL_LABEL = 'file-transfer'
+const FILE_CHANNEL_ID = 100
+
+// 16 КБ - размер сообщения, который без проблем проходит между всеми браузерами
+const CHUNK_SIZE = 16 * 1024
+
+// Backpressure: при заполнении буфера канала ждем bufferedamountlow
+const BUFFER_HIGH_WATERMARK = 4 * 1024 * 1024
+const BUFFER_LOW_WATERMARK = 1024 * 1024
+
+// Заголовок бинарного чанка: номер передачи (uint32) и смещение в файле (float64)
+const CHUNK_HEADER_SIZE = 12
+
+// Как часто обновлять прогресс в интерфейсе
+const PROGRESS_INTERVAL_MS = 200
+
+// Файл целиком держится в памяти у получателя (и читается целиком для хеша)
+export const MAX_FILE_SIZE = 100 * 1024 * 1024
+
+type FileControlMessage =
+  | { type: 'offer', id: string, number: number, name: string, size: number, mimeType: string, hash: string }
+  // Согласие и продолжение после переподключения: получатель называет, с какого байта слать
+  | { type: 'accept', id: string, offset: number }
+  | { type: 'decline', id: string }
+  | { type: 'cancel', id: string }
+  // Результат проверки хеша у получателя
+  | { type: 'verified', id: string, ok: boolean }
+
+interface OutgoingTransfer {
+  info: FileTransfer
+  file: File
+  number: number
+  offset: number
+  sending: boolean
+}
+
+interface IncomingTransfer {
+  info: FileTransfer
+  number: number
+  hash: string
+  chunks: ArrayBuffer[]
+  resumeRequested: boolean
+}
+
+const FINISHED_STATUSES: FileTransferStatus[] = ['completed', 'declined', 'cancelled', 'failed']
+
+const isFinished = (transfer: { info: FileTransfer }) => FINISHED_STATUSES.includes(transfer.info.status)
+
+export const sha256Hex = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const parseControlMessage = (data: string): FileControlMessage | null => {
+  try {
+    const message = JSON.parse(data)
+    if (typeof message !== 'object' || message === null || typeof message.id !== 'string') return null
+
+    switch (message.type) {
+      case 'offer':
+        if (typeof message.number !== 'number' || typeof message.name !== 'string' || typeof message.size !== 'number' ||
+          typeof message.hash !== 'string') return null
+        return {
+          type: 'offer',
+          id: message.id,
+          number: message.number,
+          name: message.name.slice(0, 255),
+          size: message.size,
+          mimeType: typeof message.mimeType === 'string' ? message.mimeType : '',
+          hash: message.hash,
+        }
+      case 'accept':
+        return typeof message.offset === 'number' ? { type: 'accept', id: message.id, offset: message.offset } : null
+      case 'decline':
+      case 'cancel':
+        return { type: message.type, id: message.id }
+      case 'verified':
+        return { type: 'verified', id: message.id, ok: !!message.ok }
+      default:
+        return null
+    }
+  } catch {
+    return null
+  }
+}
+
+// Ожидание освобождения буфера канала (или его закрытия)
+const waitForDrain = (channel: RTCDataChannel) => new Promise<void>(resolve => {
+  const done = () => {
+    channel.removeEventListener('bufferedamountlow', done)
+    channel.removeEventListener('close', done)
+    resolve()
+  }
+  channel.addEventListener('bufferedamountlow', done)
+  channel.addEventListener('close', done)
+})
+
+/**
+ * Передача файлов собеседнику по data channel: предложение с хешем SHA-256,
+ * отправка чанками с учетом bufferedAmount, проверка хеша у получателя
+ * и продолжение с последнего полученного байта после переподключения канала
+ */
+export class FileTransferManager {
+  private channel: RTCDataChannel | null = null
+  // Канал принадлежит соединению: при возвращении звонка с удержания берем уже созданный
+  private channels = new WeakMap<RTCPeerConnection, RTCDataChannel>()
+  private outgoing = new Map<string, OutgoingTransfer>()
+  private incoming = new Map<string, IncomingTransfer>()
+  private incomingByNumber = new Map<number, IncomingTransfer>()
+  private nextNumber = 1
+  private lastProgressAt = 0
+  private onChange: (transfers: FileTransfer[]) => void
+
+  constructor(onChange: (transfers: FileTransfer[]) => void) {
+    this.onChange = onChange
+  }
+
+  get isReady(): boolean {
+    return this.channel?.readyState === 'open'
+  }
+
+  // Подключение к соединению собеседника. Повторный вызов после восстановления ICE
+  // пересоздает закрывшийся канал - незавершенные передачи продолжатся, когда он откроется
+  attach(pc: RTCPeerConnection) {
+    if (pc.connectionState === 'closed') return
+
+    let channel = this.channels.get(pc)
+    if (!channel || channel.readyState === 'closing' || channel.readyState === 'closed') {
+      try {
+        channel = pc.createDataChannel(FILE_CHANNEL_LABEL, { negotiated: true, id: FILE_CHANNEL_ID, ordered: true })
+      } catch (err) {
+        logger.warn('📁 Failed to create file channel:', err)
+        return
+      }
+      channel.binaryType = 'arraybuffer'
+      channel.bufferedAmountLowThreshold = BUFFER_LOW_WATERMARK
+      this.channels.set(pc, channel)
+    }
+
+    if (channel === this.channel) return
+    this.bindChannel(channel)
+  }
+
+  // Отключение при завершении звонка или смене собеседника: незавершенные передачи отменяются.
+  // Сам канал не закрываем - закрытие negotiated канала закрыло бы его и у собеседника
+  detach() {
+    this.outgoing.forEach(transfer => {
+      if (!isFinished(transfer)) this.sendControl({ type: 'cancel', id: transfer.info.id })
+    })
+    this.incoming.forEach(transfer => {
+      if (!isFinished(transfer)) this.sendControl({ type: 'cancel', id: transfer.info.id })
+      if (transfer.info.url) URL.revokeObjectURL(transfer.info.url)
+    })
+
+    this.channel = null
+    this.outgoing.clear()
+    this.incoming.clear()
+    this.incomingByNumber.clear()
+    this.emit(true)
+  }
+
+  async sendFile(file: File): Promise<FileTransfer> {
+    if (file.size === 0) {
+      throw new Error('Файл пустой')
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      throw new Error(`Файл больше ${MAX_FILE_SIZE / 1024 / 1024} МБ`)
+    }
+    if (!this.isReady) {
+      throw new Error('Канал передачи файлов еще не готов')
+    }
+
+    const hash = await sha256Hex(await file.arrayBuffer())
+    const transfer: OutgoingTransfer = {
+      info: {
+        id: crypto.randomUUID(),
+        direction: 'outgoing',
+        name: file.name,
+        size: file.size,
+        mimeType: file.type,
+        transferred: 0,
+        status: 'offered',
+        createdAt: Date.now(),
+      },
+      file,
+      number: this.nextNumber++,
+      offset: 0,
+      sending: false,
+    }
+
+    this.outgoing.set(transfer.info.id, transfer)
+    this.sendControl({
+      type: 'offer',
+      id: transfer.info.id,
+      number: transfer.number,
+      name: file.name,
+      size: file.size,
+      mimeType: file.type,
+      hash,
+    })
+    logger.log(`📁 Offering file ${file.name} (${file.size} bytes)`)
+    this.emit(true)
+    return transfer.info
+  }
+
+  accept(id: string) {
+    const transfer = this.incoming.get(id)
+    if (!transfer || transfer.info.status !== 'offered') return
+
+    this.incomingByNumber.set(transfer.number, transfer)
+    this.update(transfer, { status: 'transferring' })
+    this.sendControl({ type: 'accept', id, offset: 0 })
+  }
+
+  decline(id: string) {
+    const transfer = this.incoming.get(id)
+    if (!transfer || transfer.info.status !== 'offered') return
+
+    this.update(transfer, { status: 'declined' })
+    this.sendControl({ type: 'decline', id })
+  }
+
+  cancel(id: string) {
+    const transfer = this.outgoing.get(id) || this.incoming.get(id)
+    if (!transfer || isFinished(transfer)) return
+
+    this.sendControl({ type: 'cancel', id })
+    this.finishTransfer(transfer, 'cancelled')
+  }
+
+  private bindChannel(channel: RTCDataChannel) {
+    this.channel = channel
+
+    channel.onopen = () => {
+      if (channel === this.channel) this.resumeTransfers()
+    }
+    channel.onclose = () => {
+      if (channel === this.channel) this.pauseTransfers()
+    }
+    channel.onmessage = (event) => {
+      if (channel !== this.channel) return
+      if (typeof event.data === 'string') {
+        const message = parseControlMessage(event.data)
+        if (message) {
+          this.handleControl(message)
+        } else {
+          logger.warn('Dropping malformed file channel message')
+        }
+      } else if (event.data instanceof ArrayBuffer) {
+        this.handleChunk(event.data)
+      }
+    }
+
+    if (channel.readyState === 'open') {
+      this.resumeTransfers()
+    }
+  }
+
+  private handleControl(message: FileControlMessage) {
+    switch (message.type) {
+      case 'offer': {
+        if (this.incoming.has(message.id)) return
+        const transfer: IncomingTransfer = {
+          info: {
+            id: message.id,
+            direction: 'incoming',
+            name: message.name,
+            size: message.size,
+            mimeType: message.mimeType,
+            transferred: 0,
+            status: 'offered',
+            createdAt: Date.now(),
+          },
+          number: message.number,
+          hash: message.hash,
+          chunks: [],
+          resumeRequested: false,
+        }
+        this.incoming.set(message.id, transfer)
+
+        if (message.size <= 0 || message.size > MAX_FILE_SIZE) {
+          this.update(transfer, { status: 'declined', error: 'Слишком большой файл' })
+          this.sendControl({ type: 'decline', id: message.id })
+          return
+        }
+        logger.log(`📁 Incoming file offer ${message.name} (${message.size} bytes)`)
+        this.emit(true)
+        return
+      }
+      case 'accept': {
+        const transfer = this.outgoing.get(message.id)
+        if (!transfer || isFinished(transfer)) return
+        // Получатель мог переподключиться - продолжаем с того, что до него дошло
+        transfer.offset = Math.min(Math.max(0, message.offset), transfer.file.size)
+        this.update(transfer, { status: 'transferring', transferred: transfer.offset })
+        this.pump(transfer)
+        return
+      }
+      case 'decline': {
+        const transfer = this.outgoing.get(message.id)
+        if (transfer && !isFinished(transfer)) this.finishTransfer(transfer, 'declined')
+        return
+      }
+      case 'cancel': {
+        const transfer = this.outgoing.get(message.id) || this.incoming.get(message.id)
+        if (transfer && !isFinished(transfer)) this.finishTransfer(transfer, 'cancelled')
+        return
+      }
+      case 'verified': {
+        const transfer = this.outgoing.get(message.id)
+        if (!transfer || isFinished(transfer)) return
+        if (message.ok) {
+          logger.log(`📁 File ${transfer.info.name} delivered`)
+          this.finishTransfer(transfer, 'completed')
+        } else {
+          this.finishTransfer(transfer, 'failed', 'Файл поврежден при передаче')
+        }
+        return
+      }
+    }
+  }
+
+  // Отправка чанков, пока есть что слать, канал открыт и буфер не переполнен
+  private async pump(transfer: OutgoingTransfer) {
+    if (transfer.sending) return
+    transfer.sending = true
+
+    try {
+      while (transfer.info.status === 'transferring' && transfer.offset < transfer.file.size) {
+        const channel = this.channel
+        if (!channel || channel.readyState !== 'open') break
+
+        if (channel.bufferedAmount > BUFFER_HIGH_WATERMARK) {
+          await waitForDrain(channel)
+          continue
+        }
+
+        const offset = transfer.offset
+        const chunk = await transfer.file.slice(offset, offset + CHUNK_SIZE).arrayBuffer()
+        // Пока читали файл, передачу могли отменить или переставить на другое смещение
+        if (transfer.info.status !== 'transferring' || transfer.offset !== offset || channel !== this.channel) continue
+
+        const packet = new Uint8Array(CHUNK_HEADER_SIZE + chunk.byteLength)
+        const view = new DataView(packet.buffer)
+        view.setUint32(0, transfer.number)
+        view.setFloat64(4, offset)
+        packet.set(new Uint8Array(chunk), CHUNK_HEADER_SIZE)
+        channel.send(packet)
+
+        transfer.offset = offset + chunk.byteLength
+        this.update(transfer, { transferred: transfer.offset }, false)
+      }
+
+      // Все отправлено - ждем результата проверки хеша
+      if (transfer.info.status === 'transferring' && transfer.offset >= transfer.file.size) {
+        this.update(transfer, { status: 'verifying' })
+      }
+    } catch (err) {
+      logger.error('📁 File send failed:', err)
+      this.sendControl({ type: 'cancel', id: transfer.info.id })
+      this.finishTransfer(transfer, 'failed', 'Не удалось прочитать файл')
+    } finally {
+      transfer.sending = false
+    }
+  }
+
+  private handleChunk(data: ArrayBuffer) {
+    if (data.byteLength < CHUNK_HEADER_SIZE) return
+
+    const view = new DataView(data)
+    const transfer = this.incomingByNumber.get(view.getUint32(0))
+    if (!transfer || transfer.info.status !== 'transferring') return
+
+    const offset = view.getFloat64(4)
+    const received = transfer.info.transferred
+
+    // Повтор уже полученных данных после переподключения
+    if (offset < received) return
+    // Пропуск данных: просим продолжить с последнего полученного байта (один раз, до прихода нужного чанка)
+    if (offset > received) {
+      if (!transfer.resumeRequested) {
+        transfer.resumeRequested = true
+        this.sendControl({ type: 'accept', id: transfer.info.id, offset: received })
+      }
+      return
+    }
+
+    transfer.resumeRequested = false
+    const chunk = data.slice(CHUNK_HEADER_SIZE)
+    transfer.chunks.push(chunk)
+    const transferred = received + chunk.byteLength
+
+    if (transferred >= transfer.info.size) {
+      this.update(transfer, { transferred, status: 'verifying' })
+      this.verify(transfer)
+    } else {
+      this.update(transfer, { transferred }, false)
+    }
+  }
+
+  private async verify(transfer: IncomingTransfer) {
+    const blob = new Blob(transfer.chunks, { type: transfer.info.mimeType || 'application/octet-stream' })
+    transfer.chunks = []
+
+    let ok = false
+    try {
+      ok = blob.size === transfer.info.size && await sha256Hex(await blob.arrayBuffer()) === transfer.hash
+    } catch (err) {
+      logger.error('📁 File hash check failed:', err)
+    }
+    if (transfer.info.status !== 'verifying') return
+
+    this.sendControl({ type: 'verified', id: transfer.info.id, ok })
+    if (ok) {
+      logger.log(`📁 File ${transfer.info.name} received`)
+      this.update(transfer, { status: 'completed', url: URL.createObjectURL(blob) })
+    } else {
+      logger.warn(`📁 File ${transfer.info.name} hash mismatch`)
+      this.finishTransfer(transfer, 'failed', 'Файл поврежден при передаче')
+    }
+  }
+
+  // Канал снова открыт: получатель сообщает, сколько уже получил, и отправитель продолжает с этого места
+  private resumeTransfers() {
+    this.incoming.forEach(transfer => {
+      if (transfer.info.status !== 'transferring' && transfer.info.status !== 'paused') return
+      logger.log(`📁 Resuming ${transfer.info.name} from ${transfer.info.transferred} bytes`)
+      transfer.resumeRequested = true
+      this.update(transfer, { status: 'transferring' })
+      this.sendControl({ type: 'accept', id: transfer.info.id, offset: transfer.info.transferred })
+    })
+  }
+
+  private pauseTransfers() {
+    const pause = (transfer: OutgoingTransfer | IncomingTransfer) => {
+      if (transfer.info.status === 'transferring') this.update(transfer, { status: 'paused' })
+    }
+    this.outgoing.forEach(pause)
+    this.incoming.forEach(pause)
+  }
+
+  private finishTransfer(transfer: OutgoingTransfer | IncomingTransfer, status: FileTransferStatus, error?: string) {
+    if ('chunks' in transfer) {
+      transfer.chunks = []
+      this.incomingByNumber.delete(transfer.number)
+    }
+    this.update(transfer, { status, error })
+  }
+
+  private update(transfer: OutgoingTransfer | IncomingTransfer, changes: Partial<FileTransfer>, force = true) {
+    transfer.info = { ...transfer.info, ...changes }
+    this.emit(force)
+  }
+
+  private emit(force: boolean) {
+    const now = Date.now()
+    if (!force && now - this.lastProgressAt < PROGRESS_INTERVAL_MS) return
+    this.lastProgressAt = now
+
+    const transfers = [...this.outgoing.values(), ...this.incoming.values()]
+      .map(transfer => transfer.info)
+      .sort((a, b) => a.createdAt - b.createdAt)
+    this.onChange(transfers)
+  }
+
+  private sendControl(message: FileControlMessage) {
+    if (this.channel?.readyState !== 'open') return false
+    try {
+      this.channel.send(JSON.stringify(message))
+      return true
+    } catch (err) {
+      logger.warn('📁 Failed to send file channel message:', err)
+      return false
+    }
+  }
+}
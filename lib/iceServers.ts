@@ -0,0 +1,56 @@
+import { logger } from '@/lib/logger'
+
+// STUN по умолчанию - если /api/ice-servers недоступен, звонки идут как раньше
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+]
+
+// Обновляем учетные данные заранее, чтобы они не истекли посреди установки соединения
+const REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+interface IceServersResponse {
+  iceServers: RTCIceServer[]
+  ttl: number
+  expiresAt: number
+}
+
+let cached: IceServersResponse | null = null
+let pending: Promise<RTCIceServer[]> | null = null
+
+export const hasTurnServer = (servers: RTCIceServer[]) =>
+  servers.some(server => [server.urls].flat().some(url => /^turns?:/.test(url)))
+
+// ICE серверы с временными TURN-учетными данными (кэшируются до истечения срока)
+export const fetchIceServers = async (): Promise<RTCIceServer[]> => {
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return cached.iceServers
+  }
+
+  if (pending) return pending
+
+  pending = (async () => {
+    try {
+      const response = await fetch('/api/ice-servers')
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      const data: IceServersResponse = await response.json()
+      cached = data
+      logger.log(`🧊 ICE servers loaded: ${data.iceServers.length} entries, TURN ${hasTurnServer(data.iceServers) ? 'available' : 'not configured'}`)
+      return data.iceServers
+    } catch (error) {
+      logger.warn('Failed to load ICE servers, using default STUN:', error)
+      return DEFAULT_ICE_SERVERS
+    } finally {
+      pending = null
+    }
+  })()
+
+  return pending
+}
+
+export const clearIceServersCache = () => {
+  cached = null
+}
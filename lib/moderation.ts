@@ -0,0 +1,38 @@
+import { AbuseReportReason, BlockedUser } from '@/lib/types'
+import { requestJson } from '@/lib/apiClient'
+
+/**
+ * Блокировки и жалобы на пользователей (таблицы blocks и abuse_reports, API /api/blocks и /api/reports)
+ */
+
+export const ABUSE_REPORT_REASON_LABELS: Record<AbuseReportReason, string> = {
+  spam: 'Спам или навязчивые звонки',
+  harassment: 'Оскорбления или угрозы',
+  inappropriate: 'Неприемлемый контент в звонке',
+  other: 'Другое',
+}
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000
+
+export const fetchBlockedUsers = async (): Promise<BlockedUser[]> => {
+  const { blocks } = await requestJson<{ blocks: BlockedUser[] }>('/api/blocks')
+  return blocks
+}
+
+export const blockUser = async (userId: string) => {
+  await requestJson('/api/blocks', {
+    method: 'POST',
+    body: JSON.stringify({ userId }),
+  })
+}
+
+export const unblockUser = async (userId: string) => {
+  await requestJson(`/api/blocks/${userId}`, { method: 'DELETE' })
+}
+
+export const reportUser = async (userId: string, reason: AbuseReportReason, details: string, callId?: string | null) => {
+  await requestJson('/api/reports', {
+    method: 'POST',
+    body: JSON.stringify({ reportedId: userId, reason, details: details || undefined, callId: callId || undefined }),
+  })
+}
@@ -0,0 +1,54 @@
+import { logger } from '@/lib/logger'
+
+/**
+ * Сообщения по data channel SimplePeer (peer.send): чат звонка и частые статусы,
+ * которым не нужна сигнализация через Supabase
+ */
+export type PeerDataMessage =
+  | { type: 'chat', id: string, text: string, sentAt: number }
+  | { type: 'chat_ack', id: string }
+  | { type: 'typing', active: boolean }
+  | { type: 'mute_status', muted: boolean }
+  | { type: 'voice_activity', active: boolean }
+  | { type: 'keep_alive' }
+  // Открытый ключ ECDH для сквозного шифрования (base64)
+  | { type: 'e2ee_key', publicKey: string }
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000
+
+const decoder = new TextDecoder()
+
+export const encodePeerData = (message: PeerDataMessage): string => JSON.stringify(message)
+
+// Разбор входящего сообщения; неизвестные и поврежденные сообщения отбрасываются
+export const parsePeerData = (data: unknown): PeerDataMessage | null => {
+  let message: Record<string, unknown>
+  try {
+    const text = typeof data === 'string' ? data : decoder.decode(data as Uint8Array)
+    message = JSON.parse(text)
+  } catch {
+    logger.warn('Dropping malformed data channel message')
+    return null
+  }
+
+  if (typeof message !== 'object' || message === null) return null
+
+  switch (message.type) {
+    case 'chat':
+      if (typeof message.id !== 'string' || typeof message.text !== 'string' || typeof message.sentAt !== 'number') return null
+      return { type: 'chat', id: message.id, text: message.text.slice(0, MAX_CHAT_MESSAGE_LENGTH), sentAt: message.sentAt }
+    case 'chat_ack':
+      return typeof message.id === 'string' ? { type: 'chat_ack', id: message.id } : null
+    case 'typing':
+    case 'voice_activity':
+      return { type: message.type, active: !!message.active }
+    case 'mute_status':
+      return { type: 'mute_status', muted: !!message.muted }
+    case 'keep_alive':
+      return { type: 'keep_alive' }
+    case 'e2ee_key':
+      return typeof message.publicKey === 'string' ? { type: 'e2ee_key', publicKey: message.publicKey } : null
+    default:
+      return null
+  }
+}
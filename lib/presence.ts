@@ -0,0 +1,252 @@
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { PresenceMode, PresenceStatus, UserPresence } from '@/lib/types'
+import { logger } from '@/lib/logger'
+
+/**
+ * Присутствие пользователей через Supabase Realtime Presence: у каждого пользователя свой приватный
+ * канал presence:<userId>. Публиковать в него может только владелец, а подписаться - только те, кто есть
+ * в его контактах и не заблокирован (политики realtime.messages). Выбранный режим и текст статуса
+ * хранятся в профиле (presence_mode, status_text)
+ */
+
+const supabase = createClient()
+
+const presenceTopic = (userId: string) => `presence:${userId}`
+
+// Без активности в течение 5 минут статус меняется на "Отошел"
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'] as const
+
+export const MAX_STATUS_TEXT_LENGTH = 80
+
+export const PRESENCE_STATUS_STYLES: Record<PresenceStatus, { label: string, dot: string, ring: string, avatar: string }> = {
+  online: { label: 'Онлайн', dot: 'bg-green-400', ring: 'ring-2 ring-green-400', avatar: 'bg-green-500/20' },
+  away: { label: 'Отошел', dot: 'bg-yellow-400', ring: 'ring-2 ring-yellow-400', avatar: 'bg-yellow-500/20' },
+  busy: { label: 'В звонке', dot: 'bg-[#C3073F]', ring: 'ring-2 ring-[#C3073F]', avatar: 'bg-[#C3073F]/20' },
+  dnd: { label: 'Не беспокоить', dot: 'bg-red-500', ring: 'ring-2 ring-red-500', avatar: 'bg-red-500/20' },
+  offline: { label: 'Оффлайн', dot: 'bg-gray-400', ring: '', avatar: 'bg-gray-500/20' },
+}
+
+export const PRESENCE_MODE_OPTIONS: Record<PresenceMode, { label: string, description: string }> = {
+  auto: {
+    label: 'Автоматически',
+    description: 'Онлайн, "Отошел" после 5 минут без активности и "В звонке" во время разговора',
+  },
+  dnd: {
+    label: 'Не беспокоить',
+    description: 'Собеседники видят, что вы заняты',
+  },
+  invisible: {
+    label: 'Невидимка',
+    description: 'Для остальных вы не в сети, но звонки по-прежнему приходят',
+  },
+}
+
+export const OFFLINE_PRESENCE: UserPresence = { status: 'offline', statusText: null }
+
+const isPresenceStatus = (value: unknown): value is PresenceStatus =>
+  typeof value === 'string' && Object.keys(PRESENCE_STATUS_STYLES).includes(value)
+
+// Состояние, которое публикует одна вкладка
+interface TrackedPresence {
+  status: PresenceStatus
+  statusText: string | null
+  updatedAt: number
+}
+
+// Приоритет статусов при объединении нескольких вкладок
+const STATUS_PRIORITY: Record<PresenceStatus, number> = {
+  dnd: 4,
+  busy: 3,
+  online: 2,
+  away: 1,
+  offline: 0,
+}
+
+export const getPresence = (presence: Record<string, UserPresence>, userId: string): UserPresence =>
+  presence[userId] ?? OFFLINE_PRESENCE
+
+export const savePresencePreferences = async (userId: string, mode: PresenceMode, statusText: string | null) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ presence_mode: mode, status_text: statusText })
+    .eq('id', userId)
+
+  if (error) throw error
+}
+
+export class PresenceTracker {
+  private userId: string
+  private onChange: (presence: Record<string, UserPresence>) => void
+  // Собственный канал: в него публикуется статус этой вкладки
+  private channel: RealtimeChannel | null = null
+  private subscribed = false
+  // Каналы контактов, статус которых показываем
+  private watched = new Map<string, RealtimeChannel>()
+  private mode: PresenceMode = 'auto'
+  private statusText: string | null = null
+  private inCall = false
+  private idle = false
+  private lastActivityAt = Date.now()
+  private idleTimer: NodeJS.Timeout | null = null
+
+  constructor(userId: string, onChange: (presence: Record<string, UserPresence>) => void) {
+    this.userId = userId
+    this.onChange = onChange
+  }
+
+  get currentStatus(): PresenceStatus {
+    if (this.mode === 'invisible') return 'offline'
+    if (this.mode === 'dnd') return 'dnd'
+    if (this.inCall) return 'busy'
+    return this.idle ? 'away' : 'online'
+  }
+
+  start() {
+    if (this.channel) return
+
+    this.channel = supabase.channel(presenceTopic(this.userId), {
+      config: { private: true, presence: { key: this.userId } }
+    })
+    this.channel
+      .on('presence', { event: 'sync' }, () => this.emit())
+      .subscribe((status) => {
+        // SUBSCRIBED приходит и после переподключения - состояние вкладки нужно опубликовать заново
+        this.subscribed = status === 'SUBSCRIBED'
+        if (this.subscribed) {
+          logger.log('👥 Presence channel subscribed')
+          this.publish()
+        }
+      })
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.handleActivity, { passive: true }))
+    this.idleTimer = setInterval(this.checkIdle, IDLE_CHECK_INTERVAL_MS)
+  }
+
+  stop() {
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.handleActivity))
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer)
+      this.idleTimer = null
+    }
+
+    if (this.channel) {
+      const channel = this.channel
+      channel.untrack()
+        .catch(err => logger.warn('👥 Failed to untrack presence:', err))
+        .finally(() => supabase.removeChannel(channel))
+      this.channel = null
+    }
+    this.subscribed = false
+
+    this.watched.forEach(channel => supabase.removeChannel(channel))
+    this.watched.clear()
+  }
+
+  // Подписка на статусы контактов. Сервер пускает в канал, только если мы есть в контактах его владельца
+  // и не заблокированы, поэтому для остальных пользователей статус не показывается
+  watch(userIds: string[]) {
+    const next = new Set(userIds.filter(userId => userId !== this.userId))
+
+    this.watched.forEach((channel, userId) => {
+      if (next.has(userId)) return
+      supabase.removeChannel(channel)
+      this.watched.delete(userId)
+    })
+
+    next.forEach(userId => {
+      if (this.watched.has(userId)) return
+      const channel = supabase.channel(presenceTopic(userId), { config: { private: true } })
+      channel
+        .on('presence', { event: 'sync' }, () => this.emit())
+        .subscribe((status, err) => {
+          if (status === 'CHANNEL_ERROR') {
+            logger.warn(`👥 No access to presence of ${userId.slice(0, 8)}:`, err?.message)
+          }
+        })
+      this.watched.set(userId, channel)
+    })
+
+    this.emit()
+  }
+
+  setPreferences(mode: PresenceMode, statusText: string | null) {
+    if (this.mode === mode && this.statusText === statusText) return
+    this.mode = mode
+    this.statusText = statusText
+    this.publish()
+  }
+
+  setInCall(inCall: boolean) {
+    if (this.inCall === inCall) return
+    this.inCall = inCall
+    this.publish()
+  }
+
+  private handleActivity = () => {
+    this.lastActivityAt = Date.now()
+    if (this.idle) {
+      this.idle = false
+      this.publish()
+    }
+  }
+
+  private checkIdle = () => {
+    if (this.idle || Date.now() - this.lastActivityAt < IDLE_TIMEOUT_MS) return
+    this.idle = true
+    this.publish()
+  }
+
+  private async publish() {
+    if (!this.channel || !this.subscribed) return
+
+    const status = this.currentStatus
+    try {
+      // Невидимка не публикует ничего: для остальных пользователь просто не в сети
+      if (status === 'offline') {
+        await this.channel.untrack()
+        return
+      }
+
+      const payload: TrackedPresence = { status, statusText: this.statusText, updatedAt: Date.now() }
+      await this.channel.track(payload)
+    } catch (err) {
+      logger.error('👥 Failed to publish presence:', err)
+    }
+  }
+
+  // Статус владельца канала по всем его вкладкам. Ключи присутствия не учитываются:
+  // публиковать в канал может только владелец, поэтому все записи принадлежат ему
+  private readChannel(channel: RealtimeChannel): UserPresence | null {
+    const tabs = Object.values(channel.presenceState<TrackedPresence>())
+      .flat()
+      .filter(tab => isPresenceStatus(tab.status))
+    if (tabs.length === 0) return null
+
+    // Если открыто несколько вкладок, показываем самый "занятой" статус
+    const status = tabs.reduce((best, tab) =>
+      STATUS_PRIORITY[tab.status] > STATUS_PRIORITY[best] ? tab.status : best, tabs[0].status)
+    // Текст статуса берем из последнего обновления (во всех вкладках он одинаковый, если профиль синхронизирован)
+    const latest = tabs.reduce((last, tab) => tab.updatedAt > last.updatedAt ? tab : last)
+    const statusText = typeof latest.statusText === 'string' ? latest.statusText.slice(0, MAX_STATUS_TEXT_LENGTH) : null
+
+    return { status, statusText }
+  }
+
+  private emit() {
+    const presence: Record<string, UserPresence> = {}
+    const channels: Array<[string, RealtimeChannel | null]> = [[this.userId, this.channel], ...this.watched]
+
+    channels.forEach(([userId, channel]) => {
+      const userPresence = channel && this.readChannel(channel)
+      if (userPresence) {
+        presence[userId] = userPresence
+      }
+    })
+
+    this.onChange(presence)
+  }
+}
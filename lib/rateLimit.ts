@@ -0,0 +1,42 @@
+/**
+ * Простой ограничитель частоты запросов (скользящее окно в памяти процесса)
+ * В нескольких инстансах сервера лимит считается для каждого отдельно
+ */
+
+interface RateLimitOptions {
+  limit: number // Сколько запросов разрешено за окно
+  windowMs: number
+}
+
+interface RateLimitResult {
+  allowed: boolean
+  retryAfterMs: number
+}
+
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions) => {
+  const hits: Map<string, number[]> = new Map()
+
+  const check = (key: string): RateLimitResult => {
+    const now = Date.now()
+    const recent = (hits.get(key) || []).filter(time => now - time < windowMs)
+
+    if (recent.length >= limit) {
+      hits.set(key, recent)
+      return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) }
+    }
+
+    recent.push(now)
+    hits.set(key, recent)
+
+    // Периодически убираем ключи без активности, чтобы Map не рос бесконечно
+    if (hits.size > 10000) {
+      hits.forEach((times, k) => {
+        if (times.every(time => now - time >= windowMs)) hits.delete(k)
+      })
+    }
+
+    return { allowed: true, retryAfterMs: 0 }
+  }
+
+  return { check }
+}
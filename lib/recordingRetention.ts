@@ -0,0 +1,61 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { logger } from '@/lib/logger'
+
+// Срок хранения записей в bucket recordings; 0 - хранить без ограничения
+const DEFAULT_RETENTION_DAYS = 30
+
+// За один проход удаляем ограниченное число файлов, остальные - при следующем запуске
+const PURGE_BATCH_SIZE = 100
+
+export const RECORDINGS_BUCKET = 'recordings'
+
+export const getRecordingRetentionDays = (): number => {
+  const days = Number(process.env.NEXT_PUBLIC_RECORDING_RETENTION_DAYS ?? DEFAULT_RETENTION_DAYS)
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS
+}
+
+// Когда запись будет удалена (null - срок хранения не ограничен)
+export const getRecordingExpiry = (createdAt: string): Date | null => {
+  const days = getRecordingRetentionDays()
+  if (!days) return null
+  return new Date(new Date(createdAt).getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Удаление записей старше срока хранения: сначала файлы из storage, затем строки call_recordings.
+ * С клиентом пользователя RLS ограничивает удаление своими записями, с service role - все записи
+ */
+export const purgeExpiredRecordings = async (supabase: SupabaseClient, ownerId?: string): Promise<number> => {
+  const days = getRecordingRetentionDays()
+  if (!days) return 0
+
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+  let query = supabase
+    .from('call_recordings')
+    .select('id, storage_path')
+    .lt('created_at', cutoff)
+    .limit(PURGE_BATCH_SIZE)
+
+  if (ownerId) {
+    query = query.eq('owner_id', ownerId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  if (!data?.length) return 0
+
+  const { error: storageError } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .remove(data.map(recording => recording.storage_path))
+  if (storageError) throw storageError
+
+  const { error: deleteError } = await supabase
+    .from('call_recordings')
+    .delete()
+    .in('id', data.map(recording => recording.id))
+  if (deleteError) throw deleteError
+
+  logger.log(`🗑️ Purged ${data.length} recordings older than ${days} days`)
+  return data.length
+}
@@ -0,0 +1,112 @@
+import { createClient } from '@/lib/supabase/client'
+import { CallRecording, StoredRecording } from '@/lib/types'
+import { logger } from '@/lib/logger'
+import { RECORDINGS_BUCKET, purgeExpiredRecordings } from '@/lib/recordingRetention'
+
+/**
+ * Хранение записей звонков в приватном bucket recordings.
+ * Файлы доступны только владельцу - для воспроизведения выдаются временные ссылки
+ */
+
+const supabase = createClient()
+
+// Срок действия ссылки на файл записи
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+// Загрузка записи в папку пользователя и привязка к звонку из истории
+export const uploadCallRecording = async (userId: string, recording: CallRecording): Promise<StoredRecording> => {
+  const id = crypto.randomUUID()
+  const extension = recording.fileName.split('.').pop() || 'webm'
+  const storagePath = `${userId}/${id}.${extension}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .upload(storagePath, recording.blob, { contentType: recording.blob.type })
+
+  if (uploadError) {
+    logger.error('Failed to upload call recording:', uploadError)
+    throw uploadError
+  }
+
+  const { data, error } = await supabase
+    .from('call_recordings')
+    .insert({
+      id,
+      owner_id: userId,
+      call_id: recording.callId,
+      peer_id: recording.peerUserId,
+      storage_path: storagePath,
+      mime_type: recording.blob.type,
+      duration: recording.duration,
+      size_bytes: recording.blob.size,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    logger.error('Failed to save call recording:', error)
+    // Файл без строки в таблице не увидит ни страница записей, ни очистка по сроку
+    await supabase.storage.from(RECORDINGS_BUCKET).remove([storagePath])
+    throw error
+  }
+
+  logger.log(`☁️ Call recording uploaded: ${storagePath}`)
+  return data as StoredRecording
+}
+
+// Записи пользователя вместе с данными звонка; устаревшие записи удаляются перед загрузкой списка
+export const fetchRecordings = async (userId: string): Promise<StoredRecording[]> => {
+  try {
+    await purgeExpiredRecordings(supabase, userId)
+  } catch (err) {
+    logger.warn('Failed to purge expired recordings:', err)
+  }
+
+  const { data, error } = await supabase
+    .from('call_recordings')
+    .select('id, owner_id, call_id, peer_id, storage_path, mime_type, duration, size_bytes, created_at, calls(started_at, media)')
+    .eq('owner_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    logger.error('Error loading recordings:', error)
+    throw error
+  }
+
+  return (data || []) as unknown as StoredRecording[]
+}
+
+// Временная ссылка на файл; с download браузер сохранит файл вместо воспроизведения
+export const getRecordingUrl = async (recording: StoredRecording, download?: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .createSignedUrl(recording.storage_path, SIGNED_URL_TTL_SECONDS, download ? { download } : undefined)
+
+  if (error) {
+    logger.error('Failed to create recording URL:', error)
+    throw error
+  }
+
+  return data.signedUrl
+}
+
+export const deleteRecording = async (recording: StoredRecording) => {
+  const { error: storageError } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .remove([recording.storage_path])
+
+  if (storageError) {
+    logger.error('Failed to delete recording file:', storageError)
+    throw storageError
+  }
+
+  const { error } = await supabase
+    .from('call_recordings')
+    .delete()
+    .eq('id', recording.id)
+
+  if (error) {
+    logger.error('Failed to delete recording:', error)
+    throw error
+  }
+}
@@ -0,0 +1,97 @@
+import { CallSignal } from '@/lib/types'
+import { logger } from '@/lib/logger'
+import { SignalingTransport, SignalHandler } from './types'
+
+// Интервал опроса очереди сигналов
+const DEFAULT_POLL_INTERVAL_MS = 1000
+
+/**
+ * Сигнализация через HTTP: отправка POST /api/signal/queue, получение - периодический GET
+ * Работает там, где websocket-соединения заблокированы
+ */
+export class HttpPollingSignalingTransport implements SignalingTransport {
+  readonly kind = 'http-polling' as const
+
+  private endpoint: string
+  private pollIntervalMs: number
+  private userId = ''
+  private onSignal: SignalHandler | null = null
+  private pollTimer: NodeJS.Timeout | null = null
+  private cursor = 0
+  private isPolling = false
+
+  constructor(options: { endpoint?: string, pollIntervalMs?: number } = {}) {
+    this.endpoint = options.endpoint || '/api/signal/queue'
+    this.pollIntervalMs = options.pollIntervalMs || DEFAULT_POLL_INTERVAL_MS
+  }
+
+  async connect(userId: string, onSignal: SignalHandler) {
+    if (this.pollTimer) {
+      logger.log(`📺 [User ${userId.slice(0, 8)}] HTTP polling already started`)
+      return
+    }
+
+    this.userId = userId
+    this.onSignal = onSignal
+    this.pollTimer = setInterval(() => this.poll(), this.pollIntervalMs)
+    await this.poll()
+
+    logger.log(`📺 [User ${userId.slice(0, 8)}] HTTP polling signaling started`)
+  }
+
+  private async poll() {
+    // Не запускаем новый запрос, пока не завершился предыдущий
+    if (this.isPolling || !this.onSignal) return
+    this.isPolling = true
+
+    try {
+      const response = await fetch(`${this.endpoint}?after=${this.cursor}`)
+
+      if (!response.ok) {
+        logger.warn(`HTTP polling failed: ${response.status}`)
+        return
+      }
+
+      const { signals, cursor } = await response.json() as { signals: CallSignal[], cursor: number }
+      this.cursor = cursor
+
+      signals.forEach(signal => {
+        logger.log(`📡 [User ${this.userId.slice(0, 8)}] Received polled signal from ${signal.from.slice(0, 8)}:`, signal.type)
+        this.onSignal?.(signal)
+      })
+    } catch (error) {
+      logger.warn('HTTP polling error:', error)
+    } finally {
+      this.isPolling = false
+    }
+  }
+
+  async send(signal: CallSignal) {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(signal)
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP signal send failed: ${await response.text()}`)
+    }
+
+    logger.log('✅ Signal sent via HTTP queue')
+  }
+
+  async disconnect() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+    this.onSignal = null
+    this.cursor = 0
+  }
+
+  isConnected() {
+    return !!this.pollTimer
+  }
+}
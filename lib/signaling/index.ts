@@ -0,0 +1,39 @@
+import { logger } from '@/lib/logger'
+import { SignalingTransport, SignalingTransportKind } from './types'
+import { SupabaseSignalingTransport } from './supabaseTransport'
+import { HttpPollingSignalingTransport } from './httpPollingTransport'
+import { WebSocketSignalingTransport } from './websocketTransport'
+import { LoopbackSignalingTransport } from './loopbackTransport'
+
+export type { SignalingTransport, SignalingTransportKind, SignalHandler } from './types'
+export { SupabaseSignalingTransport } from './supabaseTransport'
+export { HttpPollingSignalingTransport } from './httpPollingTransport'
+export { WebSocketSignalingTransport } from './websocketTransport'
+export { LoopbackSignalingTransport, LoopbackSignalingHub, defaultLoopbackHub } from './loopbackTransport'
+export { SignalReliability } from './reliability'
+
+// Транспорт выбирается переменной NEXT_PUBLIC_SIGNALING_TRANSPORT (по умолчанию - Supabase Realtime)
+export const createSignalingTransport = (
+  kind: string | undefined = process.env.NEXT_PUBLIC_SIGNALING_TRANSPORT
+): SignalingTransport => {
+  switch (kind as SignalingTransportKind | undefined) {
+    case 'http-polling':
+      return new HttpPollingSignalingTransport()
+    case 'websocket': {
+      const url = process.env.NEXT_PUBLIC_SIGNALING_WS_URL
+      if (!url) {
+        logger.warn('NEXT_PUBLIC_SIGNALING_WS_URL is not set, falling back to Supabase signaling')
+        return new SupabaseSignalingTransport()
+      }
+      return new WebSocketSignalingTransport(url)
+    }
+    case 'loopback':
+      return new LoopbackSignalingTransport()
+    case 'supabase':
+    case undefined:
+      return new SupabaseSignalingTransport()
+    default:
+      logger.warn(`Unknown signaling transport "${kind}", using Supabase`)
+      return new SupabaseSignalingTransport()
+  }
+}
@@ -0,0 +1,67 @@
+import { CallSignal } from '@/lib/types'
+import { logger } from '@/lib/logger'
+import { SignalingTransport, SignalHandler } from './types'
+
+/**
+ * "Сеть" для loopback транспорта: все транспорты одного хаба видят друг друга
+ * Позволяет прогнать весь сценарий звонка в одном процессе без Supabase
+ */
+export class LoopbackSignalingHub {
+  private handlers: Map<string, SignalHandler> = new Map()
+
+  register(userId: string, handler: SignalHandler) {
+    this.handlers.set(userId, handler)
+  }
+
+  unregister(userId: string) {
+    this.handlers.delete(userId)
+  }
+
+  deliver(signal: CallSignal): boolean {
+    const handler = this.handlers.get(signal.to)
+    if (!handler) return false
+
+    // Асинхронная доставка, как в настоящей сети - сигнал не обрабатывается внутри send()
+    // Копия защищает от изменения объекта отправителем после отправки
+    const copy = JSON.parse(JSON.stringify(signal)) as CallSignal
+    setTimeout(() => handler(copy), 0)
+    return true
+  }
+}
+
+// Общий хаб по умолчанию (для нескольких WebRTCService в одной вкладке)
+export const defaultLoopbackHub = new LoopbackSignalingHub()
+
+export class LoopbackSignalingTransport implements SignalingTransport {
+  readonly kind = 'loopback' as const
+
+  private hub: LoopbackSignalingHub
+  private userId: string | null = null
+
+  constructor(hub: LoopbackSignalingHub = defaultLoopbackHub) {
+    this.hub = hub
+  }
+
+  async connect(userId: string, onSignal: SignalHandler) {
+    this.userId = userId
+    this.hub.register(userId, onSignal)
+    logger.log(`📺 [User ${userId.slice(0, 8)}] Loopback signaling connected`)
+  }
+
+  async send(signal: CallSignal) {
+    if (!this.hub.deliver(signal)) {
+      logger.warn(`Loopback: no recipient ${signal.to.slice(0, 8)} for ${signal.type}`)
+    }
+  }
+
+  async disconnect() {
+    if (this.userId) {
+      this.hub.unregister(this.userId)
+      this.userId = null
+    }
+  }
+
+  isConnected() {
+    return !!this.userId
+  }
+}
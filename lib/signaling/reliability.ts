@@ -0,0 +1,119 @@
+import { CallSignal, CallSignalType } from '@/lib/types'
+import { logger } from '@/lib/logger'
+
+// Первая повторная отправка через 1 с, дальше интервал удваивается
+const RETRANSMIT_BASE_DELAY_MS = 1000
+const MAX_RETRANSMITS = 4
+
+// Сколько помнить полученные ID сообщений для отбрасывания дублей
+const SEEN_MESSAGES_LIMIT = 1000
+
+// Частые служебные сигналы не подтверждаются: потеря одного из них ни на что не влияет
+export const UNRELIABLE_SIGNAL_TYPES: CallSignalType[] = ['ack', 'keep_alive', 'voice_activity']
+
+interface PendingSignal {
+  signal: CallSignal
+  attempts: number
+  timer: NodeJS.Timeout
+}
+
+/**
+ * Надежная доставка сигналов поверх любого транспорта:
+ * конверт (messageId, seq, sentAt), подтверждения, повторная отправка с backoff и отбрасывание дублей
+ */
+export class SignalReliability {
+  private nextSeq: Map<string, number> = new Map()
+  private lastSeq: Map<string, number> = new Map()
+  private pending: Map<string, PendingSignal> = new Map()
+  private seen: Set<string> = new Set()
+
+  needsAck(signal: CallSignal): boolean {
+    return !!signal.messageId && !UNRELIABLE_SIGNAL_TYPES.includes(signal.type)
+  }
+
+  // Добавление конверта к исходящему сигналу (порядковый номер ведется отдельно для каждого получателя)
+  stamp(signal: CallSignal): CallSignal {
+    const seq = (this.nextSeq.get(signal.to) || 0) + 1
+    this.nextSeq.set(signal.to, seq)
+
+    return {
+      ...signal,
+      messageId: crypto.randomUUID(),
+      seq,
+      sentAt: Date.now(),
+    }
+  }
+
+  // Ожидание подтверждения; без него сигнал отправляется повторно
+  track(signal: CallSignal, resend: (signal: CallSignal) => Promise<void>) {
+    if (!this.needsAck(signal)) return
+
+    const messageId = signal.messageId!
+    const schedule = (attempts: number) => {
+      const delay = RETRANSMIT_BASE_DELAY_MS * 2 ** attempts
+      const timer = setTimeout(async () => {
+        if (!this.pending.has(messageId)) return
+
+        if (attempts >= MAX_RETRANSMITS) {
+          logger.warn(`📨 Signal ${signal.type} ${messageId.slice(0, 8)} to ${signal.to.slice(0, 8)} was not acknowledged after ${attempts} retransmits`)
+          this.pending.delete(messageId)
+          return
+        }
+
+        logger.log(`📨 Retransmitting ${signal.type} ${messageId.slice(0, 8)} (attempt ${attempts + 1})`)
+        try {
+          await resend(signal)
+        } catch (err) {
+          logger.warn('Retransmit failed:', err)
+        }
+        schedule(attempts + 1)
+      }, delay)
+
+      this.pending.set(messageId, { signal, attempts, timer })
+    }
+
+    schedule(0)
+  }
+
+  handleAck(ackId: string) {
+    const pending = this.pending.get(ackId)
+    if (!pending) return
+
+    clearTimeout(pending.timer)
+    this.pending.delete(ackId)
+    logger.log(`📨 Signal ${pending.signal.type} ${ackId.slice(0, 8)} acknowledged in ${Date.now() - (pending.signal.sentAt || 0)} ms`)
+  }
+
+  // true - сигнал уже обрабатывался (повторная доставка)
+  isDuplicate(signal: CallSignal): boolean {
+    if (!signal.messageId) return false
+
+    if (this.seen.has(signal.messageId)) {
+      return true
+    }
+
+    this.seen.add(signal.messageId)
+    if (this.seen.size > SEEN_MESSAGES_LIMIT) {
+      // Set хранит порядок добавления - удаляем самый старый ID
+      const oldest = this.seen.values().next().value
+      if (oldest) this.seen.delete(oldest)
+    }
+
+    // Порядковые номера только для диагностики: сигналы могут обгонять друг друга
+    if (signal.seq !== undefined) {
+      const lastSeq = this.lastSeq.get(signal.from) || 0
+      if (signal.seq < lastSeq) {
+        logger.log(`📨 Out-of-order ${signal.type} from ${signal.from.slice(0, 8)}: seq ${signal.seq} after ${lastSeq}`)
+      } else {
+        this.lastSeq.set(signal.from, signal.seq)
+      }
+    }
+
+    return false
+  }
+
+  reset() {
+    this.pending.forEach(({ timer }) => clearTimeout(timer))
+    this.pending.clear()
+  }
+}
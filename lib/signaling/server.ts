@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CallSignal } from '@/lib/types'
+import { createRateLimiter } from '@/lib/rateLimit'
+import { MAX_SIGNAL_BYTES, validateCallSignal } from './validation'
+import { UNRELIABLE_SIGNAL_TYPES } from './reliability'
+
+// Общая часть /api/signal и /api/signal/queue: лимит частоты, размер и проверка сигнала
+
+// Установка звонка с trickle ICE дает всплеск из нескольких десятков сигналов за пару секунд
+const signalRateLimiter = createRateLimiter({ limit: 120, windowMs: 10000 })
+// Частые служебные сигналы (голосовая активность, keep_alive, ack) считаются отдельно,
+// чтобы их поток не вытеснял управляющие сигналы звонка
+const unreliableSignalRateLimiter = createRateLimiter({ limit: 200, windowMs: 10000 })
+
+type ParsedSignal =
+  | { signal: CallSignal, response?: undefined }
+  | { signal?: undefined, response: NextResponse }
+
+export const parseSignalRequest = async (request: NextRequest, userId: string): Promise<ParsedSignal> => {
+  const raw = await request.text()
+  if (raw.length > MAX_SIGNAL_BYTES) {
+    return { response: NextResponse.json({ error: 'Signal too large' }, { status: 413 }) }
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(raw)
+  } catch {
+    return { response: NextResponse.json({ error: 'Invalid JSON' }, { status: 400 }) }
+  }
+
+  const result = validateCallSignal(body, userId)
+  if (!result.ok) {
+    return { response: NextResponse.json({ error: result.error }, { status: 400 }) }
+  }
+
+  const limiter = UNRELIABLE_SIGNAL_TYPES.includes(result.signal.type) ? unreliableSignalRateLimiter : signalRateLimiter
+  const { allowed, retryAfterMs } = limiter.check(userId)
+  if (!allowed) {
+    return {
+      response: NextResponse.json(
+        { error: 'Too many signals' },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } }
+      )
+    }
+  }
+
+  return { signal: result.signal }
+}
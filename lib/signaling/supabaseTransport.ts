@@ -0,0 +1,91 @@
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { CallSignal } from '@/lib/types'
+import { logger } from '@/lib/logger'
+import { resilientChannelManager } from '@/utils/resilientChannelManager'
+import { SignalingTransport, SignalHandler } from './types'
+
+/**
+ * Сигнализация через приватные каналы Supabase Realtime webrtc:<userId>
+ * Получение - подписка на свой канал, отправка - через /api/signal (сервер проставляет отправителя)
+ */
+export class SupabaseSignalingTransport implements SignalingTransport {
+  readonly kind = 'supabase' as const
+
+  private supabase = createClient()
+  private channel: RealtimeChannel | null = null
+  private userId = ''
+
+  async connect(userId: string, onSignal: SignalHandler) {
+    if (this.channel) {
+      logger.log(`📺 [User ${userId.slice(0, 8)}] Signal channel already initialized`)
+      return
+    }
+
+    this.userId = userId
+
+    // Создаем устойчивый канал для получения входящих сигналов через ResilientChannelManager
+    try {
+      this.channel = await resilientChannelManager.createResilientChannel({
+        channelName: `webrtc:${userId}`,
+        private: true,
+        setup: (channel) => {
+          return channel
+            .on('broadcast', { event: 'webrtc_signal' }, (payload: { payload: CallSignal }) => {
+              logger.log(`📡 [User ${userId.slice(0, 8)}] Received signal from ${payload.payload.from.slice(0, 8)}:`, payload.payload.type)
+              onSignal(payload.payload)
+            })
+            .on('presence', { event: 'sync' }, () => {
+              logger.log(`👥 [User ${userId.slice(0, 8)}] Channel presence synced`)
+            })
+        },
+        onSubscribed: () => {
+          logger.log(`✅ [User ${userId.slice(0, 8)}] Successfully subscribed to resilient channel webrtc:${userId}`)
+        },
+        onError: (error) => {
+          logger.error(`❌ [User ${userId.slice(0, 8)}] Resilient channel error:`, error)
+        },
+        // Настройки для WebRTC каналов - более агрессивное переподключение
+        maxReconnectAttempts: 10,
+        reconnectDelay: 2000,
+        keepAliveInterval: 30000, // Каждые 30 секунд
+        healthCheckInterval: 60000 // Каждые минуту
+      })
+
+      logger.log(`📺 [User ${userId.slice(0, 8)}] Resilient signal channel initialized for receiving calls`)
+    } catch (error) {
+      logger.error(`💥 [User ${userId.slice(0, 8)}] Failed to create resilient channel:`, error)
+      throw error
+    }
+  }
+
+  async send(signal: CallSignal) {
+    // Писать в чужой приватный канал клиент не может: сервер проверяет сигнал и доставляет его сам
+    const response = await fetch('/api/signal', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(signal)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Signal API rejected signal (${response.status}): ${await response.text()}`)
+    }
+
+    logger.log(`✅ Signal ${signal.type} sent via /api/signal`)
+  }
+
+  async disconnect() {
+    if (this.channel) {
+      this.supabase.removeChannel(this.channel)
+      this.channel = null
+    }
+
+    logger.log(`📺 [User ${this.userId.slice(0, 8)}] Supabase signaling disconnected`)
+  }
+
+  isConnected() {
+    return !!this.channel
+  }
+}
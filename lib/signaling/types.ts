@@ -0,0 +1,24 @@
+import type { CallSignal } from '@/lib/types'
+
+// Доступные способы доставки сигналов WebRTC
+export type SignalingTransportKind = 'supabase' | 'http-polling' | 'websocket' | 'loopback'
+
+export type SignalHandler = (signal: CallSignal) => void
+
+/**
+ * Транспорт сигнализации: доставляет CallSignal получателю по его userId
+ * WebRTCService не знает, как именно сигнал попадает к собеседнику
+ */
+export interface SignalingTransport {
+  readonly kind: SignalingTransportKind
+
+  // Подписка на входящие сигналы для пользователя
+  connect(userId: string, onSignal: SignalHandler): Promise<void>
+
+  // Отправка сигнала получателю signal.to
+  send(signal: CallSignal): Promise<void>
+
+  disconnect(): Promise<void>
+
+  isConnected(): boolean
+}
@@ -0,0 +1,98 @@
+import { CALL_SIGNAL_TYPES, RECORDING_ACTIONS, CallSignal, CallSignalType, RecordingAction } from '@/lib/types'
+
+// Проверка входящего сигнала на сервере: в дальнейшую доставку попадают только известные поля нужного типа
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// SDP с видео и демонстрацией экрана укладывается в несколько десятков килобайт
+export const MAX_SIGNAL_BYTES = 64 * 1024
+
+const MAX_ID_LENGTH = 128
+const MAX_PARTICIPANTS = 16
+
+type ValidationResult =
+  | { ok: true, signal: CallSignal }
+  | { ok: false, error: string }
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isShortString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH
+
+export const isUuid = (value: unknown): value is string =>
+  typeof value === 'string' && UUID_PATTERN.test(value)
+
+// from всегда проставляется сервером из сессии, значение из тела запроса игнорируется
+export const validateCallSignal = (body: unknown, from: string): ValidationResult => {
+  if (!isObject(body)) {
+    return { ok: false, error: 'Signal must be an object' }
+  }
+
+  const { type, to } = body
+
+  if (typeof type !== 'string' || !CALL_SIGNAL_TYPES.includes(type as CallSignalType)) {
+    return { ok: false, error: 'Unknown signal type' }
+  }
+
+  if (!isUuid(to)) {
+    return { ok: false, error: 'Invalid recipient' }
+  }
+
+  if (to === from) {
+    return { ok: false, error: 'Cannot signal yourself' }
+  }
+
+  const signal: CallSignal = { type: type as CallSignalType, from, to }
+
+  // SDP/кандидаты - объекты simple-peer, их содержимое проверяет сам RTCPeerConnection
+  if (body.signal !== undefined) {
+    if (!isObject(body.signal)) return { ok: false, error: 'Invalid signal data' }
+    signal.signal = body.signal as unknown as CallSignal['signal']
+  }
+  if (body.candidate !== undefined) {
+    if (!isObject(body.candidate)) return { ok: false, error: 'Invalid candidate' }
+    signal.candidate = body.candidate as unknown as CallSignal['candidate']
+  }
+
+  for (const key of ['muted', 'active', 'videoEnabled', 'e2ee'] as const) {
+    if (body[key] !== undefined) {
+      if (typeof body[key] !== 'boolean') return { ok: false, error: `Invalid ${key}` }
+      signal[key] = body[key] as boolean
+    }
+  }
+
+  if (body.media !== undefined) {
+    if (body.media !== 'audio' && body.media !== 'video') return { ok: false, error: 'Invalid media' }
+    signal.media = body.media
+  }
+
+  if (body.recording !== undefined) {
+    if (!RECORDING_ACTIONS.includes(body.recording as RecordingAction)) return { ok: false, error: 'Invalid recording' }
+    signal.recording = body.recording as RecordingAction
+  }
+
+  for (const key of ['streamId', 'roomId', 'callId', 'messageId', 'ackId'] as const) {
+    if (body[key] !== undefined) {
+      if (!isShortString(body[key])) return { ok: false, error: `Invalid ${key}` }
+      signal[key] = body[key] as string
+    }
+  }
+
+  for (const key of ['seq', 'sentAt'] as const) {
+    if (body[key] !== undefined) {
+      if (typeof body[key] !== 'number' || !Number.isFinite(body[key])) return { ok: false, error: `Invalid ${key}` }
+      signal[key] = body[key] as number
+    }
+  }
+
+  if (body.participants !== undefined) {
+    const { participants } = body
+    if (!Array.isArray(participants) || participants.length > MAX_PARTICIPANTS || !participants.every(isUuid)) {
+      return { ok: false, error: 'Invalid participants' }
+    }
+    signal.participants = participants
+  }
+
+  return { ok: true, signal }
+}
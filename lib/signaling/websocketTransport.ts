@@ -0,0 +1,92 @@
+import { io, Socket } from 'socket.io-client'
+import { createClient } from '@/lib/supabase/client'
+import { CallSignal } from '@/lib/types'
+import { logger } from '@/lib/logger'
+import { SignalingTransport, SignalHandler } from './types'
+
+// Сколько ждать подтверждения доставки от сервера
+const SEND_TIMEOUT_MS = 5000
+
+/**
+ * Сигнализация через собственный WebSocket-сервер (socket.io)
+ *
+ * Протокол: при подключении клиент передает { userId, token } в auth,
+ * сервер проверяет JWT Supabase и добавляет сокет в комнату userId.
+ * Сигнал отправляется событием 'signal' с подтверждением, сервер пересылает его
+ * событием 'signal' в комнату получателя signal.to
+ */
+export class WebSocketSignalingTransport implements SignalingTransport {
+  readonly kind = 'websocket' as const
+
+  private url: string
+  private socket: Socket | null = null
+  private userId = ''
+
+  constructor(url: string) {
+    this.url = url
+  }
+
+  async connect(userId: string, onSignal: SignalHandler) {
+    if (this.socket) {
+      logger.log(`📺 [User ${userId.slice(0, 8)}] WebSocket signaling already connected`)
+      return
+    }
+
+    this.userId = userId
+
+    const { data: { session } } = await createClient().auth.getSession()
+
+    this.socket = io(this.url, {
+      transports: ['websocket'],
+      auth: {
+        userId,
+        token: session?.access_token
+      },
+      reconnection: true,
+      reconnectionDelay: 2000,
+    })
+
+    this.socket.on('signal', (signal: CallSignal) => {
+      logger.log(`📡 [User ${userId.slice(0, 8)}] Received websocket signal from ${signal.from.slice(0, 8)}:`, signal.type)
+      onSignal(signal)
+    })
+
+    this.socket.on('disconnect', (reason) => {
+      logger.warn(`📺 [User ${userId.slice(0, 8)}] WebSocket signaling disconnected: ${reason}`)
+    })
+
+    // Ждем первого подключения, дальше socket.io переподключается сам
+    await new Promise<void>((resolve, reject) => {
+      this.socket!.once('connect', () => {
+        logger.log(`✅ [User ${userId.slice(0, 8)}] WebSocket signaling connected to ${this.url}`)
+        resolve()
+      })
+      this.socket!.once('connect_error', (error) => {
+        logger.error(`❌ [User ${userId.slice(0, 8)}] WebSocket signaling connection error:`, error)
+        reject(error)
+      })
+    })
+  }
+
+  async send(signal: CallSignal) {
+    if (!this.socket) {
+      throw new Error('WebSocket signaling is not connected')
+    }
+
+    await this.socket.timeout(SEND_TIMEOUT_MS).emitWithAck('signal', signal)
+    logger.log('✅ Signal sent via websocket')
+  }
+
+  async disconnect() {
+    if (this.socket) {
+      this.socket.removeAllListeners()
+      this.socket.disconnect()
+      this.socket = null
+    }
+    logger.log(`📺 [User ${this.userId.slice(0, 8)}] WebSocket signaling closed`)
+  }
+
+  isConnected() {
+    return !!this.socket?.connected
+  }
+}
@@ -1,16 +1,218 @@
 import type { SignalData } from 'simple-peer'
 import SimplePeer from 'simple-peer'
 
+// Тип медиа звонка: только голос или голос + камера
+export type CallMediaKind = 'audio' | 'video'
+
+// Все типы сигналов - используются и для проверки входящих данных на сервере
+export const CALL_SIGNAL_TYPES = [
+  'offer',
+  'answer',
+  'candidate',
+  'renegotiate',
+  'transceiverRequest',
+  'ice-candidate',
+  'end-call',
+  'call-timeout',
+  'reject',
+  // Собеседник не принимает звонки от этого пользователя (настройка приватности)
+  'rejected',
+  'busy',
+  'hold',
+  'call_accepted',
+  'mute_status',
+  'voice_activity',
+  'video_status',
+  'screen_share',
+  'keep_alive',
+  'ice-restart',
+  'recording_status',
+  'ack',
+] as const
+
+export type CallSignalType = typeof CALL_SIGNAL_TYPES[number]
+
+// Шаги согласования записи: запрос, согласие/отказ собеседника, начало и конец записи
+export const RECORDING_ACTIONS = ['request', 'accept', 'decline', 'start', 'stop'] as const
+
+export type RecordingAction = typeof RECORDING_ACTIONS[number]
+
 export type CallSignal = {
-  type: 'offer' | 'answer' | 'ice-candidate' | 'end-call'
+  type: CallSignalType
   from: string
   to: string
-  signal?: any
+  signal?: SignalData
   candidate?: RTCIceCandidate
+  muted?: boolean
+  active?: boolean
+  // Тип звонка - передается вместе с offer, чтобы собеседник видел "входящий видеозвонок"
+  media?: CallMediaKind
+  // Включена ли камера у отправителя (для video_status)
+  videoEnabled?: boolean
+  // ID потока демонстрации экрана (для screen_share), active - началась/закончилась
+  // (для hold active - звонок поставлен на удержание/снят с удержания)
+  streamId?: string
+  // ID комнаты звонка - по нему сигналы попадают в нужное peer соединение
+  roomId?: string
+  // Текущие участники комнаты (передаются приглашенному вместе с offer)
+  participants?: string[]
+  // ID записи в таблице calls - чтобы собеседник мог отметить ответ/завершение
+  callId?: string
+  // Шаг согласования записи (для recording_status)
+  recording?: RecordingAction
+  // Сквозное шифрование медиа (в offer - просьба звонящего, в answer - согласие собеседника)
+  e2ee?: boolean
+  // Конверт надежной доставки: уникальный ID, порядковый номер для получателя и время отправки
+  messageId?: string
+  seq?: number
+  sentAt?: number
+  // ID подтверждаемого сообщения (для ack)
+  ackId?: string
+}
+
+// Дополнительный участник группового звонка (кроме основного собеседника)
+export interface CallParticipant {
+  userId: string
+  stream: MediaStream | null
+  connected: boolean
+  muted: boolean
+  speaking: boolean
+  videoEnabled: boolean
+}
+
+// Второй звонок во время разговора (ожидающий ответа или на удержании)
+export interface WaitingCallInfo {
+  userId: string
+  media: CallMediaKind
+}
+
+// Опции для startCall/answerCall
+export interface CallOptions {
+  video?: boolean
 }
 
 export type CallState = 'idle' | 'calling' | 'receiving' | 'connected'
 
+// Причина завершения звонка в истории
+export type CallEndReason = 'completed' | 'rejected' | 'busy' | 'missed' | 'failed'
+
+// Почему исходящий звонок не состоялся: к причинам из истории добавляется restricted -
+// собеседник не принимает звонки от нас по настройке приватности
+export type CallNotAnsweredReason = CallEndReason | 'restricted'
+
+// Профиль обработки звука: голос (по умолчанию), музыка (без обработки, стерео) или экономия трафика
+export type AudioProfile = 'voice' | 'music' | 'low-bandwidth'
+
+// Сообщение чата звонка: sent - ушло в data channel, delivered - собеседник подтвердил получение
+export type ChatMessageStatus = 'sent' | 'delivered' | 'failed'
+
+export interface ChatMessage {
+  id: string
+  from: string
+  text: string
+  sentAt: number
+  status: ChatMessageStatus
+}
+
+// Сообщение чата из истории звонков (таблица call_messages)
+export interface CallTranscriptMessage {
+  id: string
+  sender_id: string
+  body: string
+  sent_at: string
+}
+
+// Передача файла во время звонка: offered - ждет решения получателя, paused - канал переподключается,
+// verifying - проверка хеша у получателя
+export type FileTransferStatus = 'offered' | 'transferring' | 'paused' | 'verifying' | 'completed' | 'declined' | 'cancelled' | 'failed'
+
+export interface FileTransfer {
+  id: string
+  direction: 'incoming' | 'outgoing'
+  name: string
+  size: number
+  mimeType: string
+  transferred: number // байт передано
+  status: FileTransferStatus
+  createdAt: number
+  url?: string // object URL полученного файла
+  error?: string
+}
+
+// Сквозное шифрование звонка: negotiating - идет обмен ключами ECDH, active - медиа шифруется,
+// unavailable - собеседник не поддерживает шифрование, звонок идет без него
+export type E2eeState = 'negotiating' | 'active' | 'unavailable'
+
+// Символ кода проверки (SAS): собеседники сверяют одинаковые эмодзи и слова
+export interface SasSymbol {
+  emoji: string
+  word: string
+}
+
+export interface E2eeStatus {
+  state: E2eeState
+  sas: SasSymbol[] | null
+}
+
+// Запись звонка с нашей стороны: ждем согласия собеседника или уже пишем
+export type RecordingState = 'idle' | 'requesting' | 'recording'
+
+// Готовый файл записи звонка
+export interface CallRecording {
+  blob: Blob
+  url: string // object URL для воспроизведения и скачивания
+  fileName: string
+  duration: number // секунды
+  peerUserId: string
+  callId: string | null
+  createdAt: string
+}
+
+// Запись звонка, сохраненная в bucket recordings (таблица call_recordings)
+export interface StoredRecording {
+  id: string
+  owner_id: string
+  call_id: string | null
+  peer_id: string | null
+  storage_path: string
+  mime_type: string
+  duration: number
+  size_bytes: number
+  created_at: string
+  // Звонок из истории (если запись к нему привязана)
+  calls?: Pick<CallRecord, 'started_at' | 'media'> | null
+}
+
+export type CallQualityLevel = 'excellent' | 'good' | 'fair' | 'poor'
+
+// Качество связи по данным RTCPeerConnection.getStats()
+export interface CallQualityStats {
+  rtt: number | null // мс
+  jitter: number | null // мс
+  packetLoss: number // % потерянных входящих пакетов за последний интервал
+  inboundBitrate: number // кбит/с
+  outboundBitrate: number // кбит/с
+  candidateType: RTCIceCandidateType | null // тип выбранной пары (host/srflx/prflx/relay)
+  mos: number // оценка 1..4.5 по упрощенной E-модели
+  bars: number // 0..4 для индикатора
+  level: CallQualityLevel
+  degraded: boolean // качество плохое несколько замеров подряд
+}
+
+// Запись из таблицы calls
+export type CallRecord = {
+  id: string
+  caller_id: string
+  callee_id: string
+  media: CallMediaKind
+  started_at: string
+  answered_at: string | null
+  ended_at: string | null
+  end_reason: CallEndReason | null
+  // Число сообщений чата за звонок (агрегат call_messages)
+  call_messages?: { count: number }[]
+}
+
 export type User = {
   id: string
   email: string
@@ -19,7 +221,63 @@ export type User = {
   last_seen?: string
   created_at?: string
   updated_at?: string
-  online?: boolean
+  call_privacy?: CallPrivacy
+  presence_mode?: PresenceMode
+  status_text?: string | null
+}
+
+// Кто может звонить пользователю и видеть его профиль
+export type CallPrivacy = 'everyone' | 'contacts' | 'nobody'
+
+// Статус пользователя в сети: away - нет активности несколько минут, busy - идет звонок, dnd - не беспокоить
+export type PresenceStatus = 'online' | 'away' | 'busy' | 'dnd' | 'offline'
+
+// Режим, выбранный пользователем: auto - статус определяется активностью и звонками,
+// invisible - для остальных пользователь не в сети
+export type PresenceMode = 'auto' | 'dnd' | 'invisible'
+
+export interface UserPresence {
+  status: PresenceStatus
+  statusText: string | null
+}
+
+// Контакт из таблицы contacts; nickname - имя, заданное владельцем списка
+export type Contact = {
+  contact_id: string
+  nickname: string | null
+  created_at: string
+}
+
+export type ContactRequestStatus = 'pending' | 'accepted' | 'declined'
+
+// Запрос в контакты (таблица contact_requests): после принятия стороны попадают в контакты друг к другу
+export type ContactRequest = {
+  id: string
+  from_user: string
+  to_user: string
+  status: ContactRequestStatus
+  created_at: string
+  responded_at: string | null
+  // Профиль отправителя (только у входящих запросов)
+  sender?: Pick<User, 'id' | 'email' | 'display_name' | 'avatar_url'> | null
+}
+
+// Заблокированный пользователь (таблица blocks) и его профиль, если он нам виден
+export type BlockedUser = {
+  blocked_id: string
+  created_at: string
+  profile: Pick<User, 'id' | 'email' | 'display_name' | 'avatar_url'> | null
+}
+
+// Причины жалобы на пользователя - используются и для проверки на сервере
+export const ABUSE_REPORT_REASONS = ['spam', 'harassment', 'inappropriate', 'other'] as const
+
+export type AbuseReportReason = typeof ABUSE_REPORT_REASONS[number]
+
+// Жалоба из экрана звонка: по callId сервер сохраняет снимок записи из истории звонков
+export interface AbuseReportTarget {
+  userId: string
+  callId?: string | null
 }
 
 export interface PeerRefs {
@@ -31,4 +289,3 @@ export interface PeerRefs {
   lastKeepAliveRef: React.MutableRefObject<number>
   reconnectAttemptsRef: React.MutableRefObject<number>
 }
-
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { WebRTCService } from '@/lib/webrtc'
+import { LoopbackSignalingHub, LoopbackSignalingTransport } from '@/lib/signaling'
+import type { CallServices } from '@/lib/callServices'
+import type { CallState, PeerRefs } from '@/lib/types'
+
+// SimplePeer без RTCPeerConnection: offer и answer несут ID соединения, после answer обе стороны подключены
+vi.mock('simple-peer', async () => {
+  const { EventEmitter } = await import('node:events')
+
+  class FakePeer extends EventEmitter {
+    static peers = new Map<string, FakePeer>()
+
+    id = crypto.randomUUID()
+    destroyed = false
+    connected = false
+    private remote: FakePeer | null = null
+
+    constructor({ initiator }: { initiator?: boolean }) {
+      super()
+      FakePeer.peers.set(this.id, this)
+      if (initiator) {
+        setTimeout(() => this.emit('signal', { type: 'offer', sdp: this.id }), 0)
+      }
+    }
+
+    signal(data: { type: string, sdp: string }) {
+      const remote = FakePeer.peers.get(data.sdp)
+      if (!remote) throw new Error(`Unknown peer in ${data.type}`)
+      this.remote = remote
+
+      if (data.type === 'offer') {
+        setTimeout(() => this.emit('signal', { type: 'answer', sdp: this.id }), 0)
+      } else if (data.type === 'answer') {
+        this.open()
+        remote.open()
+      }
+    }
+
+    send(data: string) {
+      this.remote?.emit('data', data)
+    }
+
+    destroy() {
+      if (this.destroyed) return
+      this.destroyed = true
+      this.connected = false
+      FakePeer.peers.delete(this.id)
+      this.emit('close')
+    }
+
+    private open() {
+      this.connected = true
+      this.emit('connect')
+    }
+  }
+
+  return { default: FakePeer }
+})
+
+const ALICE = '00000000-0000-4000-8000-00000000000a'
+const BOB = '00000000-0000-4000-8000-00000000000b'
+
+const createRefs = (): PeerRefs => ({
+  peerRef: { current: null },
+  signalBufferRef: { current: [] },
+  keepAliveIntervalRef: { current: null },
+  connectionCheckIntervalRef: { current: null },
+  reconnectTimeoutRef: { current: null },
+  lastKeepAliveRef: { current: 0 },
+  reconnectAttemptsRef: { current: 0 },
+})
+
+// Заглушки вместо Supabase: пользователь передается в initializeSignalChannel, звуков нет
+const createServices = () => ({
+  getCurrentUserId: vi.fn<CallServices['getCurrentUserId']>(async () => null),
+  getSoundUrl: vi.fn<CallServices['getSoundUrl']>(() => null),
+  createCallRecord: vi.fn<CallServices['createCallRecord']>(async () => {}),
+  markCallAnswered: vi.fn<CallServices['markCallAnswered']>(async () => {}),
+  finishCallRecord: vi.fn<CallServices['finishCallRecord']>(async () => {}),
+  saveCallMessage: vi.fn<CallServices['saveCallMessage']>(async () => {}),
+})
+
+const createClient = async (userId: string, hub: LoopbackSignalingHub) => {
+  const services = createServices()
+  const states: CallState[] = []
+  const service = new WebRTCService(createRefs(), services, new LoopbackSignalingTransport(hub))
+  service.setCallbacks({ onStateChange: (state) => states.push(state) })
+  await service.initializeSignalChannel(userId)
+
+  return { service, services, states, lastState: () => states[states.length - 1] }
+}
+
+describe('WebRTCService over loopback signaling', () => {
+  beforeEach(() => {
+    const stream = { id: 'local-stream', getTracks: () => [], getAudioTracks: () => [], getVideoTracks: () => [] }
+    vi.stubGlobal('navigator', {
+      ...navigator,
+      mediaDevices: {
+        getUserMedia: vi.fn(async () => stream),
+        enumerateDevices: vi.fn(async () => []),
+        addEventListener: vi.fn(),
+      },
+    })
+    // ICE серверы берутся из /api/ice-servers; без сервера используется STUN по умолчанию
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('offline') }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('connects a call with offer and answer and ends it on both sides', async () => {
+    const hub = new LoopbackSignalingHub()
+    const alice = await createClient(ALICE, hub)
+    const bob = await createClient(BOB, hub)
+
+    await alice.service.startCall(BOB)
+    expect(alice.lastState()).toBe('calling')
+
+    await vi.waitFor(() => expect(bob.lastState()).toBe('receiving'))
+    expect(bob.service.getIncomingCallerId()).toBe(ALICE)
+
+    await bob.service.answerCall(ALICE)
+    await vi.waitFor(() => {
+      expect(alice.lastState()).toBe('connected')
+      expect(bob.lastState()).toBe('connected')
+    })
+
+    await alice.service.endCall()
+    expect(alice.lastState()).toBe('idle')
+    await vi.waitFor(() => expect(bob.lastState()).toBe('idle'))
+
+    // Запись о звонке создает звонящий, отметку об ответе ставит принявший
+    const [callId] = alice.services.createCallRecord.mock.calls[0]
+    expect(alice.services.createCallRecord).toHaveBeenCalledWith(callId, ALICE, BOB, 'audio')
+    expect(bob.services.markCallAnswered).toHaveBeenCalledWith(callId)
+    expect(alice.services.finishCallRecord).toHaveBeenCalledWith(callId, 'completed')
+  })
+})
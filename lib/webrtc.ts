@@ -1,28 +1,180 @@
 import SimplePeer from 'simple-peer'
-import { createClient } from '@/lib/supabase/client'
-import { CallState, PeerRefs } from '@/lib/types'
-import type { RealtimeChannel } from '@supabase/supabase-js'
+import { CallState, PeerRefs, CallSignal, CallMediaKind, CallOptions, CallParticipant, CallEndReason, WaitingCallInfo, CallQualityStats, AudioProfile, RecordingAction, RecordingState, CallRecording, ChatMessage, FileTransfer, E2eeStatus, CallPrivacy, CallNotAnsweredReason } from '@/lib/types'
 import { logger } from '@/lib/logger'
-import { resilientChannelManager } from '@/utils/resilientChannelManager'
-import { handlePeerError, attemptReconnection, resetReconnectionCounter, cleanupAllPeerResources, handlePeerClose } from '@/utils/webrtcHelpers'
-
-// Тип для доступа к RTCPeerConnection внутри SimplePeer
+import type { CallServices } from '@/lib/callServices'
+import { playBusyTone, playRejectTone } from '@/utils/callTones'
+import { createSignalingTransport, SignalingTransport, SignalReliability } from '@/lib/signaling'
+import { DEFAULT_ICE_SERVERS, fetchIceServers, hasTurnServer } from '@/lib/iceServers'
+import { CallQualityMonitor } from '@/lib/callQuality'
+import { CallRecorder, isRecordingSupported } from '@/lib/callRecorder'
+import { FileTransferManager } from '@/lib/fileTransfer'
+import { E2eeSession, isE2eeSupported, needsEncodedInsertableStreams } from '@/lib/e2ee'
+import { PeerDataMessage, MAX_CHAT_MESSAGE_LENGTH, encodePeerData, parsePeerData } from '@/lib/peerData'
+import { buildAudioConstraints, listAudioDevices } from '@/lib/audioDevices'
+import { DEFAULT_AUDIO_PROFILE, applyAudioProfileToSdp, applyAudioProfileToSignal } from '@/lib/audioProfiles'
+import { handlePeerError, resetReconnectionCounter, cleanupAllPeerResources, handlePeerClose } from '@/utils/webrtcHelpers'
+
+// Тип для доступа к RTCPeerConnection и полученным потокам внутри SimplePeer
 interface SimplePeerWithPC extends SimplePeer.Instance {
   _pc?: RTCPeerConnection
+  _remoteStreams?: MediaStream[]
+  initiator?: boolean
+  negotiate?: () => void
+}
+
+// Параметры камеры для видеозвонков
+const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+  width: { ideal: 1280 },
+  height: { ideal: 720 },
+  frameRate: { ideal: 30 },
+  facingMode: 'user',
+}
+
+// Сколько ждать ответа на звонок по умолчанию, прежде чем считать его пропущенным
+const DEFAULT_RING_TIMEOUT_MS = 45000
+
+// ICE restart: сколько ждать самовосстановления после disconnected, сколько ждать результата перезапуска
+const ICE_RESTART_DELAY_MS = 2000
+const ICE_RESTART_TIMEOUT_MS = 10000
+const MAX_ICE_RESTARTS = 3
+
+// Сколько ждать возвращения сети, прежде чем завершить звонок
+const OFFLINE_GRACE_MS = 30000
+
+// Индикатор "печатает": как часто повторять статус и когда скрывать без обновлений
+const TYPING_RESEND_MS = 3000
+const TYPING_TIMEOUT_MS = 5000
+
+// Максимальное число участников группового звонка (включая нас) - ограничение mesh-топологии
+const MAX_ROOM_PARTICIPANTS = 6
+
+// Соединение с дополнительным участником группового звонка
+interface RoomPeer {
+  peer: SimplePeer.Instance
+  participant: CallParticipant
+  // Запись в истории звонков, если участника пригласили мы
+  callId?: string
+}
+
+// Звонок, поставленный на удержание ради второго звонка
+interface HeldCall {
+  peer: SimplePeer.Instance
+  userId: string
+  callId: string | null
+  roomId: string | null
+  remoteStream: MediaStream | null
+  remoteMuted: boolean
+  remoteVideoEnabled: boolean
+  remoteOnHold: boolean
+  chatMessages: ChatMessage[]
+  e2ee: E2eeSession | null
+  // Треки, которые мы перестали отправлять на время удержания
+  pausedTracks: Map<RTCRtpSender, MediaStreamTrack | null>
+}
+
+// Второй входящий звонок: offer и кандидаты копятся до ответа
+interface WaitingCall extends WaitingCallInfo {
+  callId: string | null
+  roomId: string | null
+  e2ee: boolean
+  signals: SimplePeer.SignalData[]
 }
 
 export class WebRTCService {
   private peer: SimplePeer.Instance | null = null
   private localStream: MediaStream | null = null
   private remoteStream: MediaStream | null = null
-  private supabase = createClient()
-  private channel: RealtimeChannel | null = null
+  private screenStream: MediaStream | null = null
+  private remoteScreenStream: MediaStream | null = null
+  private remoteScreenStreamId: string | null = null
+  // Пользователь сессии, звуки и история звонков (Supabase или заглушки в тестах)
+  private services: CallServices
+  // Транспорт сигнализации (Supabase Realtime, HTTP-polling, WebSocket или loopback)
+  private transport: SignalingTransport
+  // Подтверждения, повторная отправка и отбрасывание дублей
+  private reliability = new SignalReliability()
   private currentUserId: string = ''
   private targetUserId: string | null = null
   private peerUserId: string | null = null
   private isCallActive = false
   private incomingCallerId: string | null = null
 
+  // Тип текущего звонка и входящего звонка (до принятия)
+  private callMedia: CallMediaKind = 'audio'
+  private incomingCallMedia: CallMediaKind = 'audio'
+
+  // Групповой звонок: ID комнаты и соединения с участниками кроме основного собеседника (targetUserId)
+  private roomId: string | null = null
+  private roomPeers: Map<string, RoomPeer> = new Map()
+  // Участники, к которым нужно подключиться после принятия приглашения
+  private pendingRoomParticipants: string[] = []
+
+  // ID записи в истории звонков (таблица calls) и признак того, что звонок был принят
+  private callId: string | null = null
+  private callAnswered = false
+  // Создание записей в calls по ID звонка: offer уходит только после записи, иначе собеседник
+  // может не увидеть профиль звонящего (видимость профиля по звонку проверяет RLS)
+  private callRecords: Map<string, Promise<void>> = new Map()
+
+  // Таймаут ожидания ответа (работает и у звонящего, и у принимающего)
+  private ringTimeoutMs = DEFAULT_RING_TIMEOUT_MS
+  private ringTimeout: NodeJS.Timeout | null = null
+
+  // Ожидание второго звонка и удержание
+  private waitingCall: WaitingCall | null = null
+  private heldCall: HeldCall | null = null
+  private remoteMuted = false
+  private remoteVideoEnabled = false
+  private remoteOnHold = false
+
+  // ICE серверы (STUN + TURN с временными учетными данными) и режим "только через TURN"
+  private iceServers: RTCIceServer[] = DEFAULT_ICE_SERVERS
+  private relayOnly = false
+
+  // Выбранный микрофон (null - устройство по умолчанию)
+  private audioInputId: string | null = null
+  // Профиль звука из настроек и профиль, с которым начат текущий звонок
+  private audioProfile: AudioProfile = DEFAULT_AUDIO_PROFILE
+  private callAudioProfile: AudioProfile = DEFAULT_AUDIO_PROFILE
+
+  // Запись звонка: наш рекордер, собеседник, согласившийся на запись, и входящий запрос согласия
+  private recorder: CallRecorder | null = null
+  private recordingState: RecordingState = 'idle'
+  private recordingPeerId: string | null = null
+  private recordingCallId: string | null = null
+  private recordingRequestFrom: string | null = null
+  private remoteRecording = false
+
+  // Чат звонка по data channel: сообщения, ожидающие подтверждения получатели и кто сейчас печатает
+  private chatMessages: ChatMessage[] = []
+  private chatPendingAcks: Map<string, Set<string>> = new Map()
+  private typingTimers: Map<string, NodeJS.Timeout> = new Map()
+  private lastTypingSentAt = 0
+
+  // Сквозное шифрование: настройка пользователя, просьба из входящего offer и сессия текущего соединения
+  private e2eeEnabled = false
+  private incomingE2ee = false
+  private e2ee: E2eeSession | null = null
+
+  // Кто может нам звонить (настройка приватности) и наш список контактов для режима "только контакты"
+  private callPrivacy: CallPrivacy = 'everyone'
+  private allowedCallers = new Set<string>()
+  // Заблокированные пользователи: их звонки не доходят до нас
+  private blockedUsers = new Set<string>()
+
+  // Передача файлов основному собеседнику по отдельному data channel
+  private fileTransfers = new FileTransferManager((transfers) => this.onFileTransfersChange?.(transfers))
+
+  // Перезапуск ICE при смене сети (без пересоздания peer)
+  private iceRestartAttempts = 0
+  private iceRestartTimer: NodeJS.Timeout | null = null
+
+  // Статистика качества связи основного соединения
+  private qualityMonitor = new CallQualityMonitor(
+    () => (this.peer as SimplePeerWithPC | null)?._pc,
+    (stats) => this.onQualityChange?.(stats)
+  )
+
   // Refs для управления состоянием
   private refs: PeerRefs
 
@@ -32,83 +184,85 @@ export class WebRTCService {
   private onError?: (error: string) => void
   private onRemoteMutedChange?: (muted: boolean) => void
   private onRemoteVoiceActivityChange?: (active: boolean) => void
+  private onRemoteVideoChange?: (enabled: boolean) => void
+  private onScreenShareChange?: (active: boolean) => void
+  private onRemoteScreenShare?: (stream: MediaStream | null) => void
+  private onParticipantsChange?: (participants: CallParticipant[]) => void
+  private onPrimaryPeerChange?: (userId: string) => void
+  private onCallNotAnswered?: (userId: string, reason: CallNotAnsweredReason) => void
+  private onBusyCall?: (callerId: string, media: CallMediaKind) => void
+  private onWaitingCallChange?: (call: WaitingCallInfo | null) => void
+  private onHeldCallChange?: (call: WaitingCallInfo | null) => void
+  private onRemoteHoldChange?: (onHold: boolean) => void
+  private onMissedCall?: (callerId: string) => void
+  private onQualityChange?: (stats: CallQualityStats | null) => void
+  private onAudioInputChange?: (deviceId: string | null) => void
+  private onAudioProfileChange?: (profile: AudioProfile) => void
+  private onRecordingStateChange?: (state: RecordingState) => void
+  private onRecordingRequest?: (userId: string | null) => void
+  private onRemoteRecordingChange?: (active: boolean) => void
+  private onRecordingReady?: (recording: CallRecording) => void
+  private onChatMessagesChange?: (messages: ChatMessage[]) => void
+  private onRemoteTypingChange?: (userIds: string[]) => void
+  private onFileTransfersChange?: (transfers: FileTransfer[]) => void
+  private onE2eeChange?: (status: E2eeStatus | null) => void
 
   // Звуки для звонков
   private ringtoneAudio: HTMLAudioElement | null = null
   private endCallAudio: HTMLAudioElement | null = null
   private startAudio: HTMLAudioElement | null = null
+  private holdAudio: HTMLAudioElement | null = null
   private isRingtonePlaying = false
 
-  // Кэш каналов для отправки сигналов
-  private sendChannels: Map<string, RealtimeChannel> = new Map()
-
   // Обработчики завершения
   private connectionCheckInterval: NodeJS.Timeout | null = null
   private keepAliveInterval: NodeJS.Timeout | null = null
   private lastActivityTime = Date.now()
   private isOnline = true
 
-  constructor(refs: PeerRefs) {
+  constructor(refs: PeerRefs, services: CallServices, transport: SignalingTransport = createSignalingTransport()) {
     this.refs = refs
+    this.services = services
+    this.transport = transport
     // Инициализация канала будет выполнена позже при первом использовании
     // Настраиваем обработчики завершения звонка
     this.setupCallTerminationHandlers()
     // Инициализируем звуки
     this.initializeSounds()
+    // Подключение и отключение гарнитуры во время звонка
+    this.setupDeviceChangeHandler()
   }
 
-  // Инициализация канала только для получения сигналов
-  async initializeSignalChannel() {
-    if (this.channel) {
+  // Подключение к транспорту сигнализации для получения входящих сигналов
+  // userId можно передать явно (например, для loopback транспорта без Supabase Auth)
+  async initializeSignalChannel(userId?: string) {
+    if (this.transport.isConnected()) {
       logger.log(`📺 [User ${this.currentUserId?.slice(0, 8)}] Signal channel already initialized`)
       return // Уже инициализирован
     }
 
-    const { data: { user } } = await this.supabase.auth.getUser()
-    if (!user) {
-      logger.log('📺 No authenticated user, skipping channel initialization')
-      return
+    if (!userId) {
+      const sessionUserId = await this.services.getCurrentUserId()
+      if (!sessionUserId) {
+        logger.log('📺 No authenticated user, skipping channel initialization')
+        return
+      }
+      userId = sessionUserId
     }
 
-    this.currentUserId = user.id
+    this.currentUserId = userId
 
-    // Создаем устойчивый канал для получения входящих сигналов через ResilientChannelManager
     try {
-      this.channel = await resilientChannelManager.createResilientChannel({
-        channelName: `webrtc:${this.currentUserId}`,
-        setup: (channel) => {
-          return channel
-            .on('broadcast', { event: 'webrtc_signal' }, (payload: { payload: { type: string, signal?: SimplePeer.SignalData, from: string } }) => {
-              logger.log(`📡 [User ${this.currentUserId.slice(0, 8)}] Received signal from ${payload.payload.from.slice(0, 8)}:`, payload.payload.type)
-              this.handleIncomingSignal(payload)
-            })
-            .on('presence', { event: 'sync' }, () => {
-              logger.log(`👥 [User ${this.currentUserId.slice(0, 8)}] Channel presence synced`)
-            })
-        },
-        onSubscribed: () => {
-          logger.log(`✅ [User ${this.currentUserId.slice(0, 8)}] Successfully subscribed to resilient channel webrtc:${this.currentUserId}`)
-        },
-        onError: (error) => {
-          logger.error(`❌ [User ${this.currentUserId.slice(0, 8)}] Resilient channel error:`, error)
-        },
-        // Настройки для WebRTC каналов - более агрессивное переподключение
-        maxReconnectAttempts: 10,
-        reconnectDelay: 2000,
-        keepAliveInterval: 30000, // Каждые 30 секунд
-        healthCheckInterval: 60000 // Каждые минуту
-      })
-
-      logger.log(`📺 [User ${this.currentUserId.slice(0, 8)}] Resilient signal channel initialized for receiving calls`)
+      await this.transport.connect(userId, (signal) => this.handleIncomingSignal({ payload: signal }))
+      logger.log(`📺 [User ${userId.slice(0, 8)}] ${this.transport.kind} signaling initialized for receiving calls`)
     } catch (error) {
-      logger.error(`💥 [User ${this.currentUserId.slice(0, 8)}] Failed to create resilient channel:`, error)
+      logger.error(`💥 [User ${userId.slice(0, 8)}] Failed to initialize ${this.transport.kind} signaling:`, error)
       throw error
     }
   }
 
-  private async initializeSupabaseChannel() {
-    // Канал уже инициализирован в конструкторе, просто проверяем
-    if (!this.channel) {
+  private async ensureSignalChannel() {
+    if (!this.transport.isConnected()) {
       await this.initializeSignalChannel()
     }
   }
@@ -120,6 +274,28 @@ export class WebRTCService {
     onError?: (error: string) => void
     onRemoteMutedChange?: (muted: boolean) => void
     onRemoteVoiceActivityChange?: (active: boolean) => void
+    onRemoteVideoChange?: (enabled: boolean) => void
+    onScreenShareChange?: (active: boolean) => void
+    onRemoteScreenShare?: (stream: MediaStream | null) => void
+    onParticipantsChange?: (participants: CallParticipant[]) => void
+    onPrimaryPeerChange?: (userId: string) => void
+    onCallNotAnswered?: (userId: string, reason: CallNotAnsweredReason) => void
+    onBusyCall?: (callerId: string, media: CallMediaKind) => void
+    onWaitingCallChange?: (call: WaitingCallInfo | null) => void
+    onHeldCallChange?: (call: WaitingCallInfo | null) => void
+    onRemoteHoldChange?: (onHold: boolean) => void
+    onMissedCall?: (callerId: string) => void
+    onQualityChange?: (stats: CallQualityStats | null) => void
+    onAudioInputChange?: (deviceId: string | null) => void
+    onAudioProfileChange?: (profile: AudioProfile) => void
+    onRecordingStateChange?: (state: RecordingState) => void
+    onRecordingRequest?: (userId: string | null) => void
+    onRemoteRecordingChange?: (active: boolean) => void
+    onRecordingReady?: (recording: CallRecording) => void
+    onChatMessagesChange?: (messages: ChatMessage[]) => void
+    onRemoteTypingChange?: (userIds: string[]) => void
+    onFileTransfersChange?: (transfers: FileTransfer[]) => void
+    onE2eeChange?: (status: E2eeStatus | null) => void
   }) {
     this.onStateChange = callbacks.onStateChange
     this.onRemoteStream = callbacks.onRemoteStream
@@ -127,6 +303,185 @@ export class WebRTCService {
     this.onError = callbacks.onError
     this.onRemoteMutedChange = callbacks.onRemoteMutedChange
     this.onRemoteVoiceActivityChange = callbacks.onRemoteVoiceActivityChange
+    this.onRemoteVideoChange = callbacks.onRemoteVideoChange
+    this.onScreenShareChange = callbacks.onScreenShareChange
+    this.onRemoteScreenShare = callbacks.onRemoteScreenShare
+    this.onParticipantsChange = callbacks.onParticipantsChange
+    this.onPrimaryPeerChange = callbacks.onPrimaryPeerChange
+    this.onCallNotAnswered = callbacks.onCallNotAnswered
+    this.onBusyCall = callbacks.onBusyCall
+    this.onWaitingCallChange = callbacks.onWaitingCallChange
+    this.onHeldCallChange = callbacks.onHeldCallChange
+    this.onRemoteHoldChange = callbacks.onRemoteHoldChange
+    this.onMissedCall = callbacks.onMissedCall
+    this.onQualityChange = callbacks.onQualityChange
+    this.onAudioInputChange = callbacks.onAudioInputChange
+    this.onAudioProfileChange = callbacks.onAudioProfileChange
+    this.onRecordingStateChange = callbacks.onRecordingStateChange
+    this.onRecordingRequest = callbacks.onRecordingRequest
+    this.onRemoteRecordingChange = callbacks.onRemoteRecordingChange
+    this.onRecordingReady = callbacks.onRecordingReady
+    this.onChatMessagesChange = callbacks.onChatMessagesChange
+    this.onRemoteTypingChange = callbacks.onRemoteTypingChange
+    this.onFileTransfersChange = callbacks.onFileTransfersChange
+    this.onE2eeChange = callbacks.onE2eeChange
+  }
+
+  // Настройка времени ожидания ответа на звонок
+  setRingTimeout(ms: number) {
+    this.ringTimeoutMs = ms
+  }
+
+  // Только relay-кандидаты: собеседник не узнает наш IP (нужен TURN сервер)
+  setRelayOnly(enabled: boolean) {
+    this.relayOnly = enabled
+  }
+
+  // Сквозное шифрование исходящих звонков; применяется со следующего звонка
+  setE2eeEnabled(enabled: boolean) {
+    this.e2eeEnabled = enabled
+  }
+
+  // Входящие offer от тех, кому звонить нельзя, отклоняются до звонка рингтона
+  setCallPrivacy(privacy: CallPrivacy, contactIds: string[]) {
+    this.callPrivacy = privacy
+    this.allowedCallers = new Set(contactIds)
+  }
+
+  setBlockedUsers(userIds: string[]) {
+    this.blockedUsers = new Set(userIds)
+  }
+
+  private isCallAllowed(userId: string): boolean {
+    if (this.callPrivacy === 'everyone') return true
+    if (this.callPrivacy === 'nobody') return false
+    return this.allowedCallers.has(userId)
+  }
+
+  // Загрузка ICE серверов перед звонком (учетные данные TURN кэшируются до истечения срока)
+  private async prepareIceServers() {
+    this.iceServers = await fetchIceServers()
+
+    if (this.relayOnly && !hasTurnServer(this.iceServers)) {
+      logger.warn('🧊 Relay-only mode is enabled but no TURN server is configured, the call will not connect')
+    }
+  }
+
+  private getPeerConfig(): RTCConfiguration {
+    return {
+      iceServers: this.iceServers,
+      iceTransportPolicy: this.relayOnly ? 'relay' : 'all',
+    }
+  }
+
+  // Профиль звука применяется со следующего звонка (constraints микрофона и параметры Opus в SDP)
+  setAudioProfile(profile: AudioProfile) {
+    this.audioProfile = profile
+  }
+
+  // Выбор микрофона; во время звонка трек заменяется без renegotiation
+  async setAudioInputDevice(deviceId: string | null) {
+    this.audioInputId = deviceId
+
+    if (this.localStream?.getAudioTracks().length) {
+      await this.switchMicrophone(deviceId)
+    }
+  }
+
+  private async switchMicrophone(deviceId: string | null) {
+    const stream = this.localStream
+    if (!stream) return
+
+    const oldTrack = stream.getAudioTracks()[0] || null
+
+    let newTrack: MediaStreamTrack
+    try {
+      const newStream = await navigator.mediaDevices.getUserMedia({
+        audio: buildAudioConstraints(deviceId, this.callAudioProfile, true),
+      })
+      newTrack = newStream.getAudioTracks()[0]
+    } catch (err) {
+      logger.error('Error switching microphone:', err)
+      this.onError?.('Не удалось переключить микрофон')
+      return
+    }
+
+    // Звонок мог завершиться, пока ждали доступа к устройству
+    if (this.localStream !== stream) {
+      newTrack.stop()
+      return
+    }
+
+    if (oldTrack) {
+      // Сохраняем состояние mute
+      newTrack.enabled = oldTrack.enabled
+      stream.removeTrack(oldTrack)
+    }
+    stream.addTrack(newTrack)
+    this.recorder?.addStream(stream)
+
+    const peers = [this.peer, ...Array.from(this.roomPeers.values()).map(roomPeer => roomPeer.peer)]
+    peers.forEach(peer => {
+      if (peer && !peer.destroyed) {
+        this.replaceSenderTrack(peer, oldTrack, newTrack)
+      }
+    })
+
+    // Звонок на удержании получит новый микрофон при возвращении
+    this.heldCall?.pausedTracks.forEach((track, sender) => {
+      if (track === oldTrack) {
+        this.heldCall!.pausedTracks.set(sender, newTrack)
+      }
+    })
+
+    oldTrack?.stop()
+    logger.log(`🎙️ Microphone switched to "${newTrack.label}"`)
+
+    this.onLocalStream?.(stream)
+    this.onAudioInputChange?.(newTrack.getSettings().deviceId || null)
+  }
+
+  private replaceSenderTrack(peer: SimplePeer.Instance, oldTrack: MediaStreamTrack | null, newTrack: MediaStreamTrack) {
+    const pc = (peer as SimplePeerWithPC)._pc
+    pc?.getSenders().forEach(sender => {
+      if (oldTrack && sender.track === oldTrack) {
+        sender.replaceTrack(newTrack).catch(err => logger.warn('Failed to replace microphone track:', err))
+      }
+    })
+  }
+
+  private setupDeviceChangeHandler() {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices) return
+
+    navigator.mediaDevices.addEventListener('devicechange', () => {
+      this.handleDeviceChange().catch(err => logger.warn('Error handling device change:', err))
+    })
+  }
+
+  // Гарнитуру подключили или отключили: переходим на выбранный микрофон или на микрофон по умолчанию
+  private async handleDeviceChange() {
+    const track = this.localStream?.getAudioTracks()[0]
+    if (!track) return
+
+    const { inputs } = await listAudioDevices()
+    const settings = track.getSettings()
+    const preferredAvailable = !!this.audioInputId && inputs.some(device => device.deviceId === this.audioInputId)
+    const currentAvailable = inputs.some(device => device.deviceId === settings.deviceId)
+
+    if (preferredAvailable && settings.deviceId !== this.audioInputId) {
+      logger.log('🎙️ Preferred microphone connected, switching back')
+      await this.switchMicrophone(this.audioInputId)
+    } else if (track.readyState === 'ended' || !currentAvailable) {
+      logger.log('🎙️ Current microphone disconnected, switching to default')
+      await this.switchMicrophone(preferredAvailable ? this.audioInputId : null)
+    } else if (!this.audioInputId) {
+      // Микрофон по умолчанию в системе сменился (например, подключили гарнитуру)
+      const defaultDevice = inputs.find(device => device.deviceId === 'default')
+      if (defaultDevice && settings.groupId && defaultDevice.groupId !== settings.groupId) {
+        logger.log('🎙️ Default microphone changed, following it')
+        await this.switchMicrophone(null)
+      }
+    }
   }
 
   // Установка ID собеседника
@@ -152,14 +507,7 @@ export class WebRTCService {
     }
 
     try {
-      console.log(`📤 Sending mute status signal: type='mute_status', from=${this.currentUserId.slice(0, 8)}, to=${this.peerUserId.slice(0, 8)}, muted=${isMuted}`)
-      await this.sendSignal({
-        type: 'mute_status',
-        from: this.currentUserId,
-        to: this.peerUserId,
-        muted: isMuted
-      })
-      console.log(`✅ Mute status signal sent successfully`)
+      await this.sendPeerStatus({ type: 'mute_status', muted: isMuted })
       logger.log(`📡 [User ${this.currentUserId.slice(0, 8)}] Sent mute status to ${this.peerUserId.slice(0, 8)}: ${isMuted ? 'muted' : 'unmuted'}`)
     } catch (error) {
       console.error('❌ Error sending mute status:', error)
@@ -175,12 +523,7 @@ export class WebRTCService {
     }
 
     try {
-      await this.sendSignal({
-        type: 'voice_activity',
-        from: this.currentUserId,
-        to: this.peerUserId,
-        active: isActive
-      })
+      await this.sendPeerStatus({ type: 'voice_activity', active: isActive })
 
       // Логируем только изменения состояния (не каждые 100ms)
       if (Math.random() < 0.01) { // 1% от отправок
@@ -194,125 +537,1511 @@ export class WebRTCService {
     }
   }
 
-  // Инициализация звуков для звонков
-  async initializeSounds() {
-    try {
-      // Загружаем рингтон
-      const { data: ringtoneData } = await this.supabase.storage
-        .from('sounds')
-        .getPublicUrl('ringtone.mp3')
+  // Включение/выключение камеры во время звонка
+  async setVideoEnabled(enabled: boolean) {
+    if (!this.localStream) {
+      logger.warn('Cannot toggle camera: no local stream')
+      return
+    }
 
-      if (ringtoneData?.publicUrl) {
-        this.ringtoneAudio = new Audio(ringtoneData.publicUrl)
-        this.ringtoneAudio.loop = true
-        this.ringtoneAudio.volume = 0.3
-      }
+    const existingTrack = this.localStream.getVideoTracks()[0]
 
-      // Загружаем звук окончания звонка
-      const { data: endCallData } = await this.supabase.storage
-        .from('sounds')
-        .getPublicUrl('endcall.mp3')
+    if (existingTrack) {
+      existingTrack.enabled = enabled
+      logger.log(`🎥 Camera ${enabled ? 'enabled' : 'disabled'}`)
+    } else if (enabled) {
+      // Звонок начинался как голосовой - запрашиваем камеру и добавляем трек (SimplePeer сделает renegotiation)
+      try {
+        const cameraStream = await navigator.mediaDevices.getUserMedia({ video: VIDEO_CONSTRAINTS })
+        const videoTrack = cameraStream.getVideoTracks()[0]
+        this.localStream.addTrack(videoTrack)
 
-      if (endCallData?.publicUrl) {
-        this.endCallAudio = new Audio(endCallData.publicUrl)
-        this.endCallAudio.volume = 0.7
+        if (this.peer && !this.peer.destroyed) {
+          this.peer.addTrack(videoTrack, this.localStream)
+          this.attachE2ee(this.peer)
+        }
+
+        this.callMedia = 'video'
+        logger.log('🎥 Camera track added to the call')
+      } catch (err) {
+        logger.error('Error enabling camera:', err)
+        if (err instanceof Error && err.name === 'NotAllowedError') {
+          this.onError?.('Доступ к камере запрещен. Разрешите доступ в настройках браузера.')
+        } else {
+          this.onError?.('Не удалось включить камеру')
+        }
+        return
       }
+    }
 
-      // Загружаем звук начала звонка
-      const { data: startData } = await this.supabase.storage
-        .from('sounds')
-        .getPublicUrl('start.mp3')
+    this.onLocalStream?.(this.localStream)
+    await this.sendVideoStatus()
+  }
 
-      if (startData?.publicUrl) {
-        this.startAudio = new Audio(startData.publicUrl)
-        this.startAudio.volume = 0.8
-      }
+  isVideoEnabled(): boolean {
+    const videoTrack = this.localStream?.getVideoTracks()[0]
+    return !!videoTrack && videoTrack.enabled && videoTrack.readyState === 'live'
+  }
 
-      logger.log('🔊 Sounds initialized successfully')
+  // Отправка статуса камеры собеседнику
+  private async sendVideoStatus() {
+    if (!this.targetUserId || !this.currentUserId) return
+
+    try {
+      await this.sendSignal({
+        type: 'video_status',
+        from: this.currentUserId,
+        to: this.targetUserId,
+        videoEnabled: this.isVideoEnabled()
+      })
+      await this.sendToRoom({ type: 'video_status', videoEnabled: this.isVideoEnabled() })
     } catch (error) {
-      logger.error('❌ Error initializing sounds:', error)
+      logger.warn('Failed to send video status:', error)
     }
   }
 
-  // Воспроизведение рингтона
-  playRingtone() {
-    if (this.ringtoneAudio && !this.isRingtonePlaying) {
-      this.isRingtonePlaying = true
-      this.ringtoneAudio.currentTime = 0
-      this.ringtoneAudio.play().catch(err => {
-        logger.error('❌ Error playing ringtone:', err)
-        this.isRingtonePlaying = false
+  // ===== Групповые звонки (mesh: отдельное SimplePeer соединение с каждым участником) =====
+
+  getRoomId(): string | null {
+    return this.roomId
+  }
+
+  getParticipants(): CallParticipant[] {
+    return Array.from(this.roomPeers.values()).map(({ participant }) => ({ ...participant }))
+  }
+
+  private emitParticipants() {
+    this.onParticipantsChange?.(this.getParticipants())
+  }
+
+  // ID всех собеседников в звонке: основной + участники комнаты
+  private getCallPeerIds(): string[] {
+    const ids = Array.from(this.roomPeers.keys())
+    return this.targetUserId ? [this.targetUserId, ...ids] : ids
+  }
+
+  // Соединения текущего звонка: основной собеседник + участники комнаты
+  private getCallPeers(): Array<{ userId: string, peer: SimplePeer.Instance }> {
+    const peers = Array.from(this.roomPeers.entries()).map(([userId, roomPeer]) => ({ userId, peer: roomPeer.peer }))
+    return this.peer && this.targetUserId ? [{ userId: this.targetUserId, peer: this.peer }, ...peers] : peers
+  }
+
+  // Отправка по data channel; false - канал еще не открыт (или уже закрыт)
+  private sendPeerData(peer: SimplePeer.Instance, message: PeerDataMessage): boolean {
+    if (peer.destroyed || !peer.connected) return false
+
+    try {
+      peer.send(encodePeerData(message))
+      return true
+    } catch (err) {
+      logger.warn(`Failed to send ${message.type} over data channel:`, err)
+      return false
+    }
+  }
+
+  // Статус микрофона и голосовой активности идет по data channel. Пока канал не открыт, через сигнализацию
+  // уходит только статус микрофона: голосовая активность быстро устаревает, и ее поток упирался бы в лимит сигналов
+  private async sendPeerStatus(message: Extract<PeerDataMessage, { type: 'mute_status' | 'voice_activity' }>) {
+    await Promise.all(this.getCallPeers().map(({ userId, peer }) => {
+      if (this.sendPeerData(peer, message) || message.type !== 'mute_status') return Promise.resolve()
+
+      return this.sendSignal({
+        type: 'mute_status',
+        from: this.currentUserId,
+        to: userId,
+        muted: message.muted
       })
+    }))
+  }
+
+  // Сообщения data channel от основного собеседника, участника комнаты или звонка на удержании
+  private handlePeerData(peer: SimplePeer.Instance, data: unknown) {
+    const message = parsePeerData(data)
+    if (!message) return
+
+    const held = this.heldCall?.peer === peer ? this.heldCall : null
+    const roomEntry = Array.from(this.roomPeers.entries()).find(([, roomPeer]) => roomPeer.peer === peer)
+    const from = held?.userId ?? roomEntry?.[0] ?? (peer === this.peer ? this.targetUserId : null)
+    if (!from) return
+
+    switch (message.type) {
+      case 'keep_alive':
+        return
+      case 'e2ee_key':
+        if (peer === this.peer) {
+          this.e2ee?.setRemoteKey(message.publicKey)
+        }
+        return
+      case 'mute_status':
+        if (held) {
+          held.remoteMuted = message.muted
+        } else if (roomEntry) {
+          roomEntry[1].participant.muted = message.muted
+          this.emitParticipants()
+        } else {
+          this.remoteMuted = message.muted
+          this.onRemoteMutedChange?.(message.muted)
+        }
+        return
+      case 'voice_activity':
+        if (roomEntry) {
+          roomEntry[1].participant.speaking = message.active
+          this.emitParticipants()
+        } else if (!held) {
+          this.onRemoteVoiceActivityChange?.(message.active)
+        }
+        return
+      case 'chat':
+        this.receiveChatMessage(peer, from, message, held)
+        return
+      case 'chat_ack':
+        this.handleChatAck(from, message.id, held)
+        return
+      case 'typing':
+        if (!held) {
+          this.setRemoteTyping(from, message.active)
+        }
+        return
     }
   }
 
-  // Остановка рингтона
-  stopRingtone() {
-    if (this.ringtoneAudio && this.isRingtonePlaying) {
-      this.ringtoneAudio.pause()
-      this.ringtoneAudio.currentTime = 0
-      this.isRingtonePlaying = false
+  // Отправка сообщения в чат всем участникам звонка
+  sendChatMessage(text: string): ChatMessage | null {
+    const body = text.trim().slice(0, MAX_CHAT_MESSAGE_LENGTH)
+    if (!body || !this.isCallActive) return null
+
+    const message: ChatMessage = {
+      id: crypto.randomUUID(),
+      from: this.currentUserId,
+      text: body,
+      sentAt: Date.now(),
+      status: 'sent',
+    }
+
+    const recipients = new Set<string>()
+    this.getCallPeers().forEach(({ userId, peer }) => {
+      if (this.sendPeerData(peer, { type: 'chat', id: message.id, text: body, sentAt: message.sentAt })) {
+        recipients.add(userId)
+      }
+    })
+
+    if (recipients.size > 0) {
+      this.chatPendingAcks.set(message.id, recipients)
+      if (this.callId) {
+        this.services.saveCallMessage(this.callId, message)
+      }
+    } else {
+      message.status = 'failed'
+      logger.warn('💬 Chat message not sent: data channel is not open')
     }
+
+    this.lastTypingSentAt = 0
+    this.chatMessages = [...this.chatMessages, message]
+    this.onChatMessagesChange?.(this.chatMessages)
+    return message
   }
 
-  // Воспроизведение звука окончания звонка
-  playEndCallSound() {
-    if (this.endCallAudio) {
-      this.endCallAudio.currentTime = 0
-      this.endCallAudio.play().catch(err => {
-        logger.error('❌ Error playing end call sound:', err)
-      })
+  // Статус "печатает" (повторяется не чаще TYPING_RESEND_MS, собеседник скрывает его сам по таймауту)
+  sendTypingStatus(active: boolean) {
+    const now = Date.now()
+    if (active && now - this.lastTypingSentAt < TYPING_RESEND_MS) return
+    if (!active && !this.lastTypingSentAt) return
+
+    this.lastTypingSentAt = active ? now : 0
+    this.getCallPeers().forEach(({ peer }) => this.sendPeerData(peer, { type: 'typing', active }))
+  }
+
+  private receiveChatMessage(peer: SimplePeer.Instance, from: string, data: Extract<PeerDataMessage, { type: 'chat' }>, held: HeldCall | null) {
+    this.sendPeerData(peer, { type: 'chat_ack', id: data.id })
+
+    const message: ChatMessage = { id: data.id, from, text: data.text, sentAt: data.sentAt, status: 'delivered' }
+    if (held) {
+      held.chatMessages = [...held.chatMessages, message]
+      return
+    }
+    if (this.chatMessages.some(existing => existing.id === message.id)) return
+
+    this.setRemoteTyping(from, false)
+    this.chatMessages = [...this.chatMessages, message]
+    this.onChatMessagesChange?.(this.chatMessages)
+  }
+
+  // Сообщение доставлено, когда его подтвердили все получатели
+  private handleChatAck(from: string, messageId: string, held: HeldCall | null) {
+    const pending = this.chatPendingAcks.get(messageId)
+    if (!pending) return
+
+    pending.delete(from)
+    if (pending.size > 0) return
+    this.chatPendingAcks.delete(messageId)
+
+    const markDelivered = (messages: ChatMessage[]) =>
+      messages.map(message => message.id === messageId ? { ...message, status: 'delivered' as const } : message)
+
+    if (held) {
+      held.chatMessages = markDelivered(held.chatMessages)
+      return
+    }
+    this.chatMessages = markDelivered(this.chatMessages)
+    this.onChatMessagesChange?.(this.chatMessages)
+  }
+
+  private setRemoteTyping(userId: string, active: boolean) {
+    const timer = this.typingTimers.get(userId)
+    if (timer) {
+      clearTimeout(timer)
+      this.typingTimers.delete(userId)
+    }
+    if (active) {
+      this.typingTimers.set(userId, setTimeout(() => this.setRemoteTyping(userId, false), TYPING_TIMEOUT_MS))
+    }
+    if (active || timer) {
+      this.onRemoteTypingChange?.(Array.from(this.typingTimers.keys()))
+    }
+  }
+
+  // Чат относится к текущему разговору: при смене собеседника и завершении звонка начинается заново
+  private resetChat(messages: ChatMessage[] = []) {
+    this.typingTimers.forEach(timer => clearTimeout(timer))
+    this.typingTimers.clear()
+    this.lastTypingSentAt = 0
+    this.chatMessages = messages
+    this.onRemoteTypingChange?.([])
+    this.onChatMessagesChange?.(messages)
+  }
+
+  // Отправка файла собеседнику - только в разговоре один на один
+  async sendFile(file: File) {
+    if (!this.isCallActive || !this.peer || this.roomPeers.size > 0) {
+      this.onError?.('Файлы можно отправлять только в разговоре один на один')
+      return
+    }
+
+    try {
+      await this.fileTransfers.sendFile(file)
+    } catch (err) {
+      logger.warn('📁 File offer failed:', err)
+      this.onError?.(`Не удалось отправить файл: ${err instanceof Error ? err.message : 'неизвестная ошибка'}`)
+    }
+  }
+
+  acceptFile(transferId: string) {
+    this.fileTransfers.accept(transferId)
+  }
+
+  declineFile(transferId: string) {
+    this.fileTransfers.decline(transferId)
+  }
+
+  cancelFileTransfer(transferId: string) {
+    this.fileTransfers.cancel(transferId)
+  }
+
+  // Канал файлов создается на соединении основного собеседника после подключения и после восстановления ICE
+  private attachFileChannel(peer: SimplePeer.Instance) {
+    const pc = (peer as SimplePeerWithPC)._pc
+    if (pc) {
+      this.fileTransfers.attach(pc)
+    }
+  }
+
+  // Сессия шифрования создается до SimplePeer: от нее зависит конфигурация RTCPeerConnection
+  private async createE2eeSession(requested: boolean): Promise<E2eeSession | null> {
+    if (!requested) return null
+    if (!isE2eeSupported()) {
+      logger.warn('🔐 E2EE requested but encoded transforms are not supported by this browser')
+      return null
+    }
+
+    const session = new E2eeSession(this.currentUserId, this.targetUserId!, (status) => {
+      if (session === this.e2ee) this.onE2eeChange?.(status)
+    })
+    try {
+      await session.init()
+      return session
+    } catch (err) {
+      logger.error('🔐 Failed to start E2EE session:', err)
+      session.close()
+      return null
+    }
+  }
+
+  // Шифрование подключается к каждому отправителю и получателю, включая появившиеся при renegotiation
+  private attachE2ee(peer: SimplePeer.Instance) {
+    const pc = (peer as SimplePeerWithPC)._pc
+    if (this.e2ee && pc) {
+      this.e2ee.attach(pc)
+    }
+  }
+
+  private closeE2ee() {
+    if (!this.e2ee) return
+    this.e2ee.close()
+    this.e2ee = null
+    this.onE2eeChange?.(null)
+  }
+
+  // Отправка служебного сигнала всем участникам комнаты (основной собеседник получает его отдельно)
+  private async sendToRoom(data: Omit<CallSignal, 'from' | 'to'>) {
+    if (!this.currentUserId) return
+
+    await Promise.all(Array.from(this.roomPeers.keys()).map(userId =>
+      this.sendSignal({ ...data, from: this.currentUserId, to: userId })
+    ))
+  }
+
+  // Приглашение пользователя в уже идущий звонок
+  async inviteToCall(userId: string) {
+    if (!this.isCallActive || !this.roomId || !this.localStream) {
+      logger.warn('Cannot invite: no active call')
+      return
+    }
+
+    if (this.heldCall || this.waitingCall) {
+      this.onError?.('Нельзя приглашать участников, пока есть звонок на удержании')
+      return
+    }
+
+    // Ключи согласованы только с основным собеседником
+    if (this.e2ee) {
+      this.onError?.('Групповые звонки недоступны при сквозном шифровании')
+      return
+    }
+
+    const peerIds = this.getCallPeerIds()
+    if (peerIds.includes(userId) || userId === this.currentUserId) {
+      logger.log(`👥 User ${userId.slice(0, 8)} is already in the call`)
+      return
+    }
+
+    if (peerIds.length + 1 >= MAX_ROOM_PARTICIPANTS) {
+      this.onError?.(`В групповом звонке может быть не больше ${MAX_ROOM_PARTICIPANTS} участников`)
+      return
+    }
+
+    logger.log(`👥 [User ${this.currentUserId.slice(0, 8)}] Inviting ${userId.slice(0, 8)} to room ${this.roomId.slice(0, 8)}`)
+    // Приглашение - отдельный звонок в истории
+    const callId = crypto.randomUUID()
+    this.callRecords.set(callId, this.services.createCallRecord(callId, this.currentUserId, userId, this.callMedia))
+
+    // Приглашенный получит список участников вместе с offer и сам подключится к остальным
+    const roomPeer = this.createRoomPeer(userId, true, peerIds, callId)
+
+    // Приглашение без ответа снимаем по тому же таймауту, что и обычный звонок
+    setTimeout(() => {
+      if (this.roomPeers.get(userId) === roomPeer && !roomPeer.participant.connected) {
+        logger.log(`⏰ Invitation to ${userId.slice(0, 8)} timed out`)
+        this.sendSignal({ type: 'call-timeout', from: this.currentUserId, to: userId })
+        this.removeRoomPeer(userId)
+      }
+    }, this.ringTimeoutMs)
+  }
+
+  private createRoomPeer(userId: string, isInitiator: boolean, participants?: string[], callId?: string): RoomPeer {
+    const peer = new SimplePeer({
+      initiator: isInitiator,
+      trickle: true,
+      stream: this.localStream || undefined,
+      config: this.getPeerConfig(),
+      sdpTransform: (sdp: string) => applyAudioProfileToSdp(sdp, this.callAudioProfile),
+    })
+
+    const roomPeer: RoomPeer = {
+      peer,
+      participant: {
+        userId,
+        stream: null,
+        connected: false,
+        muted: false,
+        speaking: false,
+        videoEnabled: false,
+      },
+      callId,
+    }
+    this.roomPeers.set(userId, roomPeer)
+    this.emitParticipants()
+
+    // Новый участник на запись не соглашался
+    this.stopRecording()
+
+    peer.on('signal', async (data) => {
+      try {
+        if (data.type === 'offer' && callId) {
+          await this.callRecords.get(callId)
+        }
+        await this.sendSignal({
+          type: data.type as CallSignal['type'],
+          from: this.currentUserId,
+          to: userId,
+          signal: data,
+          media: this.callMedia,
+          participants: data.type === 'offer' ? participants : undefined,
+          callId: data.type === 'offer' ? callId : undefined,
+        })
+      } catch (err) {
+        logger.error('Error sending room signal:', err)
+      }
+    })
+
+    peer.on('connect', () => {
+      logger.log(`👥 Room peer ${userId.slice(0, 8)} connected`)
+      roomPeer.participant.connected = true
+      this.emitParticipants()
+
+      // Сообщаем новому участнику наш статус микрофона и камеры
+      const audioTrack = this.localStream?.getAudioTracks()[0]
+      this.sendPeerData(peer, { type: 'mute_status', muted: audioTrack ? !audioTrack.enabled : false })
+      this.sendSignal({ type: 'video_status', from: this.currentUserId, to: userId, videoEnabled: this.isVideoEnabled() })
+    })
+
+    peer.on('stream', (stream: MediaStream) => {
+      roomPeer.participant.stream = stream
+      // Участник мог стать основным собеседником
+      if (this.peer === peer) {
+        this.remoteStream = stream
+        this.onRemoteStream?.(stream)
+      }
+      this.emitParticipants()
+    })
+
+    peer.on('track', () => {
+      this.emitParticipants()
+    })
+
+    peer.on('data', (data: unknown) => this.handlePeerData(peer, data))
+
+    peer.on('error', (err: Error) => {
+      logger.warn(`👥 Room peer ${userId.slice(0, 8)} error:`, err.message)
+    })
+
+    peer.on('close', () => {
+      logger.log(`👥 Room peer ${userId.slice(0, 8)} closed`)
+      if (this.peer === peer) {
+        // Основной собеседник (бывший участник комнаты) отключился
+        if (!this.promoteRoomPeer()) {
+          this.handleRemoteEndCall()
+        }
+      } else {
+        this.removeRoomPeer(userId)
+      }
+    })
+
+    return roomPeer
+  }
+
+  private removeRoomPeer(userId: string, reason?: CallEndReason) {
+    const roomPeer = this.roomPeers.get(userId)
+    if (!roomPeer) return
+
+    this.roomPeers.delete(userId)
+    roomPeer.peer.removeAllListeners()
+    if (!roomPeer.peer.destroyed) {
+      roomPeer.peer.destroy()
+    }
+
+    if (roomPeer.callId) {
+      this.services.finishCallRecord(roomPeer.callId, reason ?? (roomPeer.participant.connected ? 'completed' : 'missed'))
+    }
+
+    logger.log(`👥 Participant ${userId.slice(0, 8)} left the room`)
+    this.emitParticipants()
+  }
+
+  private destroyRoomPeers() {
+    for (const userId of Array.from(this.roomPeers.keys())) {
+      this.removeRoomPeer(userId)
+    }
+    this.pendingRoomParticipants = []
+  }
+
+  // Основной собеседник покинул групповой звонок - основным становится первый из оставшихся участников
+  private promoteRoomPeer(): boolean {
+    const next = this.roomPeers.values().next().value as RoomPeer | undefined
+    if (!next) return false
+
+    const { userId } = next.participant
+    logger.log(`👥 Promoting participant ${userId.slice(0, 8)} to primary peer`)
+
+    const oldPeer = this.peer
+    this.roomPeers.delete(userId)
+
+    // Разговор с ушедшим собеседником завершен, дальше история ведется по звонку нового основного участника
+    this.finishCall('completed')
+    this.callId = next.callId || null
+    this.callAnswered = true
+
+    this.peer = next.peer
+    this.refs.peerRef.current = next.peer
+    this.targetUserId = userId
+    this.peerUserId = userId
+    this.remoteStream = next.participant.stream
+    this.fileTransfers.detach()
+
+    if (oldPeer && oldPeer !== next.peer && !oldPeer.destroyed) {
+      oldPeer.removeAllListeners()
+      oldPeer.destroy()
+    }
+
+    this.onPrimaryPeerChange?.(userId)
+    if (next.participant.stream) {
+      this.onRemoteStream?.(next.participant.stream)
+    }
+    this.onRemoteMutedChange?.(next.participant.muted)
+    this.onRemoteVideoChange?.(next.participant.videoEnabled)
+    this.emitParticipants()
+    return true
+  }
+
+  // Сигналы от участников комнаты (кроме основного собеседника)
+  private handleRoomSignal(data: CallSignal) {
+    const { type, from, signal } = data
+    const roomPeer = this.roomPeers.get(from)
+
+    switch (type) {
+      case 'end-call':
+        this.removeRoomPeer(from)
+        return
+      case 'reject':
+      case 'rejected':
+      case 'busy':
+        // Приглашенный отклонил приглашение, не принимает звонки от нас или занят другим звонком
+        logger.log(`👥 ${from.slice(0, 8)} declined the invitation: ${type}`)
+        this.removeRoomPeer(from, type === 'busy' ? 'busy' : 'rejected')
+        return
+      case 'mute_status':
+      case 'voice_activity':
+      case 'video_status':
+        if (roomPeer) {
+          if (type === 'mute_status') roomPeer.participant.muted = !!data.muted
+          if (type === 'voice_activity') roomPeer.participant.speaking = !!data.active
+          if (type === 'video_status') roomPeer.participant.videoEnabled = !!data.videoEnabled
+          this.emitParticipants()
+        }
+        return
+      case 'keep_alive':
+        return
+    }
+
+    if (!signal) return
+
+    if (!roomPeer) {
+      // Новый участник сам подключается ко всем, кто уже в комнате
+      if (type !== 'offer') {
+        logger.log(`👥 Ignoring ${type} from unknown participant ${from.slice(0, 8)}`)
+        return
+      }
+      if (this.getCallPeerIds().length + 1 >= MAX_ROOM_PARTICIPANTS) {
+        logger.warn(`👥 Room is full, ignoring offer from ${from.slice(0, 8)}`)
+        return
+      }
+      logger.log(`👥 New participant ${from.slice(0, 8)} joined room ${this.roomId?.slice(0, 8)}`)
+      this.createRoomPeer(from, false).peer.signal(applyAudioProfileToSignal(signal, this.callAudioProfile))
+      return
+    }
+
+    try {
+      roomPeer.peer.signal(applyAudioProfileToSignal(signal, this.callAudioProfile))
+    } catch (err) {
+      logger.warn(`👥 Error processing room signal from ${from.slice(0, 8)}:`, err)
+    }
+  }
+
+  // Запуск демонстрации экрана - отдельный поток добавляется в существующее соединение (SimplePeer сделает renegotiation)
+  async startScreenShare() {
+    if (this.screenStream) {
+      logger.log('🖥️ Screen share already active')
+      return
+    }
+
+    if (!this.peer || this.peer.destroyed || !this.targetUserId) {
+      logger.warn('Cannot start screen share: no active call')
+      return
+    }
+
+    try {
+      this.screenStream = await navigator.mediaDevices.getDisplayMedia({
+        video: { frameRate: { ideal: 15, max: 30 } },
+        audio: false,
+      })
+    } catch (err) {
+      logger.error('Error starting screen share:', err)
+      // NotAllowedError - пользователь просто закрыл диалог выбора экрана
+      if (!(err instanceof Error && err.name === 'NotAllowedError')) {
+        this.onError?.('Не удалось начать демонстрацию экрана')
+      }
+      return
+    }
+
+    // Пользователь может остановить демонстрацию кнопкой браузера
+    const [screenTrack] = this.screenStream.getVideoTracks()
+    screenTrack.addEventListener('ended', () => {
+      logger.log('🖥️ Screen share ended by browser UI')
+      this.stopScreenShare()
+    })
+
+    this.peer.addStream(this.screenStream)
+    this.attachE2ee(this.peer)
+    logger.log(`🖥️ Screen share started, stream ${this.screenStream.id}`)
+
+    this.onScreenShareChange?.(true)
+    await this.sendScreenShareStatus(true, this.screenStream.id)
+  }
+
+  // Остановка демонстрации экрана
+  async stopScreenShare() {
+    if (!this.screenStream) return
+
+    const stream = this.screenStream
+    this.screenStream = null
+
+    if (this.peer && !this.peer.destroyed) {
+      try {
+        this.peer.removeStream(stream)
+      } catch (err) {
+        logger.warn('Error removing screen stream from peer:', err)
+      }
+    }
+
+    stream.getTracks().forEach(track => track.stop())
+    logger.log('🖥️ Screen share stopped')
+
+    this.onScreenShareChange?.(false)
+    await this.sendScreenShareStatus(false, stream.id)
+  }
+
+  isScreenSharing(): boolean {
+    return !!this.screenStream
+  }
+
+  private async sendScreenShareStatus(active: boolean, streamId: string) {
+    if (!this.targetUserId || !this.currentUserId) return
+
+    try {
+      await this.sendSignal({
+        type: 'screen_share',
+        from: this.currentUserId,
+        to: this.targetUserId,
+        active,
+        streamId
+      })
+    } catch (error) {
+      logger.warn('Failed to send screen share status:', error)
+    }
+  }
+
+  // Передача входящего потока демонстрации экрана в UI
+  private handleRemoteScreenStream(stream: MediaStream) {
+    this.remoteScreenStream = stream
+    logger.log(`🖥️ Remote screen share stream received: ${stream.id}`)
+    this.onRemoteScreenShare?.(stream)
+  }
+
+  // Запрос записи звонка: запись начнется только после согласия собеседника (только в разговоре вдвоем)
+  async requestRecording() {
+    if (!this.isCallActive || !this.targetUserId || this.recordingState !== 'idle') return
+
+    if (this.roomPeers.size > 0) {
+      this.onError?.('Запись доступна только в разговоре вдвоем')
+      return
+    }
+    if (!isRecordingSupported()) {
+      this.onError?.('Браузер не поддерживает запись звонков')
+      return
+    }
+
+    logger.log(`⏺️ Requesting recording consent from ${this.targetUserId.slice(0, 8)}`)
+    this.recordingPeerId = this.targetUserId
+    this.recordingCallId = this.callId
+    this.setRecordingState('requesting')
+    await this.sendRecordingStatus(this.targetUserId, 'request')
+  }
+
+  // Ответ на запрос собеседника записать звонок
+  async respondToRecordingRequest(accepted: boolean) {
+    const userId = this.recordingRequestFrom
+    if (!userId) return
+
+    this.recordingRequestFrom = null
+    this.onRecordingRequest?.(null)
+    logger.log(`⏺️ Recording ${accepted ? 'allowed' : 'declined'} for ${userId.slice(0, 8)}`)
+    await this.sendRecordingStatus(userId, accepted ? 'accept' : 'decline')
+  }
+
+  // Остановка записи (или отмена запроса) с уведомлением собеседника
+  async stopRecording() {
+    const userId = this.recordingPeerId
+    if (this.recordingState === 'idle' || !userId) return
+
+    this.finishRecording()
+    await this.sendRecordingStatus(userId, 'stop')
+  }
+
+  getRecordingState(): RecordingState {
+    return this.recordingState
+  }
+
+  private handleRecordingSignal(from: string, action?: RecordingAction) {
+    logger.log(`⏺️ [User ${this.currentUserId.slice(0, 8)}] Recording ${action} from ${from.slice(0, 8)}`)
+
+    switch (action) {
+      case 'request':
+        if (!this.isCallActive || from !== this.targetUserId) {
+          this.sendRecordingStatus(from, 'decline')
+          return
+        }
+        this.recordingRequestFrom = from
+        this.onRecordingRequest?.(from)
+        return
+      case 'accept':
+        if (this.recordingState === 'requesting' && from === this.recordingPeerId) {
+          this.startRecorder(from)
+        }
+        return
+      case 'decline':
+        if (this.recordingState === 'requesting' && from === this.recordingPeerId) {
+          this.recordingPeerId = null
+          this.recordingCallId = null
+          this.setRecordingState('idle')
+          this.onError?.('Собеседник не разрешил запись звонка')
+        }
+        return
+      case 'start':
+        this.setRemoteRecording(true)
+        return
+      case 'stop':
+        // Собеседник передумал до нашего ответа
+        if (this.recordingRequestFrom === from) {
+          this.recordingRequestFrom = null
+          this.onRecordingRequest?.(null)
+        }
+        this.setRemoteRecording(false)
+        return
+    }
+  }
+
+  private startRecorder(userId: string) {
+    const recorder = new CallRecorder()
+    try {
+      recorder.start([this.localStream, this.remoteStream].filter((stream): stream is MediaStream => !!stream))
+    } catch (err) {
+      logger.error('Failed to start call recording:', err)
+      this.recordingPeerId = null
+      this.recordingCallId = null
+      this.setRecordingState('idle')
+      this.onError?.('Не удалось начать запись звонка')
+      this.sendRecordingStatus(userId, 'stop')
+      return
+    }
+
+    this.recorder = recorder
+    this.setRecordingState('recording')
+    this.sendRecordingStatus(userId, 'start')
+  }
+
+  // Завершение записи: файл отдается в UI, когда MediaRecorder допишет последние данные
+  private finishRecording() {
+    const recorder = this.recorder
+    const peerUserId = this.recordingPeerId
+    const callId = this.recordingCallId
+
+    this.recorder = null
+    this.recordingPeerId = null
+    this.recordingCallId = null
+    this.setRecordingState('idle')
+
+    if (!recorder || !peerUserId) return
+
+    recorder.stop().then(result => {
+      if (!result) return
+
+      const createdAt = new Date().toISOString()
+      const extension = result.blob.type.includes('mp4') ? 'm4a' : 'webm'
+      this.onRecordingReady?.({
+        blob: result.blob,
+        url: URL.createObjectURL(result.blob),
+        fileName: `call-${createdAt.slice(0, 19).replace(/[:T]/g, '-')}.${extension}`,
+        duration: result.duration,
+        peerUserId,
+        callId,
+        createdAt,
+      })
+    }).catch(err => logger.error('Failed to finish call recording:', err))
+  }
+
+  private setRecordingState(state: RecordingState) {
+    if (this.recordingState === state) return
+    this.recordingState = state
+    this.onRecordingStateChange?.(state)
+  }
+
+  private setRemoteRecording(active: boolean) {
+    if (this.remoteRecording === active) return
+    this.remoteRecording = active
+    this.onRemoteRecordingChange?.(active)
+  }
+
+  // Звонок сменился (удержание, завершение) - запись и запросы согласия относились к прошлому разговору
+  private resetRecording() {
+    this.finishRecording()
+    this.setRemoteRecording(false)
+    if (this.recordingRequestFrom) {
+      this.recordingRequestFrom = null
+      this.onRecordingRequest?.(null)
+    }
+  }
+
+  private async sendRecordingStatus(to: string, recording: RecordingAction) {
+    try {
+      await this.sendSignal({
+        type: 'recording_status',
+        from: this.currentUserId,
+        to,
+        recording
+      })
+    } catch (error) {
+      logger.warn('Failed to send recording status:', error)
+    }
+  }
+
+  // Инициализация звуков для звонков
+  initializeSounds() {
+    try {
+      // Рингтон
+      const ringtoneUrl = this.services.getSoundUrl('ringtone.mp3')
+      if (ringtoneUrl) {
+        this.ringtoneAudio = new Audio(ringtoneUrl)
+        this.ringtoneAudio.loop = true
+        this.ringtoneAudio.volume = 0.3
+      }
+
+      // Звук окончания звонка
+      const endCallUrl = this.services.getSoundUrl('endcall.mp3')
+      if (endCallUrl) {
+        this.endCallAudio = new Audio(endCallUrl)
+        this.endCallAudio.volume = 0.7
+      }
+
+      // Звук начала звонка
+      const startUrl = this.services.getSoundUrl('start.mp3')
+      if (startUrl) {
+        this.startAudio = new Audio(startUrl)
+        this.startAudio.volume = 0.8
+      }
+
+      // Музыка удержания
+      const holdUrl = this.services.getSoundUrl('hold.mp3')
+      if (holdUrl) {
+        this.holdAudio = new Audio(holdUrl)
+        this.holdAudio.loop = true
+        this.holdAudio.volume = 0.3
+      }
+
+      logger.log('🔊 Sounds initialized successfully')
+    } catch (error) {
+      logger.error('❌ Error initializing sounds:', error)
+    }
+  }
+
+  // Воспроизведение рингтона
+  playRingtone() {
+    if (this.ringtoneAudio && !this.isRingtonePlaying) {
+      this.isRingtonePlaying = true
+      this.ringtoneAudio.currentTime = 0
+      this.ringtoneAudio.play().catch(err => {
+        logger.error('❌ Error playing ringtone:', err)
+        this.isRingtonePlaying = false
+      })
+    }
+  }
+
+  // Остановка рингтона
+  stopRingtone() {
+    if (this.ringtoneAudio && this.isRingtonePlaying) {
+      this.ringtoneAudio.pause()
+      this.ringtoneAudio.currentTime = 0
+      this.isRingtonePlaying = false
+    }
+  }
+
+  // Воспроизведение звука окончания звонка
+  playEndCallSound() {
+    if (this.endCallAudio) {
+      this.endCallAudio.currentTime = 0
+      this.endCallAudio.play().catch(err => {
+        logger.error('❌ Error playing end call sound:', err)
+      })
+    }
+  }
+
+  // Воспроизведение звука начала звонка
+  playStartSound() {
+    if (this.startAudio) {
+      this.startAudio.currentTime = 0
+      this.startAudio.play().catch(err => {
+        logger.error('❌ Error playing start sound:', err)
+      })
+    }
+  }
+
+  // Музыка удержания (играет у того, кого поставили на удержание)
+  playHoldMusic() {
+    if (this.holdAudio && this.holdAudio.paused) {
+      this.holdAudio.currentTime = 0
+      this.holdAudio.play().catch(err => {
+        logger.error('❌ Error playing hold music:', err)
+      })
+    }
+  }
+
+  stopHoldMusic() {
+    if (this.holdAudio && !this.holdAudio.paused) {
+      this.holdAudio.pause()
+      this.holdAudio.currentTime = 0
+    }
+  }
+
+  // Обработка завершения звонка от удаленного пользователя (без отправки сигнала обратно)
+  handleRemoteEndCall() {
+    logger.log(`📞 [User ${this.currentUserId.slice(0, 8)}] Handling remote end call - current state: isCallActive=${this.isCallActive}, targetUserId=${this.targetUserId?.slice(0, 8)}`)
+
+    // Собеседник положил трубку, но есть звонок на удержании - возвращаемся к нему
+    if (this.heldCall && this.isCallActive && this.callAnswered) {
+      this.playEndCallSound()
+      this.finishCall('completed')
+      this.resumeHeldCallAfterEnd()
+      return
+    }
+
+    const waiting = this.waitingCall
+
+    // Останавливаем рингтон и проигрываем звук окончания звонка
+    this.stopRingtone()
+    this.playEndCallSound()
+
+    // Собеседник сбросил до ответа: для звонящего - отказ, для принимающего - пропущенный звонок
+    if (!this.callAnswered) {
+      if (this.incomingCallerId && this.callId) {
+        this.onMissedCall?.(this.incomingCallerId)
+      }
+      this.finishCall(this.incomingCallerId ? 'missed' : 'rejected')
+    } else {
+      this.finishCall('completed')
+    }
+
+    // Очищаем соединение без отправки сигнала
+    this.isCallActive = false
+    this.targetUserId = null
+    this.incomingCallerId = null
+    this.cleanup()
+
+    // Устанавливаем состояние idle
+    this.onStateChange?.('idle')
+
+    // Показываем сообщение пользователю
+    this.onError?.('Звонок завершен собеседником')
+
+    // Второй звонок продолжает звонить как обычный входящий
+    if (waiting) {
+      this.ringWaitingCall(waiting)
+    }
+  }
+
+  private startRingTimeout() {
+    this.clearRingTimeout()
+    this.ringTimeout = setTimeout(() => {
+      this.ringTimeout = null
+      this.handleRingTimeout()
+    }, this.ringTimeoutMs)
+  }
+
+  private clearRingTimeout() {
+    if (this.ringTimeout) {
+      clearTimeout(this.ringTimeout)
+      this.ringTimeout = null
+    }
+  }
+
+  // Никто не ответил за отведенное время - завершаем попытку звонка на обеих сторонах
+  private async handleRingTimeout() {
+    if (this.callAnswered) return
+
+    const isIncoming = !!this.incomingCallerId
+    const peerId = this.incomingCallerId || this.targetUserId
+    if (!peerId) return
+
+    logger.log(`⏰ [User ${this.currentUserId.slice(0, 8)}] Ring timeout for ${isIncoming ? 'incoming' : 'outgoing'} call with ${peerId.slice(0, 8)}`)
+
+    this.stopRingtone()
+
+    if (!isIncoming) {
+      // Звонящий сообщает принимающему, что звонок больше не ждет ответа
+      try {
+        await this.sendSignal({
+          type: 'call-timeout',
+          from: this.currentUserId,
+          to: peerId
+        })
+      } catch (err) {
+        logger.error('Error sending call timeout signal:', err)
+      }
+    } else if (this.callId) {
+      this.onMissedCall?.(peerId)
+    }
+
+    this.finishCall('missed')
+    this.isCallActive = false
+    this.targetUserId = null
+    this.incomingCallerId = null
+    this.cleanup()
+    this.onStateChange?.('idle')
+
+    if (!isIncoming) {
+      this.onCallNotAnswered?.(peerId, 'missed')
+    }
+  }
+
+  // Собеседник отклонил звонок, не принимает звонки от нас или занят - завершаем исходящий звонок с отдельным сигналом
+  private handleCallDeclined(from: string, reason: 'rejected' | 'restricted' | 'busy') {
+    if (from !== this.targetUserId || this.incomingCallerId || this.callAnswered) {
+      logger.log(`📵 Ignoring ${reason} signal from ${from.slice(0, 8)}`)
+      return
+    }
+
+    logger.log(`📵 [User ${this.currentUserId.slice(0, 8)}] Call ${reason === 'busy' ? 'busy' : reason} by ${from.slice(0, 8)}`)
+
+    if (reason === 'busy') {
+      playBusyTone()
+    } else {
+      playRejectTone()
+    }
+
+    this.finishCall(reason === 'busy' ? 'busy' : 'rejected')
+    this.isCallActive = false
+    this.targetUserId = null
+    this.cleanup()
+    this.onStateChange?.('idle')
+    this.onCallNotAnswered?.(from, reason)
+  }
+
+  // Входящий звонок от другого пользователя, пока мы разговариваем - отвечаем "занято"
+  private async replyBusy(data: CallSignal) {
+    logger.log(`📵 [User ${this.currentUserId.slice(0, 8)}] Busy, declining call from ${data.from.slice(0, 8)}`)
+
+    try {
+      await this.sendSignal({
+        type: 'busy',
+        from: this.currentUserId,
+        to: data.from,
+        // Отвечаем в комнату звонящего, иначе он отбросит сигнал как устаревший
+        roomId: data.roomId
+      })
+    } catch (err) {
+      logger.error('Error sending busy signal:', err)
+    }
+
+    this.onBusyCall?.(data.from, data.media === 'video' ? 'video' : 'audio')
+  }
+
+  // Звонящему нельзя нам звонить по настройке приватности - отказываем без рингтона и уведомления
+  private async replyRejected(data: CallSignal) {
+    logger.log(`🚫 [User ${this.currentUserId.slice(0, 8)}] Call from ${data.from.slice(0, 8)} rejected by privacy settings (${this.callPrivacy})`)
+
+    try {
+      await this.sendSignal({
+        type: 'rejected',
+        from: this.currentUserId,
+        to: data.from,
+        roomId: data.roomId
+      })
+    } catch (err) {
+      logger.error('Error sending rejected signal:', err)
+    }
+  }
+
+  // Второй звонок можно принять только в обычном разговоре один на один без другого звонка на удержании
+  private canWaitCall(): boolean {
+    return this.isCallActive && this.callAnswered && !this.heldCall && !this.waitingCall && this.roomPeers.size === 0
+  }
+
+  private setWaitingCall(data: CallSignal) {
+    logger.log(`📞 [User ${this.currentUserId.slice(0, 8)}] Call waiting from ${data.from.slice(0, 8)}`)
+
+    this.waitingCall = {
+      userId: data.from,
+      media: data.media === 'video' ? 'video' : 'audio',
+      callId: data.callId || null,
+      roomId: data.roomId || null,
+      e2ee: !!data.e2ee,
+      signals: data.signal ? [data.signal] : [],
+    }
+    this.playStartSound()
+    this.onWaitingCallChange?.({ userId: data.from, media: this.waitingCall.media })
+  }
+
+  private clearWaitingCall() {
+    if (!this.waitingCall) return
+    this.waitingCall = null
+    this.onWaitingCallChange?.(null)
+  }
+
+  // Сигналы от второго звонящего, пока он ждет ответа
+  private handleWaitingSignal(data: CallSignal) {
+    const waiting = this.waitingCall
+    if (!waiting) return
+
+    switch (data.type) {
+      case 'end-call':
+      case 'call-timeout':
+        // Звонящий не дождался ответа
+        logger.log(`📞 Waiting caller ${data.from.slice(0, 8)} hung up`)
+        if (waiting.callId) {
+          this.services.finishCallRecord(waiting.callId, 'missed')
+          this.onMissedCall?.(waiting.userId)
+        }
+        this.clearWaitingCall()
+        return
+      case 'offer':
+      case 'candidate':
+        if (data.signal) {
+          waiting.signals.push(data.signal)
+        }
+        return
+    }
+  }
+
+  // Отклонение второго звонка - текущий разговор продолжается
+  async rejectWaitingCall() {
+    const waiting = this.waitingCall
+    if (!waiting) return
+
+    logger.log(`📵 [User ${this.currentUserId.slice(0, 8)}] Rejecting waiting call from ${waiting.userId.slice(0, 8)}`)
+    this.clearWaitingCall()
+
+    try {
+      await this.sendSignal({
+        type: 'reject',
+        from: this.currentUserId,
+        to: waiting.userId,
+        roomId: waiting.roomId || undefined
+      })
+    } catch (err) {
+      logger.error('Error sending reject signal:', err)
+    }
+
+    if (waiting.callId) {
+      this.services.finishCallRecord(waiting.callId, 'rejected')
+    }
+  }
+
+  // Текущий звонок на удержание, ответ на второй звонок
+  async holdAndAnswerWaitingCall() {
+    const waiting = this.waitingCall
+    if (!waiting || !this.peer || !this.targetUserId) return
+
+    logger.log(`⏸️ [User ${this.currentUserId.slice(0, 8)}] Holding ${this.targetUserId.slice(0, 8)}, answering ${waiting.userId.slice(0, 8)}`)
+    this.clearWaitingCall()
+
+    this.heldCall = this.holdCurrentCall()
+    this.onHeldCallChange?.({ userId: this.heldCall.userId, media: this.callMedia })
+
+    // Новый звонок становится основным, offer и кандидаты уже накоплены
+    this.peer = null
+    this.refs.peerRef.current = null
+    this.targetUserId = waiting.userId
+    this.peerUserId = waiting.userId
+    this.incomingCallerId = waiting.userId
+    this.callId = waiting.callId
+    this.callAnswered = true
+    this.roomId = waiting.roomId
+    this.remoteStream = null
+    this.remoteMuted = false
+    this.remoteVideoEnabled = false
+    this.remoteOnHold = false
+    this.incomingE2ee = waiting.e2ee
+    this.refs.signalBufferRef.current = waiting.signals.map(signal => ({ type: signal.type, signal, from: waiting.userId }))
+
+    if (this.callId) {
+      this.services.markCallAnswered(this.callId)
+    }
+
+    this.onPrimaryPeerChange?.(waiting.userId)
+    this.onRemoteMutedChange?.(false)
+    this.onRemoteVideoChange?.(false)
+    this.onRemoteHoldChange?.(false)
+
+    await this.initializePeer(false)
+
+    try {
+      await this.sendSignal({
+        type: 'call_accepted',
+        from: this.currentUserId,
+        to: waiting.userId
+      })
+    } catch (error) {
+      logger.warn('Failed to send call accepted signal:', error)
+    }
+  }
+
+  // Переключение между текущим звонком и звонком на удержании
+  async swapCalls() {
+    const held = this.heldCall
+    if (!held || !this.peer || !this.targetUserId) return
+
+    logger.log(`🔀 [User ${this.currentUserId.slice(0, 8)}] Swapping to ${held.userId.slice(0, 8)}, holding ${this.targetUserId.slice(0, 8)}`)
+
+    this.heldCall = this.holdCurrentCall()
+    this.restoreCall(held)
+    this.onHeldCallChange?.({ userId: this.heldCall.userId, media: this.callMedia })
+  }
+
+  getHeldCallUserId(): string | null {
+    return this.heldCall?.userId || null
+  }
+
+  // Снимок текущего звонка: перестаем отправлять и слышать собеседника, сообщаем ему об удержании
+  private holdCurrentCall(): HeldCall {
+    const peer = this.peer!
+    const userId = this.targetUserId!
+
+    const held: HeldCall = {
+      peer,
+      userId,
+      callId: this.callId,
+      roomId: this.roomId,
+      remoteStream: this.remoteStream,
+      remoteMuted: this.remoteMuted,
+      remoteVideoEnabled: this.remoteVideoEnabled,
+      remoteOnHold: this.remoteOnHold,
+      chatMessages: this.chatMessages,
+      e2ee: this.e2ee,
+      pausedTracks: this.pausePeerMedia(peer),
+    }
+    this.resetChat()
+    this.fileTransfers.detach()
+    // Сессия шифрования остается у соединения на удержании
+    this.e2ee = null
+    this.onE2eeChange?.(null)
+    this.setStreamEnabled(this.remoteStream, false)
+
+    // Запись не продолжается на удержании - собеседник узнает об этом по сигналу stop
+    this.stopRecording()
+    this.resetRecording()
+
+    this.sendSignal({
+      type: 'hold',
+      from: this.currentUserId,
+      to: userId,
+      active: true
+    }).catch(err => logger.error('Error sending hold signal:', err))
+
+    return held
+  }
+
+  // Возвращение звонка с удержания в качестве основного
+  private restoreCall(call: HeldCall) {
+    this.peer = call.peer
+    this.refs.peerRef.current = call.peer
+    this.targetUserId = call.userId
+    this.peerUserId = call.userId
+    this.incomingCallerId = null
+    this.callId = call.callId
+    this.callAnswered = true
+    this.roomId = call.roomId
+    this.remoteStream = call.remoteStream
+    this.remoteMuted = call.remoteMuted
+    this.remoteVideoEnabled = call.remoteVideoEnabled
+    this.remoteOnHold = call.remoteOnHold
+    this.resetChat(call.chatMessages)
+    this.fileTransfers.detach()
+    this.attachFileChannel(call.peer)
+    this.e2ee = call.e2ee
+    this.onE2eeChange?.(call.e2ee?.currentStatus ?? null)
+
+    this.resumePeerMedia(call.peer, call.pausedTracks)
+    this.setStreamEnabled(call.remoteStream, true)
+    this.qualityMonitor.reset()
+
+    this.sendSignal({
+      type: 'hold',
+      from: this.currentUserId,
+      to: call.userId,
+      active: false
+    }).catch(err => logger.error('Error sending resume signal:', err))
+
+    this.onPrimaryPeerChange?.(call.userId)
+    if (call.remoteStream) {
+      this.onRemoteStream?.(call.remoteStream)
+    }
+    this.onRemoteMutedChange?.(call.remoteMuted)
+    this.onRemoteVideoChange?.(call.remoteVideoEnabled)
+    this.onRemoteHoldChange?.(call.remoteOnHold)
+  }
+
+  // Основной звонок закончился - звонок с удержания снова становится текущим
+  private resumeHeldCallAfterEnd() {
+    const held = this.heldCall!
+    this.heldCall = null
+
+    this.resetRecording()
+    this.closeE2ee()
+
+    const endedPeer = this.peer
+    this.peer = null
+    if (endedPeer && !endedPeer.destroyed) {
+      endedPeer.removeAllListeners()
+      endedPeer.destroy()
+    }
+
+    // Демонстрация экрана относилась к завершенному звонку
+    if (this.screenStream) {
+      this.screenStream.getTracks().forEach(track => track.stop())
+      this.screenStream = null
+      this.onScreenShareChange?.(false)
+    }
+    if (this.remoteScreenStream) {
+      this.onRemoteScreenShare?.(null)
+    }
+    this.remoteScreenStream = null
+    this.remoteScreenStreamId = null
+
+    logger.log(`▶️ [User ${this.currentUserId.slice(0, 8)}] Resuming held call with ${held.userId.slice(0, 8)}`)
+    this.restoreCall(held)
+    this.onHeldCallChange?.(null)
+    this.onStateChange?.('connected')
+  }
+
+  // Сигналы от собеседника, который сейчас на удержании
+  private handleHeldSignal(data: CallSignal) {
+    const held = this.heldCall
+    if (!held) return
+
+    switch (data.type) {
+      case 'end-call':
+        logger.log(`📞 Held call with ${held.userId.slice(0, 8)} ended by remote`)
+        this.endHeldCall()
+        return
+      case 'hold':
+        held.remoteOnHold = !!data.active
+        return
+      case 'mute_status':
+        held.remoteMuted = !!data.muted
+        return
+      case 'video_status':
+        held.remoteVideoEnabled = !!data.videoEnabled
+        return
+    }
+
+    if (!data.signal) return
+
+    try {
+      held.peer.signal(applyAudioProfileToSignal(data.signal, this.callAudioProfile))
+    } catch (err) {
+      logger.warn('Error processing held call signal:', err)
     }
   }
 
-  // Воспроизведение звука начала звонка
-  playStartSound() {
-    if (this.startAudio) {
-      this.startAudio.currentTime = 0
-      this.startAudio.play().catch(err => {
-        logger.error('❌ Error playing start sound:', err)
-      })
+  private endHeldCall() {
+    const held = this.heldCall
+    if (!held) return
+
+    this.heldCall = null
+    held.e2ee?.close()
+    held.peer.removeAllListeners()
+    if (!held.peer.destroyed) {
+      held.peer.destroy()
     }
+    if (held.callId) {
+      this.services.finishCallRecord(held.callId, 'completed')
+    }
+    this.onHeldCallChange?.(null)
   }
 
-  // Обработка завершения звонка от удаленного пользователя (без отправки сигнала обратно)
-  handleRemoteEndCall() {
-    logger.log(`📞 [User ${this.currentUserId.slice(0, 8)}] Handling remote end call - current state: isCallActive=${this.isCallActive}, targetUserId=${this.targetUserId?.slice(0, 8)}`)
+  // Остановка отправки медиа в соединение без пересогласования
+  private pausePeerMedia(peer: SimplePeer.Instance): Map<RTCRtpSender, MediaStreamTrack | null> {
+    const paused = new Map<RTCRtpSender, MediaStreamTrack | null>()
+    const pc = (peer as SimplePeerWithPC)._pc
+    pc?.getSenders().forEach(sender => {
+      paused.set(sender, sender.track)
+      sender.replaceTrack(null).catch(err => logger.warn('Failed to pause sender:', err))
+    })
+    return paused
+  }
 
-    // Останавливаем рингтон и проигрываем звук окончания звонка
-    this.stopRingtone()
-    this.playEndCallSound()
+  private resumePeerMedia(peer: SimplePeer.Instance, paused: Map<RTCRtpSender, MediaStreamTrack | null>) {
+    const pc = (peer as SimplePeerWithPC)._pc
+    pc?.getSenders().forEach(sender => {
+      const track = paused.get(sender)
+      if (track && track.readyState === 'live') {
+        sender.replaceTrack(track).catch(err => logger.warn('Failed to resume sender:', err))
+      }
+    })
+  }
 
-    // Очищаем соединение без отправки сигнала
-    this.isCallActive = false
-    this.targetUserId = null
-    this.incomingCallerId = null
-    this.cleanup()
+  private setStreamEnabled(stream: MediaStream | null, enabled: boolean) {
+    stream?.getTracks().forEach(track => {
+      track.enabled = enabled
+    })
+  }
 
-    // Устанавливаем состояние idle
-    this.onStateChange?.('idle')
+  // Переход в состояние входящего звонка
+  private setIncomingCall(from: string, media: CallMediaKind, callId: string | null, roomId: string | null, e2ee: boolean) {
+    this.incomingCallerId = from
+    this.targetUserId = from
+    this.incomingCallMedia = media
+    this.incomingE2ee = e2ee
+    this.callId = callId
+    this.callAnswered = false
+    this.roomId = roomId
+    this.onStateChange?.('receiving')
+
+    // Запускаем рингтон для входящего звонка и ждем ответа не дольше таймаута
+    this.playRingtone()
+    this.startRingTimeout()
+  }
 
-    // Показываем сообщение пользователю
-    this.onError?.('Звонок завершен собеседником')
+  // Звонок, ожидавший на второй линии, после завершения разговора звонит как обычный входящий
+  private ringWaitingCall(waiting: WaitingCall) {
+    logger.log(`📞 [User ${this.currentUserId.slice(0, 8)}] Waiting call from ${waiting.userId.slice(0, 8)} is now ringing`)
+    this.refs.signalBufferRef.current = waiting.signals.map(signal => ({ type: signal.type, signal, from: waiting.userId }))
+    this.setIncomingCall(waiting.userId, waiting.media, waiting.callId, waiting.roomId, waiting.e2ee)
+  }
+
+  // Звонящий перестал ждать ответа - входящий звонок становится пропущенным
+  private handleRemoteCallTimeout(from: string) {
+    if (from !== this.incomingCallerId || this.callAnswered) {
+      logger.log(`⏰ Ignoring call timeout from ${from.slice(0, 8)}`)
+      return
+    }
+
+    logger.log(`⏰ [User ${this.currentUserId.slice(0, 8)}] Caller ${from.slice(0, 8)} stopped ringing`)
+    this.handleRingTimeout()
   }
 
-  async startCall(targetUserId: string) {
+  async startCall(targetUserId: string, options: CallOptions = {}) {
     if (this.peer && !this.peer.destroyed) {
       logger.log('⚠️ Call already in progress, ignoring start call request')
       return
     }
 
     // Инициализируем канал только при начале звонка
-    await this.initializeSupabaseChannel()
+    await this.ensureSignalChannel()
 
     this.targetUserId = targetUserId
     this.isCallActive = true
+    this.callMedia = options.video ? 'video' : 'audio'
+    this.roomId = crypto.randomUUID()
+    this.callId = crypto.randomUUID()
+    this.callAnswered = false
     this.onStateChange?.('calling')
 
+    // Запись в историю создается параллельно с подготовкой соединения, offer ее дожидается
+    this.callRecords.set(this.callId, this.services.createCallRecord(this.callId, this.currentUserId, targetUserId, this.callMedia))
+    this.startRingTimeout()
+
     await this.initializePeer(true)
   }
 
-  async answerCall(callerId: string) {
+  async answerCall(callerId: string, options: CallOptions = {}) {
     if (this.peer && !this.peer.destroyed) {
       logger.log('⚠️ Call already in progress, ignoring answer call request')
       return
@@ -320,14 +2049,29 @@ export class WebRTCService {
 
     // Останавливаем рингтон при принятии звонка
     this.stopRingtone()
+    this.clearRingTimeout()
 
     // Инициализируем канал только при ответе на звонок
-    await this.initializeSupabaseChannel()
+    await this.ensureSignalChannel()
 
     this.targetUserId = callerId
     this.isCallActive = true
+    // По умолчанию отвечаем тем же типом звонка, что пришел в offer
+    const answerWithVideo = options.video ?? this.incomingCallMedia === 'video'
+    this.callMedia = answerWithVideo ? 'video' : 'audio'
+    this.callAnswered = true
+    if (this.callId) {
+      this.services.markCallAnswered(this.callId)
+    }
     await this.initializePeer(false)
 
+    // Приглашение в групповой звонок - подключаемся к остальным участникам
+    if (this.isCallActive && this.pendingRoomParticipants.length > 0) {
+      logger.log(`👥 Joining ${this.pendingRoomParticipants.length} room participants`)
+      this.pendingRoomParticipants.forEach(userId => this.createRoomPeer(userId, true))
+      this.pendingRoomParticipants = []
+    }
+
     // Отправляем сигнал звонящему о том, что звонок принят
     try {
       await this.sendSignal({
@@ -343,9 +2087,39 @@ export class WebRTCService {
     this.onStateChange?.('connected')
   }
 
-  async endCall() {
+  // Отклонение входящего звонка - звонящий получает сигнал reject
+  async rejectCall() {
+    const callerId = this.incomingCallerId
+    logger.log(`📵 [User ${this.currentUserId.slice(0, 8)}] Rejecting call from ${callerId?.slice(0, 8)}`)
+
+    this.stopRingtone()
+
+    if (callerId) {
+      try {
+        await this.sendSignal({
+          type: 'reject',
+          from: this.currentUserId,
+          to: callerId
+        })
+      } catch (err) {
+        logger.error('Error sending reject signal:', err)
+      }
+    }
+
+    this.finishCall('rejected')
+    this.isCallActive = false
+    this.targetUserId = null
+    this.incomingCallerId = null
+    this.cleanup()
+    this.onStateChange?.('idle')
+  }
+
+  async endCall(reason?: CallEndReason) {
     logger.log(`📞 [User ${this.currentUserId.slice(0, 8)}] Ending call - targetUserId: ${this.targetUserId?.slice(0, 8)}, isCallActive: ${this.isCallActive}`)
 
+    // Без явной причины: сброс входящего - отказ, отмена исходящего до ответа - пропущенный звонок
+    this.finishCall(reason ?? (this.callAnswered ? 'completed' : this.incomingCallerId ? 'rejected' : 'missed'))
+
     // Останавливаем рингтон если он играет
     this.stopRingtone()
 
@@ -366,12 +2140,41 @@ export class WebRTCService {
       }
     }
 
+    // Разговор закончен, но есть звонок на удержании - возвращаемся к нему
+    if (this.heldCall) {
+      this.resumeHeldCallAfterEnd()
+      return
+    }
+
+    // Выходим из групповой комнаты
+    try {
+      await this.sendToRoom({ type: 'end-call' })
+    } catch (err) {
+      logger.error('Error sending end call signal to room:', err)
+    }
+
+    const waiting = this.waitingCall
+
     this.isCallActive = false
     this.targetUserId = null
     this.incomingCallerId = null
 
     this.cleanup()
     this.onStateChange?.('idle')
+
+    // Второй звонок продолжает звонить как обычный входящий
+    if (waiting) {
+      this.ringWaitingCall(waiting)
+    }
+  }
+
+  // Завершение записи в истории звонков (только один раз за звонок)
+  private finishCall(reason: CallEndReason) {
+    if (!this.callId) return
+
+    logger.log(`🗂️ Call ${this.callId.slice(0, 8)} finished: ${reason}`)
+    this.services.finishCallRecord(this.callId, reason)
+    this.callId = null
   }
 
   private async initializePeer(isInitiator: boolean) {
@@ -383,19 +2186,15 @@ export class WebRTCService {
         this.peer = null
       }
 
-      // Запрашиваем микрофон только если его нет
+      // Запрашиваем микрофон (и камеру для видеозвонка) только если потока нет
       if (!this.localStream) {
-        logger.log('Requesting microphone access...')
+        this.callAudioProfile = this.audioProfile
+        logger.log(`Requesting ${this.callMedia === 'video' ? 'camera and microphone' : 'microphone'} access...`)
         logger.log('HTTPS check:', window.location.protocol === 'https:')
 
-        // Получаем только аудио поток
         this.localStream = await navigator.mediaDevices.getUserMedia({
-          video: false,
-          audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
-          },
+          video: this.callMedia === 'video' ? VIDEO_CONSTRAINTS : false,
+          audio: buildAudioConstraints(this.audioInputId, this.callAudioProfile),
         })
       } else {
         logger.log('Using existing microphone stream')
@@ -413,25 +2212,54 @@ export class WebRTCService {
       })
 
       this.onLocalStream?.(this.localStream)
+      this.onAudioProfileChange?.(this.callAudioProfile)
+
+      await this.prepareIceServers()
+
+      // Звонящий включает шифрование по своей настройке, отвечающий - по просьбе из offer
+      this.closeE2ee()
+      this.e2ee = await this.createE2eeSession(isInitiator ? this.e2eeEnabled : this.incomingE2ee)
+      this.onE2eeChange?.(this.e2ee?.currentStatus ?? null)
+      const rtcConfig: RTCConfiguration & { encodedInsertableStreams?: boolean } = this.getPeerConfig()
+      if (this.e2ee && needsEncodedInsertableStreams()) {
+        rtcConfig.encodedInsertableStreams = true
+      }
 
       // Создаем SimplePeer
       const peerConfig = {
         initiator: isInitiator,
         trickle: true,
         stream: this.localStream,
-        config: {
-          iceServers: [
-            { urls: 'stun:stun.l.google.com:19302' },
-            { urls: 'stun:stun1.l.google.com:19302' },
-          ],
-        },
+        config: rtcConfig,
+        sdpTransform: (sdp: string) => applyAudioProfileToSdp(sdp, this.callAudioProfile),
       }
 
       this.peer = new SimplePeer(peerConfig)
+      // Соединение может уйти на удержание - обработчики сверяются с этой ссылкой
+      const peer = this.peer
+
+      const e2ee = this.e2ee
+      const pc = (peer as SimplePeerWithPC)._pc
+      if (e2ee && pc) {
+        e2ee.attach(pc)
+        pc.addEventListener('track', (event) => e2ee.attachTransform(event.receiver, 'decrypt'))
+      }
 
     // Обработчик сигналов
     this.peer.on('signal', async (data) => {
       try {
+        // Соединение на удержании продолжает обмен сигналами со своим собеседником
+        if (this.heldCall?.peer === peer) {
+          await this.sendSignal({
+            type: data.type as CallSignal['type'],
+            from: this.currentUserId,
+            to: this.heldCall.userId,
+            signal: data,
+            roomId: this.heldCall.roomId || undefined
+          })
+          return
+        }
+
         // Проверяем что у нас есть targetUserId перед отправкой
         if (!this.targetUserId) {
           logger.log('⚠️ No targetUserId set, buffering signal until target is set')
@@ -439,11 +2267,17 @@ export class WebRTCService {
           return
         }
 
+        if (data.type === 'offer' && this.callId) {
+          await this.callRecords.get(this.callId)
+        }
         await this.sendSignal({
-          type: data.type,
+          type: data.type as CallSignal['type'],
           from: this.currentUserId,
           to: this.targetUserId,
           signal: data,
+          media: this.callMedia,
+          callId: data.type === 'offer' ? this.callId || undefined : undefined,
+          e2ee: data.type === 'offer' || data.type === 'answer' ? !!this.e2ee : undefined,
         })
       } catch (err) {
         logger.error('Error sending signal:', err)
@@ -452,10 +2286,16 @@ export class WebRTCService {
 
       // Обработчик подключения
       this.peer.on('connect', () => {
+        if (peer !== this.peer) return
         logger.log('Peer connected!')
         this.isCallActive = true
+        this.callAnswered = true
+        this.clearRingTimeout()
         this.onStateChange?.('connected')
 
+        // Сообщаем собеседнику, включена ли у нас камера
+        this.sendVideoStatus()
+
         // Проигрываем звук начала звонка
         this.playStartSound()
 
@@ -464,10 +2304,29 @@ export class WebRTCService {
 
         // Запускаем keep-alive механизм для поддержания соединения
         this.startKeepAlive()
+
+        this.qualityMonitor.reset()
+        this.qualityMonitor.start()
+
+        this.attachFileChannel(peer)
+
+        // Обмен открытыми ключами для сквозного шифрования
+        if (this.e2ee) {
+          this.sendPeerData(peer, { type: 'e2ee_key', publicKey: this.e2ee.localPublicKey })
+        }
       })
 
+      this.watchIceState(peer)
+
       // Обработчик получения remote stream
       this.peer.on('stream', (remoteStream: MediaStream) => {
+        if (this.heldCall?.peer === peer) {
+          // Поток собеседника на удержании не воспроизводим до возвращения к звонку
+          this.heldCall.remoteStream = this.heldCall.remoteStream || remoteStream
+          this.setStreamEnabled(remoteStream, false)
+          return
+        }
+
         logger.log('Received remote stream:', {
           id: remoteStream.id,
           tracks: remoteStream.getTracks().map(track => ({
@@ -479,12 +2338,38 @@ export class WebRTCService {
           }))
         })
 
+        // Поток считается демонстрацией экрана, если его ID объявлен через screen_share
+        // или если это второй поток после основного (сигнал мог прийти позже самого потока)
+        const isScreenStream = remoteStream.id === this.remoteScreenStreamId ||
+          (!!this.remoteStream && remoteStream.id !== this.remoteStream.id)
+        if (isScreenStream) {
+          this.handleRemoteScreenStream(remoteStream)
+          return
+        }
+
         this.remoteStream = remoteStream
+        this.recorder?.addStream(remoteStream)
         this.onRemoteStream?.(remoteStream)
       })
 
+      // Чат и статусы собеседника по data channel
+      this.peer.on('data', (data: unknown) => this.handlePeerData(peer, data))
+
+      // Новые треки в уже известном потоке (например, собеседник включил камеру посреди звонка)
+      this.peer.on('track', (track: MediaStreamTrack, stream: MediaStream) => {
+        if (this.remoteStream && stream.id === this.remoteStream.id) {
+          logger.log(`🎥 Remote ${track.kind} track added to existing stream`)
+          this.onRemoteStream?.(stream)
+        }
+      })
+
       // Обработчик ошибок с улучшенной логикой
       this.peer.on('error', (err: Error) => {
+        if (this.heldCall?.peer === peer) {
+          logger.warn('Held call peer error:', err.message)
+          return
+        }
+
         handlePeerError(
           err,
           this.refs,
@@ -500,6 +2385,18 @@ export class WebRTCService {
 
       // Обработчик закрытия с улучшенной логикой
       this.peer.on('close', () => {
+        if (this.heldCall?.peer === peer) {
+          logger.log('Held call peer closed')
+          this.endHeldCall()
+          return
+        }
+
+        // Основное соединение оборвалось, но есть звонок на удержании
+        if (this.heldCall && this.peer === peer) {
+          this.handleRemoteEndCall()
+          return
+        }
+
         handlePeerClose(
           this.refs,
           this.currentUserId,
@@ -538,6 +2435,7 @@ export class WebRTCService {
         this.onError?.('Неизвестная ошибка при получении доступа к микрофону')
       }
 
+      this.finishCall('failed')
       this.cleanup()
       this.onStateChange?.('idle')
     }
@@ -546,6 +2444,14 @@ export class WebRTCService {
   private cleanup() {
     // Останавливаем все звуки
     this.stopRingtone()
+    this.clearRingTimeout()
+    this.clearIceRestart()
+    this.qualityMonitor.stop()
+    this.resetRecording()
+    this.resetChat()
+    this.chatPendingAcks.clear()
+    this.fileTransfers.detach()
+    this.closeE2ee()
 
     // Сбрасываем счетчики переподключения
     resetReconnectionCounter(this.refs)
@@ -567,8 +2473,48 @@ export class WebRTCService {
       this.peer = null
     }
 
+    this.destroyRoomPeers()
+    this.roomId = null
+
+    // Звонок на удержании завершается вместе с текущим
+    if (this.heldCall) {
+      this.sendSignal({
+        type: 'end-call',
+        from: this.currentUserId,
+        to: this.heldCall.userId,
+        roomId: this.heldCall.roomId || undefined
+      }).catch(err => logger.error('Error sending end call signal to held call:', err))
+      this.endHeldCall()
+    }
+    this.clearWaitingCall()
+    this.stopHoldMusic()
+
+    if (this.screenStream) {
+      this.screenStream.getTracks().forEach(track => track.stop())
+      this.screenStream = null
+      this.onScreenShareChange?.(false)
+    }
+
+    if (this.remoteScreenStream) {
+      this.onRemoteScreenShare?.(null)
+    }
+    this.remoteScreenStream = null
+    this.remoteScreenStreamId = null
+
     this.remoteStream = null
     this.isCallActive = false
+    this.callMedia = 'audio'
+    this.incomingCallMedia = 'audio'
+    this.incomingE2ee = false
+    this.callId = null
+    this.callRecords.clear()
+    this.callAnswered = false
+    this.remoteMuted = false
+    this.remoteVideoEnabled = false
+    if (this.remoteOnHold) {
+      this.remoteOnHold = false
+      this.onRemoteHoldChange?.(false)
+    }
   }
 
   // Keep-alive механизм для поддержания соединения
@@ -579,12 +2525,14 @@ export class WebRTCService {
     this.keepAliveInterval = setInterval(() => {
       if (this.peer && this.isCallActive && this.peerUserId) {
         try {
-          // Отправляем пустой сигнал для поддержания соединения
-          this.sendSignal({
-            type: 'keep_alive',
-            from: this.currentUserId,
-            to: this.peerUserId
-          })
+          // Пустое сообщение для поддержания соединения: по data channel, без нагрузки на сигнализацию
+          if (!this.sendPeerData(this.peer, { type: 'keep_alive' })) {
+            this.sendSignal({
+              type: 'keep_alive',
+              from: this.currentUserId,
+              to: this.peerUserId
+            })
+          }
           logger.log('💓 Keep-alive sent to maintain connection')
         } catch (error) {
           logger.warn('Failed to send keep-alive:', error)
@@ -606,16 +2554,121 @@ export class WebRTCService {
     this.stopKeepAlive()
 
     this.cleanup()
-    if (this.channel) {
-      this.supabase.removeChannel(this.channel)
-      this.channel = null
-    }
-    // Очищаем все каналы
-    this.sendChannels.clear()
+    // Отключаем транспорт сигнализации
+    this.reliability.reset()
+    this.transport.disconnect().catch(err => logger.warn('Error disconnecting signaling transport:', err))
     // Останавливаем мониторинг соединения
     this.stopConnectionMonitoring()
   }
 
+  // Следим за ICE основного соединения: disconnected/failed - перезапуск ICE, а не новый peer.
+  // SimplePeer сам уничтожает соединение при failed, поэтому перехватываем обработчик _pc
+  private watchIceState(peer: SimplePeer.Instance) {
+    const pc = (peer as SimplePeerWithPC)._pc
+    if (!pc) return
+
+    const simplePeerHandler = pc.oniceconnectionstatechange
+    pc.oniceconnectionstatechange = (event) => {
+      const state = pc.iceConnectionState
+
+      if (peer === this.peer && this.isCallActive) {
+        if (state === 'disconnected') {
+          logger.log('🧊 ICE disconnected - waiting before restart')
+          this.scheduleIceRestart('ice disconnected', ICE_RESTART_DELAY_MS)
+        } else if (state === 'failed' && this.iceRestartAttempts < MAX_ICE_RESTARTS) {
+          this.scheduleIceRestart('ice failed', 0)
+          return
+        } else if (state === 'connected' || state === 'completed') {
+          if (this.iceRestartAttempts > 0) {
+            logger.log(`🧊 ICE recovered after ${this.iceRestartAttempts} restart(s)`)
+          }
+          this.clearIceRestart()
+          // Канал файлов мог закрыться за время переподключения - передачи продолжатся с места обрыва
+          this.attachFileChannel(peer)
+        }
+      }
+
+      simplePeerHandler?.call(pc, event)
+    }
+  }
+
+  private scheduleIceRestart(reason: string, delay: number) {
+    if (this.iceRestartTimer) return
+
+    this.iceRestartTimer = setTimeout(() => {
+      this.iceRestartTimer = null
+      this.restartIce(reason)
+    }, delay)
+  }
+
+  private clearIceRestart() {
+    if (this.iceRestartTimer) {
+      clearTimeout(this.iceRestartTimer)
+      this.iceRestartTimer = null
+    }
+    this.iceRestartAttempts = 0
+  }
+
+  // Перезапуск ICE: offer с iceRestart отправляет инициатор, вторая сторона просит его об этом сигналом
+  private restartIce(reason: string, force = false) {
+    const peer = this.peer as SimplePeerWithPC | null
+    const pc = peer?._pc
+    if (!peer || peer.destroyed || !pc || !this.peerUserId || !this.isCallActive) return
+
+    if (!force && (pc.iceConnectionState === 'connected' || pc.iceConnectionState === 'completed')) {
+      this.clearIceRestart()
+      return
+    }
+
+    if (this.iceRestartAttempts >= MAX_ICE_RESTARTS) {
+      logger.warn(`🧊 ICE restart failed ${MAX_ICE_RESTARTS} times - ending call`)
+      this.clearIceRestart()
+      this.endCall('failed')
+      this.onError?.('Соединение потеряно и не может быть восстановлено')
+      return
+    }
+
+    this.iceRestartAttempts++
+    logger.log(`🧊 ICE restart ${this.iceRestartAttempts}/${MAX_ICE_RESTARTS} (${reason})`)
+
+    if (peer.initiator) {
+      this.performIceRestart(peer, pc)
+    } else {
+      this.sendSignal({
+        type: 'ice-restart',
+        from: this.currentUserId,
+        to: this.peerUserId
+      }).catch(err => logger.error('Error sending ICE restart request:', err))
+    }
+
+    // Если соединение не восстановилось - следующая попытка
+    this.scheduleIceRestart('restart timeout', ICE_RESTART_TIMEOUT_MS)
+  }
+
+  private handleIceRestartRequest() {
+    const peer = this.peer as SimplePeerWithPC | null
+    const pc = peer?._pc
+    if (!peer || peer.destroyed || !pc || !peer.initiator) return
+
+    logger.log('🧊 ICE restart requested by peer')
+    this.performIceRestart(peer, pc)
+  }
+
+  private async performIceRestart(peer: SimplePeerWithPC, pc: RTCPeerConnection) {
+    // В новой сети может понадобиться TURN - обновляем серверы и учетные данные
+    await this.prepareIceServers()
+    if (peer.destroyed) return
+
+    try {
+      pc.setConfiguration({ ...pc.getConfiguration(), ...this.getPeerConfig() })
+    } catch (err) {
+      logger.warn('Failed to update ICE servers before restart:', err)
+    }
+
+    pc.restartIce()
+    peer.negotiate?.()
+  }
+
   // Идеальная обработка завершения звонка
   private setupCallTerminationHandlers() {
     if (typeof window === 'undefined') return
@@ -681,22 +2734,28 @@ export class WebRTCService {
       logger.log('🔄 Network connection restored')
       this.isOnline = true
       this.lastActivityTime = Date.now()
+
+      // Сеть сменилась (например, Wi-Fi -> мобильная) - старая пара кандидатов скорее всего мертва
+      if (this.isCallActive) {
+        this.iceRestartAttempts = 0
+        this.restartIce('network change', true)
+      }
     }
 
     const handleOffline = () => {
       logger.log('⚠️ Network connection lost')
       this.isOnline = false
 
-      // Если мы в звонке, пытаемся восстановить соединение через 5 секунд
+      // Если мы в звонке, ждем возвращения сети - после него ICE будет перезапущен
       if (this.isCallActive) {
-        logger.log('📞 Call active - attempting reconnection in 5 seconds...')
+        logger.log(`📞 Call active - waiting ${OFFLINE_GRACE_MS / 1000} seconds for network...`)
         setTimeout(() => {
-          if (!this.isOnline) {
+          if (!this.isOnline && this.isCallActive) {
             logger.log('📞 Network still unavailable - ending call')
             this.endCall()
             this.onError?.('Соединение с интернетом потеряно. Звонок завершен.')
           }
-        }, 5000)
+        }, OFFLINE_GRACE_MS)
       }
     }
 
@@ -733,20 +2792,13 @@ export class WebRTCService {
         // Проверяем peer состояние
         if (this.peer) {
           const pc = (this.peer as SimplePeerWithPC)._pc
-          if (pc && pc.connectionState === 'failed') {
-            logger.log('📞 Peer connection failed - attempting reconnection')
-
-            // Попытка переподключения вместо завершения звонка
-            attemptReconnection(
-              this.refs,
-              this.currentUserId,
-              this.isCallActive,
-              this.targetUserId,
-              async (isInitiator: boolean) => {
-                // Переинициализация peer соединения
-                await this.initializePeer(isInitiator)
-              }
-            )
+          if (pc && (pc.connectionState === 'failed' || pc.iceConnectionState === 'disconnected')) {
+            logger.log('📞 Peer connection lost - restarting ICE')
+
+            // Перезапуск ICE на существующем соединении вместо пересоздания peer;
+            // disconnected часто восстанавливается сам, поэтому сначала ждем
+            const delay = pc.connectionState === 'failed' ? 0 : ICE_RESTART_DELAY_MS
+            this.scheduleIceRestart(`connection ${pc.connectionState}`, delay)
           }
         }
       }
@@ -799,20 +2851,65 @@ export class WebRTCService {
     this.refs.peerRef.current = null
 
     // Очищаем каналы
-    if (this.channel) {
-      this.supabase.removeChannel(this.channel)
-      this.channel = null
-    }
+    this.transport.disconnect().catch(err => logger.warn('Error disconnecting signaling transport:', err))
 
     this.onStateChange?.('idle')
     logger.log('✅ WebRTC state force reset completed')
   }
 
-  private handleIncomingSignal(payload: { payload: { type: string, signal?: SimplePeer.SignalData, from: string, muted?: boolean, active?: boolean } }) {
+  private handleIncomingSignal(payload: { payload: CallSignal }) {
     const { type, signal, from, muted } = payload.payload
 
     logger.log('📡 Received WebRTC signal:', payload)
 
+    const { roomId } = payload.payload
+
+    // Подтверждение доставки нашего сигнала
+    if (type === 'ack') {
+      if (payload.payload.ackId) {
+        this.reliability.handleAck(payload.payload.ackId)
+      }
+      return
+    }
+
+    // Подтверждаем каждую доставку (в том числе повторную - прошлый ack мог потеряться)
+    if (this.reliability.needsAck(payload.payload)) {
+      this.sendAck(payload.payload)
+    }
+
+    if (this.reliability.isDuplicate(payload.payload)) {
+      logger.log(`📨 Dropping duplicate ${type} from ${from.slice(0, 8)} (${payload.payload.messageId?.slice(0, 8)})`)
+      return
+    }
+
+    // Звонок от заблокированного пользователя отбрасываем без ответа: у него звонок закончится по таймауту
+    if (type === 'offer' && from !== this.targetUserId && from !== this.heldCall?.userId && this.blockedUsers.has(from)) {
+      logger.log(`🚫 Dropping call offer from blocked user ${from.slice(0, 8)}`)
+      return
+    }
+
+    // Сигналы от собеседника на удержании и от ожидающего второго звонящего обрабатываются отдельно
+    if (this.heldCall && from === this.heldCall.userId) {
+      this.handleHeldSignal(payload.payload)
+      return
+    }
+    if (this.waitingCall && from === this.waitingCall.userId) {
+      this.handleWaitingSignal(payload.payload)
+      return
+    }
+
+    // Сигналы от других участников группового звонка идут в их собственные peer соединения
+    if (roomId && roomId === this.roomId && from !== this.targetUserId && this.isCallActive) {
+      this.handleRoomSignal(payload.payload)
+      return
+    }
+
+    // Сигналы от основного собеседника из другой (устаревшей) комнаты игнорируем
+    if (roomId && this.roomId && roomId !== this.roomId && from === this.targetUserId) {
+      logger.log(`⚠️ Ignoring ${type} signal from stale room ${roomId.slice(0, 8)}`)
+      return
+    }
+
     logger.log('📡 Signal processing check:', {
       hasPeer: !!this.peer,
       peerDestroyed: this.peer?.destroyed,
@@ -825,10 +2922,34 @@ export class WebRTCService {
     // Обработка специальных сигналов (не WebRTC)
     if (type === 'end-call') {
       logger.log(`📞 [User ${this.currentUserId.slice(0, 8)}] Received end call signal from ${from.slice(0, 8)}`)
+      // В групповом звонке разговор продолжается с оставшимися участниками
+      if (this.isCallActive && from === this.targetUserId && this.promoteRoomPeer()) {
+        return
+      }
       this.handleRemoteEndCall()
       return
     }
 
+    // Обработка reject/rejected/busy сигналов (собеседник отклонил звонок, не принимает звонки от нас или занят)
+    if (type === 'reject' || type === 'rejected' || type === 'busy') {
+      this.handleCallDeclined(from, type === 'busy' ? 'busy' : type === 'reject' ? 'rejected' : 'restricted')
+      return
+    }
+
+    // Обработка call-timeout сигнала (звонящий не дождался ответа)
+    if (type === 'call-timeout') {
+      this.handleRemoteCallTimeout(from)
+      return
+    }
+
+    // Собеседник потерял сеть и просит offer с новыми ICE-учетными данными
+    if (type === 'ice-restart') {
+      if (from === this.peerUserId) {
+        this.handleIceRestartRequest()
+      }
+      return
+    }
+
     // Обработка keep_alive сигнала
     if (type === 'keep_alive') {
       logger.log(`💓 [User ${this.currentUserId.slice(0, 8)}] Received keep-alive from ${from.slice(0, 8)}`)
@@ -839,6 +2960,8 @@ export class WebRTCService {
     // Обработка call_accepted сигнала
     if (type === 'call_accepted') {
       logger.log(`📞 [User ${this.currentUserId.slice(0, 8)}] Call accepted by ${from.slice(0, 8)}`)
+      this.callAnswered = true
+      this.clearRingTimeout()
       this.onStateChange?.('connected')
       return
     }
@@ -847,6 +2970,7 @@ export class WebRTCService {
     if (type === 'mute_status') {
       console.log(`🎤 🔴 RECEIVED MUTE STATUS: from=${from.slice(0, 8)}, muted=${muted}, type=${typeof muted}`)
       logger.log(`🎤 [User ${this.currentUserId.slice(0, 8)}] Received mute status from ${from.slice(0, 8)}: ${muted ? 'muted' : 'unmuted'}`)
+      this.remoteMuted = !!muted
       this.onRemoteMutedChange?.(muted!)
       return
     }
@@ -860,17 +2984,84 @@ export class WebRTCService {
       return
     }
 
+    // Обработка video_status сигнала
+    if (type === 'video_status') {
+      logger.log(`🎥 [User ${this.currentUserId.slice(0, 8)}] Remote camera ${payload.payload.videoEnabled ? 'on' : 'off'}`)
+      this.remoteVideoEnabled = !!payload.payload.videoEnabled
+      this.onRemoteVideoChange?.(!!payload.payload.videoEnabled)
+      return
+    }
+
+    // Согласование записи звонка
+    if (type === 'recording_status') {
+      this.handleRecordingSignal(from, payload.payload.recording)
+      return
+    }
+
+    // Обработка hold сигнала (собеседник поставил нас на удержание или вернулся)
+    if (type === 'hold') {
+      if (from !== this.targetUserId) return
+      logger.log(`⏸️ [User ${this.currentUserId.slice(0, 8)}] ${from.slice(0, 8)} ${payload.payload.active ? 'put us on hold' : 'resumed the call'}`)
+      this.remoteOnHold = !!payload.payload.active
+      if (this.remoteOnHold) {
+        // Пока мы на удержании, записывать нечего
+        this.stopRecording()
+        this.playHoldMusic()
+      } else {
+        this.stopHoldMusic()
+      }
+      this.onRemoteHoldChange?.(this.remoteOnHold)
+      return
+    }
+
+    // Обработка screen_share сигнала
+    if (type === 'screen_share') {
+      const { active, streamId } = payload.payload
+      logger.log(`🖥️ [User ${this.currentUserId.slice(0, 8)}] Remote screen share ${active ? 'started' : 'stopped'}: ${streamId}`)
+
+      if (active) {
+        this.remoteScreenStreamId = streamId || null
+        // Поток мог прийти раньше сигнала - ищем его среди уже полученных
+        const existing = (this.peer as SimplePeerWithPC | null)?._remoteStreams?.find(s => s.id === streamId)
+        if (existing && existing !== this.remoteScreenStream) {
+          this.handleRemoteScreenStream(existing)
+        }
+      } else {
+        this.remoteScreenStreamId = null
+        this.remoteScreenStream = null
+        this.onRemoteScreenShare?.(null)
+      }
+      return
+    }
+
+    const hasActivePeer = !!this.peer && !this.peer.destroyed
+
+    // Новый звонок от того, кому звонить нам нельзя (offer от текущего собеседника - это renegotiation)
+    if (type === 'offer' && from !== this.targetUserId && !this.isCallAllowed(from)) {
+      this.replyRejected(payload.payload)
+      return
+    }
+
+    // Звонок от другого пользователя, пока мы заняты текущим звонком:
+    // во время разговора - вторая линия, иначе - "занято"
+    if (type === 'offer' && this.targetUserId && from !== this.targetUserId) {
+      if (this.canWaitCall()) {
+        this.setWaitingCall(payload.payload)
+      } else {
+        this.replyBusy(payload.payload)
+      }
+      return
+    }
+
     // Проверяем что сигнал от правильного пользователя
     if (from === this.targetUserId || (type === 'offer' && !this.targetUserId)) {
-      // Если это offer сигнал - это входящий звонок
-      if (type === 'offer') {
-      logger.log(`📞 [User ${this.currentUserId.slice(0, 8)}] Received call offer from ${from.slice(0, 8)}`)
-      this.incomingCallerId = from
-      this.targetUserId = from
-      this.onStateChange?.('receiving')
-
-      // Запускаем рингтон для входящего звонка
-      this.playRingtone()
+      // Если это offer сигнал без активного peer - это входящий звонок
+      // (offer при активном peer - это renegotiation, например собеседник включил камеру)
+      if (type === 'offer' && !hasActivePeer) {
+      logger.log(`📞 [User ${this.currentUserId.slice(0, 8)}] Received ${payload.payload.media === 'video' ? 'video' : 'audio'} call offer from ${from.slice(0, 8)}`)
+      this.pendingRoomParticipants = (payload.payload.participants || [])
+        .filter(userId => userId !== this.currentUserId && userId !== from)
+      this.setIncomingCall(from, payload.payload.media === 'video' ? 'video' : 'audio', payload.payload.callId || null, roomId || null, !!payload.payload.e2ee)
 
       // Для offer сигнала - НЕ инициализируем peer автоматически!
       // Peer будет создан только после явного принятия звонка через answerCall()
@@ -904,6 +3095,10 @@ export class WebRTCService {
                 logger.log(`⚠️ Ignoring answer signal - not in have-local-offer state (current: ${signalingState})`)
                 return
               }
+              // Собеседник не поддерживает сквозное шифрование - звонок продолжается без него
+              if (this.e2ee && !payload.payload.e2ee) {
+                this.e2ee.disable()
+              }
             } else if (type === 'candidate') {
               // ICE candidates можно принимать в любое время после установки description
               if (!hasLocalDescription) {
@@ -913,7 +3108,7 @@ export class WebRTCService {
             }
           }
 
-          this.peer.signal(signal!)
+          this.peer.signal(applyAudioProfileToSignal(signal!, this.callAudioProfile))
         } catch (err) {
           logger.error('Error processing signal:', err)
 
@@ -933,11 +3128,11 @@ export class WebRTCService {
         }
       } else {
         // Peer не готов - буферизуем сигнал (только WebRTC сигналы)
-        if (signal && type && type !== 'end-call') {
+        if (signal && type) {
           logger.log(`📦 Buffering ${type} signal from ${from.slice(0, 8)} (peer not ready)`)
           this.refs.signalBufferRef.current.push({ type, signal: signal as SimplePeer.SignalData, from })
           logger.log(`📦 Buffer size: ${this.refs.signalBufferRef.current.length}`)
-        } else if (!type || type === 'undefined') {
+        } else if (!type) {
           logger.warn(`⚠️ Ignoring invalid signal with type: ${type} from ${from.slice(0, 8)}`)
         }
       }
@@ -959,7 +3154,7 @@ export class WebRTCService {
         try {
           if (signal) {
             logger.log(`🔄 Processing buffered signal ${index + 1}/${bufferedSignals.length}: ${type} from ${from.slice(0, 8)}`)
-            this.peer!.signal(signal)
+            this.peer!.signal(applyAudioProfileToSignal(signal, this.callAudioProfile))
           }
         } catch (err) {
           logger.error(`Error processing buffered signal ${index + 1}:`, err)
@@ -977,11 +3172,24 @@ export class WebRTCService {
     return this.incomingCallerId
   }
 
+  // ID записи в истории звонков для текущего или входящего звонка (для жалобы на собеседника)
+  getCallId(): string | null {
+    return this.callId
+  }
+
+  getIncomingCallMedia(): CallMediaKind {
+    return this.incomingCallMedia
+  }
+
+  getCallMedia(): CallMediaKind {
+    return this.callMedia
+  }
+
   getLocalStream(): MediaStream | null {
     return this.localStream
   }
 
-  async sendSignal(data: { type: string, from: string, to: string, signal?: SimplePeer.SignalData, muted?: boolean, active?: boolean }) {
+  async sendSignal(data: CallSignal) {
     console.log(`📤 🔵 SENDING SIGNAL:`, data)
     try {
       if (this.peer?.destroyed) {
@@ -991,62 +3199,16 @@ export class WebRTCService {
 
       logger.log(`📤 Sending signal to ${data.to.slice(0, 8)}:`, data.type)
 
-      // Пробуем разные способы отправки сигналов
-
-      // Способ 1: Через кэшированный realtime канал
-      try {
-        let targetChannel = this.sendChannels.get(data.to)
-
-        if (!targetChannel) {
-          const supabase = createClient()
-          targetChannel = supabase.channel(`webrtc:${data.to}`)
-          this.sendChannels.set(data.to, targetChannel)
-
-          // Подписываемся на канал только если он новый
-          await targetChannel.subscribe()
-          logger.log(`📡 Subscribed to send channel for ${data.to.slice(0, 8)}`)
-        }
-
-        // Отправляем сигнал через кэшированный канал
-        await targetChannel.send({
-          type: 'broadcast',
-          event: 'webrtc_signal',
-          payload: {
-            type: data.type,
-            signal: data.signal,
-            from: data.from,
-            muted: data.muted
-          }
-        })
-
-        logger.log('✅ Signal sent via cached realtime channel')
-      } catch (realtimeError) {
-        logger.warn('Realtime send failed, trying HTTP fallback:', realtimeError)
+      // Все сигналы несут ID комнаты, чтобы получатель направил их в нужное соединение
+      if (!data.roomId && this.roomId) {
+        data = { ...data, roomId: this.roomId }
+      }
 
-        // Способ 2: Через прямой HTTP запрос к нашему API
-        try {
-          const response = await fetch('/api/signal', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              to: data.to,
-              from: data.from,
-              signal: data.signal,
-              muted: data.muted
-            })
-          })
+      // Конверт с ID, порядковым номером и временем; без подтверждения сигнал уйдет повторно
+      data = this.reliability.stamp(data)
+      this.reliability.track(data, (signal) => this.transport.send(signal))
 
-          if (response.ok) {
-            logger.log('✅ Signal sent via HTTP fallback')
-          } else {
-            logger.error('HTTP fallback failed:', await response.text())
-          }
-        } catch (httpError) {
-          logger.error('Both realtime and HTTP fallback failed:', httpError)
-        }
-      }
+      await this.transport.send(data)
 
       logger.log('Signal sent successfully')
     } catch (err) {
@@ -1054,6 +3216,17 @@ export class WebRTCService {
     }
   }
 
+  // Подтверждение получения сигнала (сам ack не подтверждается и не повторяется)
+  private sendAck(signal: CallSignal) {
+    this.transport.send({
+      type: 'ack',
+      from: this.currentUserId,
+      to: signal.from,
+      ackId: signal.messageId,
+      sentAt: Date.now(),
+    }).catch(err => logger.warn('Failed to send ack:', err))
+  }
+
   // Метод для получения списка пользователей
   async getUsers() {
     try {
@@ -223,5 +223,539 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- ===== История звонков =====
+CREATE TABLE IF NOT EXISTS public.calls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  caller_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  callee_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  media TEXT NOT NULL DEFAULT 'audio' CHECK (media IN ('audio', 'video')),
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  answered_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  end_reason TEXT CHECK (end_reason IN ('completed', 'rejected', 'busy', 'missed', 'failed'))
+);
+
+ALTER TABLE public.calls ENABLE ROW LEVEL SECURITY;
+
+-- Пользователь видит только звонки, в которых участвовал
+DROP POLICY IF EXISTS "Users can view their own calls" ON public.calls;
+CREATE POLICY "Users can view their own calls" ON public.calls
+  FOR SELECT USING (auth.uid() = caller_id OR auth.uid() = callee_id);
+
+-- Запись о звонке создает звонящий; политика INSERT задается в разделе "Блокировки и жалобы",
+-- так как проверяет, не заблокирован ли звонящий собеседником
+
+-- Обе стороны обновляют запись по ходу звонка (ответ, завершение)
+DROP POLICY IF EXISTS "Participants can update their calls" ON public.calls;
+CREATE POLICY "Participants can update their calls" ON public.calls
+  FOR UPDATE USING (auth.uid() = caller_id OR auth.uid() = callee_id)
+  WITH CHECK (auth.uid() = caller_id OR auth.uid() = callee_id);
+
+-- Менять можно только отметки ответа и завершения: участники, тип и время начала звонка неизменны,
+-- иначе звонок можно было бы подбросить в историю постороннего пользователя
+REVOKE UPDATE ON public.calls FROM anon, authenticated;
+GRANT UPDATE (answered_at, ended_at, end_reason) ON public.calls TO authenticated;
+
+CREATE INDEX IF NOT EXISTS calls_caller_started_idx ON public.calls(caller_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS calls_callee_started_idx ON public.calls(callee_id, started_at DESC);
+
+-- Переписка в чате звонка (сообщения идут по data channel, сюда попадает только история)
+CREATE TABLE IF NOT EXISTS public.call_messages (
+  id UUID PRIMARY KEY,
+  call_id UUID REFERENCES public.calls(id) ON DELETE CASCADE NOT NULL,
+  sender_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL CHECK (char_length(body) <= 2000),
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+ALTER TABLE public.call_messages ENABLE ROW LEVEL SECURITY;
+
+-- Переписку видят оба участника звонка
+DROP POLICY IF EXISTS "Participants can view call messages" ON public.call_messages;
+CREATE POLICY "Participants can view call messages" ON public.call_messages
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.calls
+      WHERE calls.id = call_id AND (calls.caller_id = auth.uid() OR calls.callee_id = auth.uid())
+    )
+  );
+
+-- Каждая сторона сохраняет только свои сообщения и только в своем звонке
+DROP POLICY IF EXISTS "Participants can save their call messages" ON public.call_messages;
+CREATE POLICY "Participants can save their call messages" ON public.call_messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = sender_id
+    AND EXISTS (
+      SELECT 1 FROM public.calls
+      WHERE calls.id = call_id AND (calls.caller_id = auth.uid() OR calls.callee_id = auth.uid())
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS call_messages_call_sent_idx ON public.call_messages(call_id, sent_at);
+
+-- ===== Очередь сигналов для HTTP-polling транспорта =====
+-- Используется, когда NEXT_PUBLIC_SIGNALING_TRANSPORT=http-polling (например, если websocket заблокирован)
+CREATE TABLE IF NOT EXISTS public.signal_queue (
+  id BIGSERIAL PRIMARY KEY,
+  from_user UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  to_user UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+ALTER TABLE public.signal_queue ENABLE ROW LEVEL SECURITY;
+
+-- Отправитель может положить сигнал только от своего имени (и в колонке, и в самом сигнале)
+DROP POLICY IF EXISTS "Users can enqueue their own signals" ON public.signal_queue;
+CREATE POLICY "Users can enqueue their own signals" ON public.signal_queue
+  FOR INSERT WITH CHECK (auth.uid() = from_user AND payload->>'from' = auth.uid()::text);
+
+-- Получатель читает и удаляет только адресованные ему сигналы
+DROP POLICY IF EXISTS "Users can read their signals" ON public.signal_queue;
+CREATE POLICY "Users can read their signals" ON public.signal_queue
+  FOR SELECT USING (auth.uid() = to_user);
+
+DROP POLICY IF EXISTS "Users can delete their signals" ON public.signal_queue;
+CREATE POLICY "Users can delete their signals" ON public.signal_queue
+  FOR DELETE USING (auth.uid() = to_user);
+
+CREATE INDEX IF NOT EXISTS signal_queue_to_user_idx ON public.signal_queue(to_user, id);
+
+-- ===== Приватные каналы сигнализации =====
+-- Каналы webrtc:<userId> создаются клиентом как private; в настройках Realtime нужно выключить
+-- "Allow public access", иначе подписаться на чужой канал можно и без политик
+
+-- Подписка (чтение broadcast) только на собственный канал
+DROP POLICY IF EXISTS "Users can receive their own signals" ON realtime.messages;
+CREATE POLICY "Users can receive their own signals" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND realtime.topic() = 'webrtc:' || auth.uid()::text
+  );
+
+-- Запись клиентом только в собственный канал (keep-alive ResilientChannelManager);
+-- в чужой канал сигнал попадает только через send_webrtc_signal
+DROP POLICY IF EXISTS "Users can broadcast to their own channel" ON realtime.messages;
+CREATE POLICY "Users can broadcast to their own channel" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'broadcast'
+    AND realtime.topic() = 'webrtc:' || auth.uid()::text
+  );
+
+-- Доставка сигнала в приватный канал получателя; отправитель всегда берется из сессии
+CREATE OR REPLACE FUNCTION public.send_webrtc_signal(target UUID, signal JSONB)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF target = auth.uid() THEN
+    RAISE EXCEPTION 'Cannot signal yourself';
+  END IF;
+
+  PERFORM realtime.send(
+    signal || jsonb_build_object('from', auth.uid(), 'to', target),
+    'webrtc_signal',
+    'webrtc:' || target::text,
+    TRUE
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.send_webrtc_signal(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.send_webrtc_signal(UUID, JSONB) TO authenticated;
+
+-- ===== Записи звонков =====
+-- Файлы лежат в приватном bucket recordings в папке владельца: <userId>/<recordingId>.webm
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('recordings', 'recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Политики для bucket recordings (как у avatars, но читать файлы может только владелец)
+DROP POLICY IF EXISTS "Users can view their own recordings" ON storage.objects;
+CREATE POLICY "Users can view their own recordings" ON storage.objects
+  FOR SELECT USING (bucket_id = 'recordings' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+DROP POLICY IF EXISTS "Users can upload their own recordings" ON storage.objects;
+CREATE POLICY "Users can upload their own recordings" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'recordings' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+DROP POLICY IF EXISTS "Users can delete their own recordings" ON storage.objects;
+CREATE POLICY "Users can delete their own recordings" ON storage.objects
+  FOR DELETE USING (bucket_id = 'recordings' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Сведения о записи и связь с записью в истории звонков
+CREATE TABLE IF NOT EXISTS public.call_recordings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  call_id UUID REFERENCES public.calls(id) ON DELETE SET NULL,
+  peer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  mime_type TEXT NOT NULL,
+  duration INTEGER NOT NULL DEFAULT 0,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+ALTER TABLE public.call_recordings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own recordings" ON public.call_recordings;
+CREATE POLICY "Users can view their own recordings" ON public.call_recordings
+  FOR SELECT USING (auth.uid() = owner_id);
+
+-- Файл должен лежать в своей папке, а звонок - быть звонком владельца
+DROP POLICY IF EXISTS "Users can save their own recordings" ON public.call_recordings;
+CREATE POLICY "Users can save their own recordings" ON public.call_recordings
+  FOR INSERT WITH CHECK (
+    auth.uid() = owner_id
+    AND split_part(storage_path, '/', 1) = auth.uid()::text
+    AND (
+      call_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.calls
+        WHERE calls.id = call_id AND (calls.caller_id = auth.uid() OR calls.callee_id = auth.uid())
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete their own recordings" ON public.call_recordings;
+CREATE POLICY "Users can delete their own recordings" ON public.call_recordings
+  FOR DELETE USING (auth.uid() = owner_id);
+
+CREATE INDEX IF NOT EXISTS call_recordings_owner_created_idx ON public.call_recordings(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS call_recordings_created_idx ON public.call_recordings(created_at);
+
+-- ===== Контакты =====
+-- Список контактов пользователя (раньше хранился в localStorage браузера)
+CREATE TABLE IF NOT EXISTS public.contacts (
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  contact_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  -- Имя контакта, которое видит только владелец списка
+  nickname TEXT CHECK (char_length(nickname) <= 64),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  PRIMARY KEY (owner_id, contact_id),
+  CHECK (owner_id <> contact_id)
+);
+
+ALTER TABLE public.contacts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own contacts" ON public.contacts;
+CREATE POLICY "Users can view their own contacts" ON public.contacts
+  FOR SELECT USING (auth.uid() = owner_id);
+
+-- Контакты появляются только при принятии запроса (respond_contact_request добавляет обе стороны),
+-- иначе отправитель сразу получал бы доступ к статусу и звонкам адресата, даже если тот отклонит запрос
+DROP POLICY IF EXISTS "Users can add their own contacts" ON public.contacts;
+
+DROP POLICY IF EXISTS "Users can rename their own contacts" ON public.contacts;
+CREATE POLICY "Users can rename their own contacts" ON public.contacts
+  FOR UPDATE USING (auth.uid() = owner_id) WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can remove their own contacts" ON public.contacts;
+CREATE POLICY "Users can remove their own contacts" ON public.contacts
+  FOR DELETE USING (auth.uid() = owner_id);
 
+-- Изменения списка рассылаются через Realtime во все открытые вкладки и устройства владельца.
+-- REPLICA IDENTITY FULL нужен, чтобы событие удаления содержало owner_id для фильтра подписки
+ALTER TABLE public.contacts REPLICA IDENTITY FULL;
 
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables
+                 WHERE pubname = 'supabase_realtime'
+                 AND schemaname = 'public'
+                 AND tablename = 'contacts') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.contacts;
+  END IF;
+END
+$$;
+
+-- ===== Запросы в контакты и приватность =====
+-- Кто может звонить пользователю и видеть его профиль: все, только его контакты или никто
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_name = 'profiles'
+                 AND column_name = 'call_privacy'
+                 AND table_schema = 'public') THEN
+    ALTER TABLE public.profiles ADD COLUMN call_privacy TEXT NOT NULL DEFAULT 'everyone'
+      CHECK (call_privacy IN ('everyone', 'contacts', 'nobody'));
+  END IF;
+END
+$$;
+
+CREATE TABLE IF NOT EXISTS public.contact_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_user UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  to_user UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  CHECK (from_user <> to_user)
+);
+
+ALTER TABLE public.contact_requests ENABLE ROW LEVEL SECURITY;
+
+-- Запрос видят обе стороны
+DROP POLICY IF EXISTS "Users can view their contact requests" ON public.contact_requests;
+CREATE POLICY "Users can view their contact requests" ON public.contact_requests
+  FOR SELECT USING (auth.uid() = from_user OR auth.uid() = to_user);
+
+-- Отправить можно только свой запрос (политика INSERT - в разделе "Блокировки и жалобы");
+-- принять или отклонить - только через respond_contact_request
+
+-- Отправитель может отозвать запрос, пока на него не ответили
+DROP POLICY IF EXISTS "Users can cancel their pending requests" ON public.contact_requests;
+CREATE POLICY "Users can cancel their pending requests" ON public.contact_requests
+  FOR DELETE USING (auth.uid() = from_user AND status = 'pending');
+
+-- Не больше одного ожидающего запроса от одного пользователя другому
+CREATE UNIQUE INDEX IF NOT EXISTS contact_requests_pending_idx
+  ON public.contact_requests(from_user, to_user) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS contact_requests_to_user_idx ON public.contact_requests(to_user, status);
+
+-- Изменения запросов приходят обеим сторонам через Realtime (фильтры по from_user и to_user)
+ALTER TABLE public.contact_requests REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables
+                 WHERE pubname = 'supabase_realtime'
+                 AND schemaname = 'public'
+                 AND tablename = 'contact_requests') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.contact_requests;
+  END IF;
+END
+$$;
+
+-- Есть ли текущий пользователь в контактах owner. Чужие списки скрыты RLS, поэтому функция
+-- выполняется с правами владельца, но отвечает только про самого вызывающего
+CREATE OR REPLACE FUNCTION public.is_in_contacts_of(owner UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.contacts
+    WHERE owner_id = owner AND contact_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.is_in_contacts_of(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_in_contacts_of(UUID) TO authenticated;
+
+-- Ответ на запрос: при согласии стороны добавляются в контакты друг к другу
+CREATE OR REPLACE FUNCTION public.respond_contact_request(request_id UUID, accept BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  pending_request public.contact_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO pending_request FROM public.contact_requests
+  WHERE id = request_id AND to_user = auth.uid() AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.contact_requests
+  SET status = CASE WHEN accept THEN 'accepted' ELSE 'declined' END,
+      responded_at = TIMEZONE('utc'::text, NOW())
+  WHERE id = request_id;
+
+  IF accept THEN
+    INSERT INTO public.contacts (owner_id, contact_id)
+    VALUES (pending_request.to_user, pending_request.from_user),
+           (pending_request.from_user, pending_request.to_user)
+    ON CONFLICT (owner_id, contact_id) DO NOTHING;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.respond_contact_request(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.respond_contact_request(UUID, BOOLEAN) TO authenticated;
+
+-- Раньше отправитель запроса сразу добавлял адресата в свои контакты. Такие односторонние записи
+-- по запросам, которые не были приняты, удаляются
+DELETE FROM public.contacts
+WHERE EXISTS (
+  SELECT 1 FROM public.contact_requests
+  WHERE contact_requests.from_user = contacts.owner_id
+  AND contact_requests.to_user = contacts.contact_id
+  AND contact_requests.status IN ('pending', 'declined')
+)
+AND NOT EXISTS (
+  SELECT 1 FROM public.contacts AS reverse
+  WHERE reverse.owner_id = contacts.contact_id
+  AND reverse.contact_id = contacts.owner_id
+);
+
+-- Профиль видят: сам пользователь, все (при call_privacy = 'everyone'), его контакты, те,
+-- кому он отправил запрос в контакты, и те, кому он звонил (иначе у собеседника с другими настройками
+-- приватности звонящий показывался бы неизвестным). Запись в calls создает только звонящий,
+-- поэтому видимость дается лишь в сторону звонящего. Старые политики "видно всем" заменяются этой
+DROP POLICY IF EXISTS "Public profiles are viewable by everyone" ON public.profiles;
+DROP POLICY IF EXISTS "Users can view all profiles" ON public.profiles;
+DROP POLICY IF EXISTS "Realtime access for authenticated users" ON public.profiles;
+
+DROP POLICY IF EXISTS "Profiles are visible according to privacy settings" ON public.profiles;
+CREATE POLICY "Profiles are visible according to privacy settings" ON public.profiles
+  FOR SELECT USING (
+    auth.uid() = id
+    OR (auth.uid() IS NOT NULL AND call_privacy = 'everyone')
+    OR public.is_in_contacts_of(id)
+    OR EXISTS (
+      SELECT 1 FROM public.contact_requests
+      WHERE contact_requests.from_user = profiles.id
+      AND contact_requests.to_user = auth.uid()
+      AND contact_requests.status = 'pending'
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.calls
+      WHERE calls.caller_id = profiles.id
+      AND calls.callee_id = auth.uid()
+    )
+  );
+
+-- ===== Блокировки и жалобы =====
+-- Заблокированный пользователь не может дозвониться (offer отбрасывается без ответа) и не виден в /api/users
+CREATE TABLE IF NOT EXISTS public.blocks (
+  blocker_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  blocked_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+ALTER TABLE public.blocks ENABLE ROW LEVEL SECURITY;
+
+-- Список блокировок виден только тому, кто блокирует: заблокированный о блокировке не узнает
+DROP POLICY IF EXISTS "Users can view their own blocks" ON public.blocks;
+CREATE POLICY "Users can view their own blocks" ON public.blocks
+  FOR SELECT USING (auth.uid() = blocker_id);
+
+DROP POLICY IF EXISTS "Users can block others" ON public.blocks;
+CREATE POLICY "Users can block others" ON public.blocks
+  FOR INSERT WITH CHECK (auth.uid() = blocker_id);
+
+DROP POLICY IF EXISTS "Users can unblock others" ON public.blocks;
+CREATE POLICY "Users can unblock others" ON public.blocks
+  FOR DELETE USING (auth.uid() = blocker_id);
+
+-- Заблокировал ли blocker текущего пользователя. Заблокированному список блокировок не виден,
+-- поэтому функция выполняется с правами владельца, но отвечает только про самого вызывающего
+CREATE OR REPLACE FUNCTION public.is_blocked_by(blocker UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.blocks
+    WHERE blocker_id = blocker AND blocked_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.is_blocked_by(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_blocked_by(UUID) TO authenticated;
+
+-- Звонок заблокированного не попадает в историю собеседника и не увеличивает счетчик пропущенных
+DROP POLICY IF EXISTS "Callers can create call records" ON public.calls;
+CREATE POLICY "Callers can create call records" ON public.calls
+  FOR INSERT WITH CHECK (auth.uid() = caller_id AND NOT public.is_blocked_by(callee_id));
+
+-- Заблокированный не может прислать новый запрос в контакты
+DROP POLICY IF EXISTS "Users can send contact requests" ON public.contact_requests;
+CREATE POLICY "Users can send contact requests" ON public.contact_requests
+  FOR INSERT WITH CHECK (
+    auth.uid() = from_user
+    AND status = 'pending'
+    AND NOT public.is_blocked_by(to_user)
+  );
+
+-- Жалобы на пользователей. Читают и обрабатывают их администраторы через Dashboard (service role),
+-- автор видит только свои жалобы
+CREATE TABLE IF NOT EXISTS public.abuse_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reported_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate', 'other')),
+  details TEXT CHECK (char_length(details) <= 1000),
+  -- Звонок, к которому относится жалоба, и снимок его данных (сохраняется, даже если запись удалят)
+  call_id UUID REFERENCES public.calls(id) ON DELETE SET NULL,
+  call_metadata JSONB,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewed', 'dismissed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  CHECK (reporter_id <> reported_id)
+);
+
+ALTER TABLE public.abuse_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own reports" ON public.abuse_reports;
+CREATE POLICY "Users can view their own reports" ON public.abuse_reports
+  FOR SELECT USING (auth.uid() = reporter_id);
+
+-- Напрямую жалобы не пишутся: их создает только /api/reports с service role, чтобы снимок звонка
+-- (call_metadata) собирал сервер, а не клиент
+DROP POLICY IF EXISTS "Users can file reports" ON public.abuse_reports;
+
+CREATE INDEX IF NOT EXISTS abuse_reports_status_created_idx ON public.abuse_reports(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS abuse_reports_reported_idx ON public.abuse_reports(reported_id);
+
+-- ===== Присутствие =====
+-- Текущий статус (онлайн, отошел, в звонке, не беспокоить) передается через Realtime Presence в личном
+-- канале пользователя presence:<userId>; в профиле хранится только выбранный режим и текст статуса, чтобы они были одинаковыми
+-- на всех устройствах
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_name = 'profiles'
+                 AND column_name = 'presence_mode'
+                 AND table_schema = 'public') THEN
+    ALTER TABLE public.profiles ADD COLUMN presence_mode TEXT NOT NULL DEFAULT 'auto'
+      CHECK (presence_mode IN ('auto', 'dnd', 'invisible'));
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_name = 'profiles'
+                 AND column_name = 'status_text'
+                 AND table_schema = 'public') THEN
+    ALTER TABLE public.profiles ADD COLUMN status_text TEXT CHECK (char_length(status_text) <= 80);
+  END IF;
+END
+$$;
+
+-- Чей статус может видеть текущий пользователь: свой и тех, у кого он в контактах и кто его не заблокировал
+-- (так статус не раскрывается в обход call_privacy и блокировок). owner_topic - ID из названия канала
+CREATE OR REPLACE FUNCTION public.can_view_presence_of(owner_topic TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT owner_topic = auth.uid()::text OR (
+    EXISTS (
+      SELECT 1 FROM public.contacts
+      WHERE owner_id::text = owner_topic AND contact_id = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.blocks
+      WHERE blocker_id::text = owner_topic AND blocked_id = auth.uid()
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.can_view_presence_of(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_view_presence_of(TEXT) TO authenticated;
+
+-- Каналы presence:<userId> приватные; доступ проверяется при подключении к каналу,
+-- поэтому после удаления из контактов или блокировки статус скрывается при следующем переподключении
+DROP POLICY IF EXISTS "Contacts can receive presence" ON realtime.messages;
+CREATE POLICY "Contacts can receive presence" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND realtime.topic() LIKE 'presence:%'
+    AND public.can_view_presence_of(substring(realtime.topic() FROM 10))
+  );
+
+-- Публиковать статус можно только в собственный канал - чужой статус подделать нельзя
+DROP POLICY IF EXISTS "Users can track their own presence" ON realtime.messages;
+CREATE POLICY "Users can track their own presence" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND realtime.topic() = 'presence:' || auth.uid()::text
+  );
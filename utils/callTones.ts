@@ -0,0 +1,97 @@
+'use client'
+
+import { logger } from '@/lib/logger'
+import { applyAudioOutput } from '@/lib/audioDevices'
+
+// Сигналы телефонной линии, генерируемые через Web Audio (без загрузки файлов)
+
+type ToneStep = {
+  frequencies: number[]
+  duration: number // секунды
+  pause: number // пауза после тона, секунды
+}
+
+// "Занято" - короткие гудки 425 Гц
+const BUSY_TONE: ToneStep[] = Array.from({ length: 4 }, () => ({
+  frequencies: [425],
+  duration: 0.35,
+  pause: 0.35,
+}))
+
+// "Отклонено" - три нисходящих тона
+const REJECT_TONE: ToneStep[] = [
+  { frequencies: [950], duration: 0.33, pause: 0.03 },
+  { frequencies: [740], duration: 0.33, pause: 0.03 },
+  { frequencies: [520], duration: 0.33, pause: 0 },
+]
+
+const playPattern = (steps: ToneStep[], volume = 0.15) => {
+  try {
+    const audioContext = new AudioContext()
+    const gain = audioContext.createGain()
+    gain.gain.value = volume
+    gain.connect(audioContext.destination)
+
+    let time = audioContext.currentTime
+    for (const step of steps) {
+      for (const frequency of step.frequencies) {
+        const oscillator = audioContext.createOscillator()
+        oscillator.frequency.value = frequency
+        oscillator.connect(gain)
+        oscillator.start(time)
+        oscillator.stop(time + step.duration)
+      }
+      time += step.duration + step.pause
+    }
+
+    // Закрываем контекст после окончания сигнала
+    const totalMs = (time - audioContext.currentTime) * 1000 + 100
+    setTimeout(() => {
+      if (audioContext.state !== 'closed') {
+        audioContext.close()
+      }
+    }, totalMs)
+  } catch (err) {
+    logger.warn('Failed to play call tone:', err)
+  }
+}
+
+export const playBusyTone = () => playPattern(BUSY_TONE)
+
+export const playRejectTone = () => playPattern(REJECT_TONE)
+
+// Проверочный сигнал для настроек: играет через выбранное устройство вывода
+export const playTestTone = async (outputDeviceId: string | null) => {
+  try {
+    const audioContext = new AudioContext()
+    const destination = audioContext.createMediaStreamDestination()
+    const gain = audioContext.createGain()
+    gain.gain.value = 0.15
+    gain.connect(destination)
+
+    let time = audioContext.currentTime
+    for (const frequency of [523, 659, 784]) {
+      const oscillator = audioContext.createOscillator()
+      oscillator.frequency.value = frequency
+      oscillator.connect(gain)
+      oscillator.start(time)
+      oscillator.stop(time + 0.25)
+      time += 0.3
+    }
+
+    const audio = new Audio()
+    audio.srcObject = destination.stream
+    await applyAudioOutput(audio, outputDeviceId)
+    await audio.play()
+
+    setTimeout(() => {
+      audio.pause()
+      audio.srcObject = null
+      if (audioContext.state !== 'closed') {
+        audioContext.close()
+      }
+    }, 1100)
+  } catch (err) {
+    logger.warn('Failed to play test tone:', err)
+  }
+}
@@ -1,211 +1,464 @@
 'use client'
 
+import { fetchIceServers, hasTurnServer } from '@/lib/iceServers'
+
 /**
- * Диагностика сетевых проблем для WebRTC соединений
- * Проверяет NAT, firewall и качество интернет-соединения
+ * Диагностика сети и медиа для WebRTC звонков:
+ * тип NAT по адресам от двух STUN серверов, доступность TURN,
+ * loopback-тест передачи звука через RTCPeerConnection и уровень микрофона
  */
 
+// Два независимых STUN сервера: при symmetric NAT они видят разные внешние порты
+const STUN_SERVERS = ['stun:stun.l.google.com:19302', 'stun:stun.cloudflare.com:3478']
+
+const GATHERING_TIMEOUT_MS = 5000
+const MEDIA_TEST_DURATION_MS = 3000
+const MEDIA_CONNECT_TIMEOUT_MS = 5000
+
+export type NatType = 'unknown' | 'open' | 'cone' | 'symmetric' | 'blocked'
+
+export type CheckStatus = 'ok' | 'warning' | 'failed' | 'skipped'
+
+export interface NatMapping {
+  server: string
+  base: string // локальный адрес:порт, с которого шел запрос
+  mapped: string // внешний адрес:порт, который увидел STUN сервер
+}
+
 export interface NetworkDiagnostics {
-  natType: 'unknown' | 'open' | 'full-cone' | 'restricted' | 'port-restricted' | 'symmetric'
-  firewallDetected: boolean
-  latency: number
-  jitter: number
-  packetLoss: number
+  createdAt: string
+  userAgent: string
+  nat: {
+    type: NatType
+    publicAddresses: string[]
+    mappings: NatMapping[]
+  }
+  turn: {
+    status: CheckStatus
+    configured: boolean
+    relayAddress?: string
+    protocol?: string
+    timeMs?: number
+  }
+  media: {
+    status: CheckStatus
+    connectTimeMs?: number
+    rtt?: number
+    jitter?: number
+    packetLoss?: number
+    packetsReceived?: number
+    error?: string
+  }
+  microphone: {
+    status: CheckStatus
+    deviceLabel?: string
+    peakLevel?: number // 0..100
+    averageLevel?: number // 0..100
+    error?: string
+  }
   recommendations: string[]
 }
 
-// Основная функция диагностики
-export const diagnoseConnectionFailure = async (): Promise<NetworkDiagnostics> => {
-  console.log('🔍 Начинаем диагностику сети...')
+export interface DiagnosticsOptions {
+  // Тест микрофона и loopback-тест звука (запрашивают доступ к микрофону)
+  media?: boolean
+  onProgress?: (step: string) => void
+}
 
-  const diagnostics: NetworkDiagnostics = {
-    natType: 'unknown',
-    firewallDetected: false,
-    latency: 0,
-    jitter: 0,
-    packetLoss: 0,
-    recommendations: []
-  }
+// Сбор ICE кандидатов с заданными серверами до завершения gathering или таймаута.
+// Возвращает true, если сбор завершился сам, а не по таймауту
+const gatherCandidates = (
+  config: RTCConfiguration,
+  onCandidate: (candidate: RTCIceCandidate) => void
+): Promise<boolean> => {
+  const pc = new RTCPeerConnection(config)
+
+  return new Promise((resolve) => {
+    const finish = (completed: boolean) => {
+      clearTimeout(timeout)
+      pc.close()
+      resolve(completed)
+    }
+    const timeout = setTimeout(() => finish(false), GATHERING_TIMEOUT_MS)
 
-  try {
-    // Проверка качества соединения
-    const connectionQuality = await testConnectionQuality()
-    diagnostics.latency = connectionQuality.latency
-    diagnostics.jitter = connectionQuality.jitter
-    diagnostics.packetLoss = connectionQuality.packetLoss
+    pc.onicecandidate = (event) => {
+      if (!event.candidate) {
+        finish(true)
+        return
+      }
+      onCandidate(event.candidate)
+    }
+
+    pc.createDataChannel('diagnostics')
+    pc.createOffer()
+      .then(offer => pc.setLocalDescription(offer))
+      .catch(error => {
+        console.warn('Не удалось начать сбор кандидатов:', error)
+        finish(false)
+      })
+  })
+}
 
-    // Проверка NAT типа
-    const natResult = await detectNATType()
-    diagnostics.natType = natResult.natType
-    diagnostics.firewallDetected = natResult.firewallDetected
+const toMapping = (server: string, candidate: RTCIceCandidate): NatMapping => ({
+  server,
+  base: `${candidate.relatedAddress}:${candidate.relatedPort}`,
+  mapped: `${candidate.address}:${candidate.port}`,
+})
+
+// Тип NAT. Отдельная проба на каждый STUN сервер показывает, какие серверы отвечают, а общая проба
+// с обоими серверами - сколько внешних адресов получает один локальный сокет. Chrome отбрасывает
+// повторный srflx-кандидат с тем же внешним адресом, поэтому при cone NAT в общей пробе остается
+// одно сопоставление на сокет, а при symmetric - по одному на каждый сервер
+export const detectNatType = async (): Promise<NetworkDiagnostics['nat']> => {
+  const hostAddresses = new Set<string>()
+  const mappings: NatMapping[] = []
+  const sharedMappings: NatMapping[] = []
+
+  const collect = (server: string, target: NatMapping[]) => (candidate: RTCIceCandidate) => {
+    if (candidate.type === 'host' && candidate.address) {
+      hostAddresses.add(candidate.address)
+    }
+    if (candidate.type === 'srflx' && candidate.address) {
+      target.push(toMapping(server, candidate))
+    }
+  }
 
-    // Генерация рекомендаций
-    diagnostics.recommendations = generateRecommendations(diagnostics)
+  const [sharedCompleted] = await Promise.all([
+    gatherCandidates({ iceServers: STUN_SERVERS.map(urls => ({ urls })) }, collect('all', sharedMappings)),
+    ...STUN_SERVERS.map(server => gatherCandidates({ iceServers: [{ urls: server }] }, collect(server, mappings))),
+  ])
 
-    console.log('📊 Результаты диагностики:', diagnostics)
-    return diagnostics
+  const publicAddresses = Array.from(new Set([...mappings, ...sharedMappings].map(mapping => mapping.mapped.split(':')[0])))
 
-  } catch (error) {
-    console.error('Ошибка при диагностике сети:', error)
-    diagnostics.recommendations = [
-      'Проверьте подключение к интернету',
-      'Попробуйте перезагрузить роутер',
-      'Временно отключите firewall/антивирус'
-    ]
-    return diagnostics
+  if (mappings.length === 0 && sharedMappings.length === 0) {
+    // Ни один STUN сервер не ответил - UDP заблокирован
+    return { type: 'blocked', publicAddresses, mappings }
   }
-}
 
-// Тестирование качества соединения
-const testConnectionQuality = async (): Promise<{latency: number, jitter: number, packetLoss: number}> => {
-  const results: number[] = []
-  const testCount = 10
+  if (publicAddresses.every(address => hostAddresses.has(address))) {
+    return { type: 'open', publicAddresses, mappings }
+  }
 
-  for (let i = 0; i < testCount; i++) {
-    try {
-      const start = performance.now()
-      // Используем Google DNS для теста
-      await fetch('https://8.8.8.8/', {
-        method: 'HEAD',
-        mode: 'no-cors',
-        cache: 'no-cache'
-      })
-      const end = performance.now()
-      results.push(end - start)
-    } catch (error) {
-      console.warn(`Тест ${i + 1} провален:`, error)
-    }
+  // Группируем внешние адреса общей пробы по локальному сокету
+  const byBase = new Map<string, Set<string>>()
+  sharedMappings.forEach(({ base, mapped }) => {
+    byBase.set(base, (byBase.get(base) || new Set()).add(mapped))
+  })
 
-    // Задержка между тестами
-    await new Promise(resolve => setTimeout(resolve, 200))
+  if (Array.from(byBase.values()).some(mapped => mapped.size > 1)) {
+    return { type: 'symmetric', publicAddresses, mappings }
   }
 
-  if (results.length === 0) {
-    return { latency: 0, jitter: 0, packetLoss: 100 }
+  // Оба сервера отвечают, сбор завершился, а сокет получил одно сопоставление - адрес не зависит от сервера
+  const respondedServers = new Set(mappings.map(mapping => mapping.server))
+  const cone = sharedCompleted && sharedMappings.length > 0 && respondedServers.size === STUN_SERVERS.length
+
+  // Иначе (ответил один сервер или сбор прервался по таймауту) сравнить не с чем
+  return { type: cone ? 'cone' : 'unknown', publicAddresses, mappings }
+}
+
+// Доступность TURN: пробуем получить relay-кандидат только с TURN серверами
+export const checkTurn = async (): Promise<NetworkDiagnostics['turn']> => {
+  const iceServers = await fetchIceServers()
+  const turnServers = iceServers.filter(server => hasTurnServer([server]))
+
+  if (turnServers.length === 0) {
+    return { status: 'skipped', configured: false }
   }
 
-  const latency = results.reduce((a, b) => a + b) / results.length
-  const jitter = calculateJitter(results)
-  const packetLoss = ((testCount - results.length) / testCount) * 100
+  const start = performance.now()
+  let relay: RTCIceCandidate | null = null
 
-  return { latency, jitter, packetLoss }
-}
+  await gatherCandidates(
+    { iceServers: turnServers, iceTransportPolicy: 'relay' },
+    (candidate) => {
+      if (candidate.type === 'relay' && !relay) {
+        relay = candidate
+      }
+    }
+  )
 
-// Расчет jitter (вариации задержки)
-const calculateJitter = (latencies: number[]): number => {
-  if (latencies.length < 2) return 0
+  const found = relay as RTCIceCandidate | null
+  if (!found) {
+    return { status: 'failed', configured: true }
+  }
 
-  const diffs: number[] = []
-  for (let i = 1; i < latencies.length; i++) {
-    diffs.push(Math.abs(latencies[i] - latencies[i - 1]))
+  return {
+    status: 'ok',
+    configured: true,
+    relayAddress: `${found.address}:${found.port}`,
+    protocol: found.protocol || undefined,
+    timeMs: Math.round(performance.now() - start),
   }
+}
 
-  return diffs.reduce((a, b) => a + b) / diffs.length
+// Уровень микрофона за время теста (RMS и пик в процентах от полной шкалы)
+const measureMicrophoneLevel = (stream: MediaStream, durationMs: number): Promise<{ peak: number, average: number }> => {
+  const audioContext = new AudioContext()
+  const source = audioContext.createMediaStreamSource(stream)
+  const analyser = audioContext.createAnalyser()
+  analyser.fftSize = 2048
+  source.connect(analyser)
+
+  const samples = new Float32Array(analyser.fftSize)
+  let peak = 0
+  let sum = 0
+  let count = 0
+
+  return new Promise((resolve) => {
+    const interval = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples)
+      let squares = 0
+      samples.forEach(sample => {
+        squares += sample * sample
+      })
+      const rms = Math.sqrt(squares / samples.length)
+      peak = Math.max(peak, rms)
+      sum += rms
+      count++
+    }, 50)
+
+    setTimeout(() => {
+      clearInterval(interval)
+      source.disconnect()
+      audioContext.close()
+      // RMS речи редко превышает 0.3 - масштабируем, чтобы нормальная речь давала 50-100%
+      const toPercent = (value: number) => Math.min(100, Math.round(value / 0.3 * 100))
+      resolve({ peak: toPercent(peak), average: toPercent(count > 0 ? sum / count : 0) })
+    }, durationMs)
+  })
 }
 
-// Определение типа NAT
-const detectNATType = async (): Promise<{natType: NetworkDiagnostics['natType'], firewallDetected: boolean}> => {
+// Loopback: два RTCPeerConnection в одной вкладке передают звук микрофона через настоящий ICE/DTLS/SRTP
+const runLoopbackMediaTest = async (stream: MediaStream): Promise<NetworkDiagnostics['media']> => {
+  const iceServers = await fetchIceServers()
+  const sender = new RTCPeerConnection({ iceServers })
+  const receiver = new RTCPeerConnection({ iceServers })
+
   try {
-    // Простая проверка STUN сервера
-    const pc = new RTCPeerConnection({
-      iceServers: [{ urls: 'stun:stun.l.google.com:19302' }]
+    sender.onicecandidate = (event) => {
+      if (event.candidate) receiver.addIceCandidate(event.candidate).catch(() => {})
+    }
+    receiver.onicecandidate = (event) => {
+      if (event.candidate) sender.addIceCandidate(event.candidate).catch(() => {})
+    }
+
+    stream.getAudioTracks().forEach(track => sender.addTrack(track, stream))
+
+    const start = performance.now()
+    const connected = new Promise<boolean>((resolve) => {
+      const timeout = setTimeout(() => resolve(false), MEDIA_CONNECT_TIMEOUT_MS)
+      receiver.onconnectionstatechange = () => {
+        if (receiver.connectionState === 'connected') {
+          clearTimeout(timeout)
+          resolve(true)
+        } else if (receiver.connectionState === 'failed') {
+          clearTimeout(timeout)
+          resolve(false)
+        }
+      }
     })
 
-    let natType: NetworkDiagnostics['natType'] = 'unknown'
-    const firewallDetected = false
+    const offer = await sender.createOffer()
+    await sender.setLocalDescription(offer)
+    await receiver.setRemoteDescription(offer)
+    const answer = await receiver.createAnswer()
+    await receiver.setLocalDescription(answer)
+    await sender.setRemoteDescription(answer)
 
-    return new Promise((resolve) => {
-      const timeout = setTimeout(() => {
-        pc.close()
-        resolve({ natType: 'restricted', firewallDetected: true })
-      }, 5000)
+    if (!await connected) {
+      return { status: 'failed', error: 'Соединение не установилось' }
+    }
 
-      pc.onicecandidate = (event) => {
-        if (event.candidate) {
-          const candidate = event.candidate.candidate
+    const connectTimeMs = Math.round(performance.now() - start)
+    await new Promise(resolve => setTimeout(resolve, MEDIA_TEST_DURATION_MS))
 
-          // Анализ типа кандидата
-          if (candidate.includes('srflx')) {
-            natType = 'full-cone'
-          } else if (candidate.includes('relay')) {
-            natType = 'symmetric'
-          } else if (candidate.includes('host')) {
-            natType = 'open'
-          }
+    let packetsReceived = 0
+    let packetsLost = 0
+    let jitter: number | undefined
+    let rtt: number | undefined
 
-          clearTimeout(timeout)
-          pc.close()
-          resolve({ natType, firewallDetected })
-        }
+    const receiverStats = await receiver.getStats()
+    for (const stat of Array.from(receiverStats.values())) {
+      if (stat.type === 'inbound-rtp' && stat.kind === 'audio') {
+        packetsReceived = stat.packetsReceived || 0
+        packetsLost = Math.max(0, stat.packetsLost || 0)
+        jitter = stat.jitter !== undefined ? Math.round(stat.jitter * 1000) : undefined
       }
+      if (stat.type === 'candidate-pair' && stat.nominated && stat.currentRoundTripTime !== undefined) {
+        rtt = Math.round(stat.currentRoundTripTime * 1000)
+      }
+    }
 
-      pc.createDataChannel('test')
-      pc.createOffer().then(offer => pc.setLocalDescription(offer))
-    })
-
-  } catch (error) {
-    console.warn('Не удалось определить тип NAT:', error)
-    return { natType: 'unknown', firewallDetected: true }
+    const total = packetsReceived + packetsLost
+    const packetLoss = total > 0 ? Math.round(packetsLost / total * 1000) / 10 : 0
+
+    return {
+      status: packetsReceived === 0 ? 'failed' : packetLoss > 5 ? 'warning' : 'ok',
+      connectTimeMs,
+      rtt,
+      jitter,
+      packetLoss,
+      packetsReceived,
+      error: packetsReceived === 0 ? 'Пакеты со звуком не доходят' : undefined,
+    }
+  } finally {
+    sender.close()
+    receiver.close()
   }
 }
 
-// Генерация рекомендаций на основе диагностики
-const generateRecommendations = (diagnostics: NetworkDiagnostics): string[] => {
-  const recommendations: string[] = []
+// Полная проверка перед звонком
+export const runNetworkDiagnostics = async ({ media = true, onProgress }: DiagnosticsOptions = {}): Promise<NetworkDiagnostics> => {
+  console.log('🔍 Начинаем диагностику сети...')
 
-  // Рекомендации по качеству соединения
-  if (diagnostics.latency > 200) {
-    recommendations.push('Высокая задержка (>200мс). Используйте проводное подключение')
+  const diagnostics: NetworkDiagnostics = {
+    createdAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    nat: { type: 'unknown', publicAddresses: [], mappings: [] },
+    turn: { status: 'skipped', configured: false },
+    media: { status: 'skipped' },
+    microphone: { status: 'skipped' },
+    recommendations: [],
   }
 
-  if (diagnostics.jitter > 50) {
-    recommendations.push('Высокий jitter (>50мс). Проверьте стабильность интернета')
+  onProgress?.('Определение типа NAT')
+  try {
+    diagnostics.nat = await detectNatType()
+  } catch (error) {
+    console.warn('Не удалось определить тип NAT:', error)
   }
 
-  if (diagnostics.packetLoss > 5) {
-    recommendations.push('Потери пакетов (>5%). Проверьте подключение к интернету')
+  onProgress?.('Проверка TURN сервера')
+  try {
+    diagnostics.turn = await checkTurn()
+  } catch (error) {
+    console.warn('Не удалось проверить TURN:', error)
+    diagnostics.turn = { status: 'failed', configured: true }
   }
 
-  // Рекомендации по NAT/Firewall
-  switch (diagnostics.natType) {
-    case 'symmetric':
-      recommendations.push('Symmetric NAT обнаружен. Рекомендуется TURN сервер')
+  if (media) {
+    let stream: MediaStream | null = null
+    try {
+      onProgress?.('Доступ к микрофону')
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      const [track] = stream.getAudioTracks()
+
+      onProgress?.('Проверка микрофона и передачи звука - скажите что-нибудь')
+      const [level, mediaResult] = await Promise.all([
+        measureMicrophoneLevel(stream, MEDIA_TEST_DURATION_MS + 1000),
+        runLoopbackMediaTest(stream),
+      ])
+
+      diagnostics.microphone = {
+        status: level.peak < 5 ? 'warning' : 'ok',
+        deviceLabel: track?.label,
+        peakLevel: level.peak,
+        averageLevel: level.average,
+      }
+      diagnostics.media = mediaResult
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn('Ошибка проверки медиа:', error)
+      if (!stream) {
+        diagnostics.microphone = { status: 'failed', error: message }
+      } else {
+        diagnostics.media = { status: 'failed', error: message }
+      }
+    } finally {
+      stream?.getTracks().forEach(track => track.stop())
+    }
+  }
+
+  diagnostics.recommendations = generateRecommendations(diagnostics)
+
+  console.log('📊 Результаты диагностики:', diagnostics)
+  return diagnostics
+}
+
+// Фоновая диагностика после неудачного соединения (без доступа к микрофону)
+export const diagnoseConnectionFailure = async (): Promise<NetworkDiagnostics> => {
+  const diagnostics = await runNetworkDiagnostics({ media: false })
+  logNetworkDiagnostics(diagnostics)
+  return diagnostics
+}
+
+// Генерация рекомендаций на основе диагностики
+const generateRecommendations = (diagnostics: NetworkDiagnostics): string[] => {
+  const recommendations: string[] = []
+
+  switch (diagnostics.nat.type) {
+    case 'blocked':
+      recommendations.push('STUN серверы недоступны: UDP заблокирован. Звонки возможны только через TURN (TCP/TLS)')
       break
-    case 'restricted':
-    case 'port-restricted':
-      recommendations.push('Restricted NAT. Попробуйте другой браузер или сеть')
+    case 'symmetric':
+      recommendations.push('Symmetric NAT: прямое соединение вряд ли установится, нужен TURN сервер')
       break
     case 'unknown':
       recommendations.push('Не удалось определить тип NAT. Проверьте firewall')
       break
   }
 
-  if (diagnostics.firewallDetected) {
-    recommendations.push('Firewall блокирует соединения. Временно отключите firewall')
+  if (diagnostics.turn.status === 'failed') {
+    recommendations.push('TURN сервер недоступен: проверьте TURN_URLS/TURN_SECRET и открытые порты')
+  } else if (!diagnostics.turn.configured && (diagnostics.nat.type === 'symmetric' || diagnostics.nat.type === 'blocked')) {
+    recommendations.push('TURN сервер не настроен - в этой сети звонки могут не соединяться')
+  }
+
+  if (diagnostics.microphone.status === 'failed') {
+    recommendations.push('Нет доступа к микрофону. Разрешите его в настройках браузера')
+  } else if (diagnostics.microphone.status === 'warning') {
+    recommendations.push('Микрофон почти не слышно. Проверьте выбранное устройство и громкость')
+  }
+
+  if (diagnostics.media.status === 'failed') {
+    recommendations.push('Звук не передается даже внутри браузера. Проверьте расширения и настройки WebRTC')
+  } else if (diagnostics.media.status === 'warning') {
+    recommendations.push('Заметные потери пакетов. Закройте программы, нагружающие сеть')
   }
 
-  // Общие рекомендации
   if (recommendations.length === 0) {
-    recommendations.push('Соединение выглядит стабильным. Проверьте собеседника')
-  } else {
-    recommendations.push('Перезагрузите роутер и попробуйте снова')
-    recommendations.push('Используйте VPN если проблема сохраняется')
+    recommendations.push('Все проверки пройдены. Если звонок не соединяется, проверьте сеть собеседника')
   }
 
   return recommendations
 }
 
+const NAT_LABELS: Record<NatType, string> = {
+  unknown: 'не определен',
+  open: 'нет NAT (публичный адрес)',
+  cone: 'cone NAT (прямые соединения работают)',
+  symmetric: 'symmetric NAT (нужен TURN)',
+  blocked: 'UDP заблокирован',
+}
+
+export const getNatLabel = (type: NatType) => NAT_LABELS[type]
+
+// Текстовый отчет, который можно переслать собеседнику или в поддержку
+export const formatDiagnosticsReport = (diagnostics: NetworkDiagnostics): string => {
+  const { nat, turn, media, microphone } = diagnostics
+  const lines = [
+    'Диагностика звонков',
+    `Дата: ${new Date(diagnostics.createdAt).toLocaleString('ru-RU')}`,
+    `Браузер: ${diagnostics.userAgent}`,
+    '',
+    `NAT: ${NAT_LABELS[nat.type]}`,
+    `Внешние адреса: ${nat.publicAddresses.join(', ') || '—'}`,
+    ...nat.mappings.map(mapping => `  ${mapping.server}: ${mapping.base} -> ${mapping.mapped}`),
+    `TURN: ${!turn.configured ? 'не настроен' : turn.status === 'ok' ? `доступен (${turn.protocol}, ${turn.timeMs} мс)` : 'недоступен'}`,
+    `Передача звука: ${media.status === 'skipped' ? 'не проверялась' : media.status === 'failed' ? `ошибка (${media.error})` : `соединение за ${media.connectTimeMs} мс, потери ${media.packetLoss}%, джиттер ${media.jitter ?? '—'} мс`}`,
+    `Микрофон: ${microphone.status === 'skipped' ? 'не проверялся' : microphone.status === 'failed' ? `ошибка (${microphone.error})` : `${microphone.deviceLabel || 'по умолчанию'}, пик ${microphone.peakLevel}%, средний ${microphone.averageLevel}%`}`,
+    '',
+    'Рекомендации:',
+    ...diagnostics.recommendations.map(rec => `• ${rec}`),
+  ]
+
+  return lines.join('\n')
+}
+
 // Функция для логирования диагностики в консоль
 export const logNetworkDiagnostics = (diagnostics: NetworkDiagnostics) => {
   console.group('🌐 Диагностика сети')
-  console.log('📊 NAT тип:', diagnostics.natType)
-  console.log('🔥 Firewall:', diagnostics.firewallDetected ? 'Обнаружен' : 'Не обнаружен')
-  console.log('⏱️ Задержка:', `${Math.round(diagnostics.latency)}ms`)
-  console.log('📈 Jitter:', `${Math.round(diagnostics.jitter)}ms`)
-  console.log('📦 Потери пакетов:', `${Math.round(diagnostics.packetLoss)}%`)
-
-  console.group('💡 Рекомендации:')
-  diagnostics.recommendations.forEach(rec => console.log('•', rec))
-  console.groupEnd()
+  console.log(formatDiagnosticsReport(diagnostics))
   console.groupEnd()
 }
@@ -12,6 +12,7 @@ import type { RealtimeChannel } from '@supabase/supabase-js'
 interface ChannelConfig {
   channelName: string
   setup: (channel: RealtimeChannel) => RealtimeChannel
+  private?: boolean // Приватный канал: доступ проверяется политиками realtime.messages
   onSubscribed?: () => void
   onError?: (error: string) => void
   maxReconnectAttempts?: number
@@ -51,6 +52,12 @@ class ResilientChannelManager {
     return ResilientChannelManager.instance
   }
 
+  private createChannel(channelName: string, config: ChannelConfig): RealtimeChannel {
+    return config.private
+      ? this.supabase.channel(channelName, { config: { private: true } })
+      : this.supabase.channel(channelName)
+  }
+
   // Создание устойчивого канала с автоматическим переподключением
   createResilientChannel(config: ChannelConfig): Promise<RealtimeChannel> {
     const {
@@ -74,7 +81,7 @@ class ResilientChannelManager {
           this.cleanupExistingChannels(channelName)
 
           console.log(`📡 [ResilientChannel] Creating new channel: ${channelName}`)
-          const channel = this.supabase.channel(channelName)
+          const channel = this.createChannel(channelName, config)
 
           // Настраиваем канал через переданную функцию
           const configuredChannel = setup(channel)
@@ -241,7 +248,7 @@ class ResilientChannelManager {
     try {
       this.cleanupExistingChannels(channelName)
 
-      const channel = this.supabase.channel(channelName)
+      const channel = this.createChannel(channelName, channelState.config)
       const configuredChannel = channelState.config.setup(channel)
 
       // Обновляем состояние канала
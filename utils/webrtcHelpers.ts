@@ -6,57 +6,6 @@ import useCallStore from '@/store/useCallStore'
 import { resilientChannelManager } from '@/utils/resilientChannelManager'
 import { diagnoseConnectionFailure } from './networkDiagnostics'
 
-// Функция для попытки переподключения
-export const attemptReconnection = (
-  peerRefs: PeerRefs,
-  userId: string | null,
-  isInCall: boolean,
-  targetUserId: string | null,
-  initializePeer: (isInitiator: boolean) => Promise<void>
-) => {
-  const { reconnectTimeoutRef, reconnectAttemptsRef } = peerRefs
-
-  if (reconnectTimeoutRef.current || !isInCall || !targetUserId) {
-    return
-  }
-
-  const maxRetries = 3
-  const currentAttempt = reconnectAttemptsRef.current + 1
-
-  if (currentAttempt > maxRetries) {
-    console.error(`🔄 [User ${userId?.slice(0, 8)}] Max reconnection attempts reached, ending call`)
-    const { setError, endCall } = useCallStore.getState()
-
-    // Полная очистка всех ресурсов перед завершением звонка
-    cleanupAllPeerResources(peerRefs, userId)
-
-    setError('Соединение потеряно и не может быть восстановлено')
-    endCall()
-    return
-  }
-
-  console.log(`🔄 [User ${userId?.slice(0, 8)}] Attempting reconnection ${currentAttempt}/${maxRetries}`)
-  reconnectAttemptsRef.current = currentAttempt
-
-  // Увеличиваем задержки для уменьшения нагрузки на сеть
-  const delay = Math.min(1000 * Math.pow(1.5, currentAttempt - 1), 5000) // Экспоненциальная задержка
-
-  reconnectTimeoutRef.current = setTimeout(() => {
-    reconnectTimeoutRef.current = null
-
-    if (isInCall && targetUserId) {
-      console.log(`🔄 [User ${userId?.slice(0, 8)}] Reinitializing peer connection`)
-
-      // Полная очистка старого соединения
-      cleanupAllPeerResources(peerRefs, userId)
-
-      // Создаем новое соединение
-      const wasInitiator = useCallStore.getState().isCalling
-      initializePeer(wasInitiator)
-    }
-  }, delay)
-}
-
 // Функция для сброса счетчика переподключений
 export const resetReconnectionCounter = (peerRefs: PeerRefs) => {
   const { reconnectAttemptsRef, reconnectTimeoutRef } = peerRefs